@@ -0,0 +1,259 @@
+import * as vscode from 'vscode';
+import { ThemeManager, ThemeData } from './services/themeManager';
+import { Token, TokenizationService } from './services/tokenizationService';
+import { COLOR_VISION_MODES, ColorVisionMode, simulateColorVision } from './services/colorVision';
+
+/**
+ * Code shown in the simulation, with the language it is highlighted as
+ */
+interface SimulationSource {
+    code: string;
+    language: string;
+}
+
+/**
+ * A fenced block of a Markdown document, by the lines of its content
+ */
+interface FencedBlock {
+    language: string;
+    startLine: number;
+    endLine: number;
+}
+
+/**
+ * One rendering of the block: the theme data it was tokenized with and the simulated deficiency
+ */
+interface SimulationVariant {
+    title: string;
+    themeData: ThemeData;
+    simulatedMode?: ColorVisionMode;
+}
+
+const MODE_LABELS: { [mode in ColorVisionMode]: string } = {
+    deuteranopia: 'Deuteranopia (green-blind)',
+    protanopia: 'Protanopia (red-blind)',
+    tritanopia: 'Tritanopia (blue-blind)'
+};
+
+const FENCE_PATTERN = /^\s{0,3}(`{3,}|~{3,})(.*)$/;
+
+/**
+ * ColorVisionSimulation - Shows how a code block looks with each color vision deficiency
+ * For each mode the block is shown in the theme's colors and in the mode's remapped palette,
+ * both as seen with the deficiency, so the effect of the `colorVisionMode` setting can be compared
+ */
+export class ColorVisionSimulation implements vscode.Disposable {
+    private panel: vscode.WebviewPanel | undefined;
+
+    constructor(
+        private readonly themeManager: ThemeManager,
+        private readonly tokenizationService: TokenizationService
+    ) {}
+
+    /**
+     * Show the simulation of the selection, or of the fenced block at the cursor
+     */
+    public async show(editor: vscode.TextEditor | undefined): Promise<void> {
+        const source = editor && this.getSource(editor);
+        if (!source) {
+            vscode.window.showInformationMessage(
+                'Select code or place the cursor in a fenced code block to simulate color vision deficiencies'
+            );
+            return;
+        }
+
+        const variants: SimulationVariant[] = [
+            { title: 'Theme colors', themeData: this.themeManager.getThemeDataForColorVisionMode(null) }
+        ];
+        for (const mode of COLOR_VISION_MODES) {
+            variants.push(
+                { title: `${MODE_LABELS[mode]}: theme colors`, themeData: variants[0].themeData, simulatedMode: mode },
+                {
+                    title: `${MODE_LABELS[mode]}: ${mode} palette`,
+                    themeData: this.themeManager.getThemeDataForColorVisionMode(mode),
+                    simulatedMode: mode
+                }
+            );
+        }
+
+        const blocks: string[] = [];
+        for (const variant of variants) {
+            const tokenized = await this.tokenizationService.tokenize(source.code, source.language, variant.themeData);
+            blocks.push(renderVariant(variant, source.code, tokenized.tokens));
+        }
+
+        if (!this.panel) {
+            this.panel = vscode.window.createWebviewPanel(
+                'markdownCodeBlockHighlighter.colorVisionSimulation',
+                'Color Vision Simulation',
+                { viewColumn: vscode.ViewColumn.Beside, preserveFocus: true },
+                { enableScripts: false }
+            );
+            this.panel.onDidDispose(() => {
+                this.panel = undefined;
+            });
+        } else {
+            this.panel.reveal(vscode.ViewColumn.Beside, true);
+        }
+        this.panel.webview.html = renderPage(source.language, blocks);
+    }
+
+    public dispose(): void {
+        this.panel?.dispose();
+    }
+
+    /**
+     * Get the selected code, or the content of the fenced block at the cursor
+     * Selections inside a fenced block are highlighted as the block's language
+     */
+    private getSource(editor: vscode.TextEditor): SimulationSource | null {
+        const document = editor.document;
+        const selection = editor.selection;
+        const block = findFencedBlock(document, selection.active.line);
+
+        if (!selection.isEmpty) {
+            const fallbackLanguage = document.languageId === 'markdown' ? 'plaintext' : document.languageId;
+            return { code: document.getText(selection), language: block?.language ?? fallbackLanguage };
+        }
+        if (!block || block.endLine < block.startLine) {
+            return null;
+        }
+
+        const range = new vscode.Range(block.startLine, 0, block.endLine, document.lineAt(block.endLine).text.length);
+        return { code: document.getText(range), language: block.language };
+    }
+}
+
+/**
+ * Find the fenced block a line belongs to, fences included
+ * Fences are followed from the top of the document, so a fence line is known to open or close a block
+ */
+function findFencedBlock(document: vscode.TextDocument, line: number): FencedBlock | null {
+    let open: { fence: string; language: string; line: number } | null = null;
+
+    for (let index = 0; index < document.lineCount; index++) {
+        const match = FENCE_PATTERN.exec(document.lineAt(index).text);
+        if (!open) {
+            if (index > line) {
+                return null;
+            }
+            if (match && !(match[1][0] === '`' && match[2].includes('`'))) {
+                const language = match[2].trim().split(/[\s{]/)[0].toLowerCase();
+                open = { fence: match[1], language: language || 'plaintext', line: index };
+            }
+            continue;
+        }
+
+        const closes = !!match
+            && match[1][0] === open.fence[0]
+            && match[1].length >= open.fence.length
+            && match[2].trim() === '';
+        if (closes) {
+            if (line >= open.line && line <= index) {
+                return { language: open.language, startLine: open.line + 1, endLine: index - 1 };
+            }
+            open = null;
+        }
+    }
+
+    // Unclosed blocks run to the end of the document
+    if (open && line >= open.line) {
+        return { language: open.language, startLine: open.line + 1, endLine: document.lineCount - 1 };
+    }
+    return null;
+}
+
+/**
+ * Render one variant as a titled code block
+ * Token and block colors are passed through the simulated deficiency, if any
+ */
+function renderVariant(variant: SimulationVariant, code: string, tokens: Token[]): string {
+    const mode = variant.simulatedMode;
+    const simulate = (color: string) => mode ? simulateColorVision(color, mode) : color;
+    const { themeData } = variant;
+
+    let html = '';
+    let offset = 0;
+    for (const token of [...tokens].sort((a, b) => a.startIndex - b.startIndex)) {
+        if (token.startIndex < offset) {
+            continue;
+        }
+        html += escapeHtml(code.substring(offset, token.startIndex));
+
+        const styles: string[] = [];
+        if (token.color) {
+            styles.push(`color: ${simulate(token.color)}`);
+        }
+        styles.push(...getFontStyleCss(token.fontStyle));
+        const text = escapeHtml(code.substring(token.startIndex, token.endIndex));
+        html += styles.length > 0 ? `<span style="${escapeHtml(styles.join('; '))}">${text}</span>` : text;
+        offset = token.endIndex;
+    }
+    html += escapeHtml(code.substring(offset));
+
+    const blockStyle = `background: ${simulate(themeData.background)}; color: ${simulate(themeData.foreground)}; `
+        + `border-color: ${simulate(themeData.borderColor)}`;
+    return `<section>
+        <h2>${escapeHtml(variant.title)}</h2>
+        <pre style="${escapeHtml(blockStyle)}"><code>${html}</code></pre>
+    </section>`;
+}
+
+/**
+ * Get the CSS of a TextMate font style, e.g. `bold italic`
+ */
+function getFontStyleCss(fontStyle: string | undefined): string[] {
+    const styles = (fontStyle || '').split(/\s+/);
+    const css: string[] = [];
+    if (styles.includes('bold')) {
+        css.push('font-weight: bold');
+    }
+    if (styles.includes('italic')) {
+        css.push('font-style: italic');
+    }
+    const decorations = [
+        styles.includes('underline') ? 'underline' : '',
+        styles.includes('strikethrough') ? 'line-through' : ''
+    ].filter(decoration => decoration);
+    if (decorations.length > 0) {
+        css.push(`text-decoration: ${decorations.join(' ')}`);
+    }
+    return css;
+}
+
+function renderPage(language: string, blocks: string[]): string {
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src 'unsafe-inline';">
+    <title>Color Vision Simulation</title>
+    <style>
+        body { font-family: var(--vscode-font-family); color: var(--vscode-foreground); padding: 0 16px 16px; }
+        h1 { font-size: 1.3em; }
+        h2 { font-size: 1em; font-weight: normal; margin: 16px 0 6px; }
+        pre {
+            margin: 0;
+            padding: 12px 16px;
+            border: 1px solid;
+            border-radius: 6px;
+            overflow-x: auto;
+            font-family: var(--vscode-editor-font-family);
+            font-size: var(--vscode-editor-font-size);
+        }
+    </style>
+</head>
+<body>
+    <h1>Color vision simulation (${escapeHtml(language)})</h1>
+    ${blocks.join('\n    ')}
+</body>
+</html>`;
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
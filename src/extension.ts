@@ -6,6 +6,9 @@ import { ConfigurationManager } from './services/configurationManager';
 import { PerformanceMonitor } from './services/performanceMonitor';
 import { ErrorHandler } from './utils/errorHandler';
 import { PreviewEnhancer } from './previewEnhancer';
+import { ColorVisionSimulation } from './colorVisionSimulation';
+import { fenceAttributesPlugin } from './services/fenceAttributes';
+import { blockDataPlugin } from './services/renderedBlocks';
 
 /**
  * Global services that need to be disposed on deactivation
@@ -17,13 +20,23 @@ let configManager: ConfigurationManager | undefined;
 let performanceMonitor: PerformanceMonitor | undefined;
 let errorHandler: ErrorHandler | undefined;
 let previewEnhancer: PreviewEnhancer | undefined;
+let colorVisionSimulation: ColorVisionSimulation | undefined;
 let statusBarItem: vscode.StatusBarItem | undefined;
 
 /**
  * Extension activation entry point
  * Called when the extension is activated (when a Markdown file is opened)
+ * Returns the markdown-it plugins that keep fence attributes and the host's tokens for the preview script
  */
-export function activate(context: vscode.ExtensionContext): void {
+export function activate(context: vscode.ExtensionContext): { extendMarkdownIt(md: any): any } {
+    const markdownApi = {
+        extendMarkdownIt(md: any) {
+            fenceAttributesPlugin(md);
+            blockDataPlugin(md, block => previewEnhancer?.getBlockData(block) ?? {});
+            return md;
+        }
+    };
+
     const outputChannel = vscode.window.createOutputChannel('Markdown Code Block Highlighter');
     outputChannel.appendLine('=== Markdown Code Block Highlighter extension is activating ===');
     outputChannel.appendLine(`Extension path: ${context.extensionPath}`);
@@ -45,7 +58,7 @@ export function activate(context: vscode.ExtensionContext): void {
         if (!config.enableHighlighting) {
             outputChannel.appendLine('Markdown Code Block Highlighter is disabled in settings');
             console.log('Markdown Code Block Highlighter is disabled in settings');
-            return;
+            return markdownApi;
         }
 
         // Log configuration for debugging
@@ -84,6 +97,9 @@ export function activate(context: vscode.ExtensionContext): void {
         context.subscriptions.push(previewEnhancer);
         errorHandler.logInfo('PreviewEnhancer initialized');
 
+        colorVisionSimulation = new ColorVisionSimulation(themeManager, tokenizationService);
+        context.subscriptions.push(colorVisionSimulation);
+
         // Register commands
         registerCommands(context, outputChannel);
 
@@ -113,6 +129,8 @@ export function activate(context: vscode.ExtensionContext): void {
             );
         }
     }
+
+    return markdownApi;
 }
 
 /**
@@ -314,6 +332,22 @@ function registerCommands(context: vscode.ExtensionContext, outputChannel: vscod
     );
     context.subscriptions.push(showErrorLogCommand);
 
+    // Command to compare a code block under each color vision mode
+    const showColorVisionSimulationCommand = vscode.commands.registerCommand(
+        'markdownCodeBlockHighlighter.showColorVisionSimulation',
+        async () => {
+            if (colorVisionSimulation && errorHandler) {
+                try {
+                    await colorVisionSimulation.show(vscode.window.activeTextEditor);
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    errorHandler.showErrorMessage(`Failed to show color vision simulation: ${errorMessage}`);
+                }
+            }
+        }
+    );
+    context.subscriptions.push(showColorVisionSimulationCommand);
+
     outputChannel.appendLine('Commands registered');
 }
 
@@ -335,6 +369,11 @@ export function deactivate(): void {
         previewEnhancer = undefined;
     }
 
+    if (colorVisionSimulation) {
+        colorVisionSimulation.dispose();
+        colorVisionSimulation = undefined;
+    }
+
     if (cacheManager) {
         cacheManager.clear();
         cacheManager = undefined;
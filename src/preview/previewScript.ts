@@ -3,8 +3,9 @@
  * SELF-CONTAINED: Performs all highlighting logic without extension host communication
  * 
  * Architecture Note: This script runs in a webview owned by VS Code's markdown-language-features
- * extension. We do NOT have access to message passing with our extension host. Therefore, all
- * theme detection and tokenization must happen here in the browser context.
+ * extension. We do NOT have access to message passing with our extension host. The host's
+ * markdown-it plugin renders the data it has for a block (e.g. its tokens) into data attributes;
+ * everything else, and blocks the host has no data for yet, is highlighted here in the browser context.
  */
 
 (function() {
@@ -20,9 +21,14 @@
         borderRadius: 4,
         showCopyButton: true,
         copyButtonPosition: 'top-right' as 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left',
-        copyButtonVisibility: 'hover' as 'hover' | 'always'
+        copyButtonVisibility: 'hover' as 'hover' | 'always',
+        languageAliases: {} as { [fenceId: string]: string },
+        defaultLanguage: ''
     };
 
+    // Settings that change the language blocks are highlighted in
+    const LANGUAGE_SETTINGS = ['languageAliases', 'defaultLanguage'];
+
     // Track processed code blocks to avoid duplicate processing
     const processedBlocks = new Set<string>();
 
@@ -41,10 +47,94 @@
         buttonForeground: string;
         buttonHoverBackground: string;
         accentColor: string;
+        diffColors: {
+            insertedLineBackground: string;
+            removedLineBackground: string;
+            hunkLineBackground: string;
+        };
+        // The 16 terminal colors in palette order, for ANSI escape sequences
+        ansiColors: string[];
     }
 
     let currentTheme: ThemeData | null = null;
 
+    // Set once the extension host rendered its theme, which may be a preview theme other than the editor's
+    let themeFromExtension = false;
+
+    // The host's theme as last applied, as rendered
+    let hostThemeText: string | null = null;
+
+    /**
+     * Theme the extension host rendered into the `data-mcbh-theme` attribute of blocks;
+     * terminal colors are keyed by name, e.g. `brightRed`
+     */
+    type HostTheme = Omit<ThemeData, 'diffColors' | 'ansiColors'> & {
+        diffColors?: ThemeData['diffColors'];
+        ansiColors?: { [name: string]: string };
+    };
+
+    /**
+     * Tokens the extension host computed for a block, rendered into its `data-mcbh-tokens` attribute
+     * `data` holds [startIndex, endIndex, styleId] per token; `styles` maps style ids to colors
+     */
+    interface HostTokens {
+        data: number[];
+        styles: { [styleId: number]: string };
+        fontStyles?: { [styleId: number]: string };
+        diffLines?: DiffLineKind[];
+    }
+
+    /**
+     * Settings of a single block from its fence info string, e.g. ```bash theme="GitHub Light" border=false
+     * The extension's markdown-it plugin keeps them on the code element
+     */
+    interface FenceAttributes {
+        theme?: string;
+        border?: boolean;
+        copy?: boolean;
+    }
+
+    const FENCE_ATTRIBUTE_PATTERN = /([\w-]+)=(?:"([^"]*)"|'([^']*)'|([^\s}]+))/g;
+
+    /**
+     * Kind of a line in a diff block
+     */
+    type DiffLineKind = 'added' | 'removed' | 'hunk' | 'header' | 'context';
+
+    // Token type of the marker (or the whole line, without a code language) of each diff line kind
+    const DIFF_TOKEN_TYPES: { [kind: string]: string } = {
+        added: 'inserted',
+        removed: 'deleted',
+        hunk: 'range',
+        header: 'header',
+        context: 'text'
+    };
+
+    /**
+     * A line of a console transcript
+     * `prompt` is empty on continuation lines; output lines have no command
+     */
+    interface ConsoleLine {
+        prompt: string;
+        command: string | null;
+        text: string;
+    }
+
+    // Console languages; PowerShell sessions and other transcripts with `PS>` prompts take PowerShell commands
+    const CONSOLE_LANGUAGES = ['console', 'shell-session', 'shellsession', 'sh-session', 'terminal'];
+    const POWERSHELL_CONSOLE_LANGUAGES = ['pwsh-session', 'ps1-session', 'powershell-session'];
+
+    const CONSOLE_PROMPT_PATTERN = /^[ \t]*(?:\([^)\n]*\)[ \t]*)?(?:PS(?:[ \t][^>\n]*)?>|(?:\[[^\]\n]*\]|[\w.-]+@[\w.-]+(?::[^\s$#%>]*)?)?[$#%>])(?:[ \t]|$)/;
+
+    // Terminal color names in palette order, as in the `--vscode-terminal-ansi*` variables
+    const ANSI_COLOR_NAMES = [
+        'Black', 'Red', 'Green', 'Yellow', 'Blue', 'Magenta', 'Cyan', 'White',
+        'BrightBlack', 'BrightRed', 'BrightGreen', 'BrightYellow', 'BrightBlue', 'BrightMagenta', 'BrightCyan', 'BrightWhite'
+    ];
+
+    // CSI and OSC escape sequences; group 1 holds the parameters and group 2 the final byte of CSI sequences
+    const ANSI_ESCAPE_PATTERN = /\x1b\[([0-9;:?]*)[ -/]*([@-~])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
     /**
      * Helper to get CSS variable with fallback
      * Reads VS Code CSS variables from document.body styles
@@ -77,6 +167,9 @@
             
             // Watch for theme changes
             observeThemeChanges();
+
+            // Accept settings posted by the extension host, if it can reach us
+            listenForExtensionMessages();
             
             console.log('MCBH: Initialization complete');
         } catch (error) {
@@ -110,10 +203,29 @@
             buttonBackground: getCSSVar('--vscode-button-background', kind === 'light' ? '#f3f3f3cc' : '#252526cc'),
             buttonForeground: getCSSVar('--vscode-button-foreground', kind === 'light' ? '#333333' : '#cccccc'),
             buttonHoverBackground: getCSSVar('--vscode-button-hoverBackground', kind === 'light' ? '#e8e8e8' : '#2a2d2e'),
-            accentColor: getCSSVar('--vscode-focusBorder', kind === 'light' ? '#007acc' : '#569cd6')
+            accentColor: getCSSVar('--vscode-focusBorder', kind === 'light' ? '#007acc' : '#569cd6'),
+            diffColors: {
+                insertedLineBackground: getCSSVar('--vscode-diffEditor-insertedLineBackground', '#9bb95533'),
+                removedLineBackground: getCSSVar('--vscode-diffEditor-removedLineBackground', '#ff000033'),
+                hunkLineBackground: kind === 'light' ? '#0451a514' : '#569cd61f'
+            },
+            ansiColors: detectAnsiColors(kind)
         };
     }
 
+    /**
+     * Detect the 16 terminal colors from the `terminal.ansi*` theme colors
+     */
+    function detectAnsiColors(kind: 'light' | 'dark' | 'highContrast'): string[] {
+        const defaults = kind === 'light'
+            ? ['#000000', '#cd3131', '#00bc00', '#949800', '#0451a5', '#bc05bc', '#0598bc', '#555555',
+                '#666666', '#cd3131', '#14ce14', '#b5ba00', '#0451a5', '#bc05bc', '#0598bc', '#a5a5a5']
+            : ['#000000', '#cd3131', '#0dbc79', '#e5e510', '#2472c8', '#bc3fbc', '#11a8cd', '#e5e5e5',
+                '#666666', '#f14c4c', '#23d18b', '#f5f543', '#3b8eea', '#d670d6', '#29b8db', '#e5e5e5'];
+
+        return ANSI_COLOR_NAMES.map((name, index) => getCSSVar(`--vscode-terminal-ansi${name}`, defaults[index]));
+    }
+
     /**
      * Detect optimal border color from theme CSS variables
      * Prioritizes theme accent colors for custom themes like Catppuccin
@@ -371,7 +483,12 @@
                 'parameter': '#001080',
                 'property': '#001080',
                 'punctuation': '#000000',
-                'regexp': '#811f3f'
+                'regexp': '#811f3f',
+                'markup.inserted': '#098658',
+                'markup.deleted': '#a31515',
+                'markup.changed': '#0451a5',
+                'markup.heading': '#0000ff',
+                'output': '#767676'
             };
         } else if (kind === 'dark') {
             return {
@@ -388,7 +505,12 @@
                 'parameter': '#9cdcfe',
                 'property': '#9cdcfe',
                 'punctuation': '#d4d4d4',
-                'regexp': '#d16969'
+                'regexp': '#d16969',
+                'markup.inserted': '#b5cea8',
+                'markup.deleted': '#ce9178',
+                'markup.changed': '#569cd6',
+                'markup.heading': '#569cd6',
+                'output': '#8b8b8b'
             };
         } else {
             return {
@@ -405,7 +527,12 @@
                 'parameter': '#ffffff',
                 'property': '#ffffff',
                 'punctuation': '#ffffff',
-                'regexp': '#d16969'
+                'regexp': '#d16969',
+                'markup.inserted': '#b5cea8',
+                'markup.deleted': '#ce9178',
+                'markup.changed': '#569cd6',
+                'markup.heading': '#569cd6',
+                'output': '#c0c0c0'
             };
         }
     }
@@ -436,6 +563,8 @@
 
         const copyButtonOpacity = config.copyButtonVisibility === 'always' ? '1' : '0';
         const positionStyles = getPositionStyles(config.copyButtonPosition);
+        // The badge sits on the right, below the copy button when that is in the top-right corner
+        const badgePosition = config.copyButtonPosition === 'top-right' ? 'bottom-right' : 'top-right';
 
         styleElement.textContent = `
             .mcbh-code-container {
@@ -447,14 +576,28 @@
                 transition: border-color 0.2s ease;
             }
             
+            .mcbh-code-container.mcbh-border {
+                border: ${config.borderWidth}px solid ${currentTheme.borderColor};
+            }
+
+            .mcbh-code-container.mcbh-no-border {
+                border: none;
+            }
+
             .mcbh-code-container > pre {
                 margin: 0;
                 border-radius: 0;
             }
             
-            .mcbh-copy-button {
+            .mcbh-toolbar {
                 position: absolute;
                 ${positionStyles}
+                display: flex;
+                gap: 4px;
+                z-index: 10;
+            }
+
+            .mcbh-copy-button {
                 padding: 4px 8px;
                 background: ${currentTheme.buttonBackground};
                 color: ${currentTheme.buttonForeground};
@@ -464,7 +607,6 @@
                 opacity: ${copyButtonOpacity};
                 transition: opacity 0.2s ease, background 0.2s ease, color 0.2s ease;
                 font-size: 12px;
-                z-index: 10;
             }
             
             .mcbh-code-container:hover .mcbh-copy-button {
@@ -475,6 +617,60 @@
                 background: ${currentTheme.buttonHoverBackground};
             }
             
+            .mcbh-language-badge {
+                position: absolute;
+                ${getPositionStyles(badgePosition)}
+                padding: 1px 6px;
+                color: ${currentTheme.buttonForeground};
+                border: 1px solid ${currentTheme.borderColorSubtle};
+                border-radius: 4px;
+                font-size: 11px;
+                opacity: 0.7;
+                pointer-events: none;
+                z-index: 9;
+            }
+
+            code.mcbh-diff {
+                display: block;
+                min-width: max-content;
+            }
+
+            .mcbh-diff-line {
+                display: inline-block;
+                min-width: 100%;
+                box-sizing: border-box;
+            }
+
+            .mcbh-diff-added {
+                background-color: ${currentTheme.diffColors.insertedLineBackground};
+            }
+
+            .mcbh-diff-removed {
+                background-color: ${currentTheme.diffColors.removedLineBackground};
+            }
+
+            .mcbh-diff-hunk {
+                background-color: ${currentTheme.diffColors.hunkLineBackground};
+            }
+
+            .mcbh-diff-gutter {
+                display: inline-block;
+                width: 2ch;
+                user-select: none;
+            }
+
+            .mcbh-diff-added > .mcbh-diff-gutter {
+                color: ${currentTheme.colors['markup.inserted']};
+            }
+
+            .mcbh-diff-removed > .mcbh-diff-gutter {
+                color: ${currentTheme.colors['markup.deleted']};
+            }
+
+            .mcbh-ansi-escape {
+                display: none;
+            }
+
             .mcbh-copy-button.copied {
                 color: ${currentTheme.buttonForeground} !important;
                 background: ${currentTheme.buttonHoverBackground} !important;
@@ -485,7 +681,7 @@
     }
 
     /**
-     * Get position styles for copy button
+     * Get position styles for the copy button toolbar
      */
     function getPositionStyles(position: string): string {
         switch (position) {
@@ -501,6 +697,8 @@
      */
     function scanAndEnhanceCodeBlocks(): void {
         try {
+            applyHostTheme();
+
             const codeBlocks = document.querySelectorAll('pre > code');
             console.log(`MCBH: Found ${codeBlocks.length} code blocks`);
 
@@ -523,24 +721,56 @@
                 return;
             }
 
-            const language = extractLanguage(codeElement);
             const code = codeElement.textContent || '';
 
             if (!code.trim()) {
                 return;
             }
 
+            // Unlabeled and indented blocks take the default language, or the language the extension
+            // host detected when its guess was confident enough
+            let language = extractLanguage(codeElement) ?? (config.defaultLanguage || null);
+            let detected: LanguageGuess | null = null;
+            if (language === null) {
+                detected = readDetectedLanguage(codeElement);
+                language = detected ? detected.language : 'plaintext';
+            }
+            if (Object.prototype.hasOwnProperty.call(config.languageAliases, language.toLowerCase())) {
+                language = config.languageAliases[language.toLowerCase()];
+            }
+
             console.log(`MCBH: Processing block ${blockId} (${language}, ${code.length} chars)`);
 
             // Mark as processed
             processedBlocks.add(blockId);
 
-            // Tokenize and apply highlighting
-            const tokens = tokenizeCode(code, language);
-            applyHighlighting(codeElement, tokens);
+            // Tokenize and apply highlighting, unless the extension host did; diffs keep the kind of each line
+            const hostTokens = readHostTokens(codeElement);
+            const theme = readBlockTheme(codeElement) ?? currentTheme;
+            const diffCodeLanguage = parseDiffLanguage(language);
+            const consoleLines = isConsoleLanguage(language) ? parseConsoleLines(code) : null;
+            if (hostTokens) {
+                applyHighlighting(codeElement, getHostTokenSpans(code, hostTokens), hostTokens.diffLines, theme);
+            } else if (diffCodeLanguage !== null) {
+                const diff = tokenizeDiff(code, diffCodeLanguage);
+                applyHighlighting(codeElement, diff.tokens, diff.diffLines, theme);
+            } else if (consoleLines) {
+                applyHighlighting(codeElement, tokenizeConsole(consoleLines, language), undefined, theme);
+            } else if (isAnsiBlock(language, code)) {
+                applyHighlighting(codeElement, tokenizeAnsi(code), undefined, theme);
+            } else {
+                applyHighlighting(codeElement, tokenizeCode(code, language), undefined, theme);
+            }
 
-            // Wrap in container and add copy button
-            wrapCodeBlock(codeElement, code);
+            // Wrap in container and add copy buttons; transcripts can also copy just their commands.
+            // Escape sequences are hidden in the preview, so they are left out of copied text too
+            wrapCodeBlock(
+                codeElement,
+                code.replace(ANSI_ESCAPE_PATTERN, ''),
+                readFenceAttributes(codeElement),
+                detected,
+                consoleLines ? getConsoleCommands(consoleLines) : undefined
+            );
 
             console.log(`MCBH: Successfully highlighted block ${blockId}`);
         } catch (error) {
@@ -563,18 +793,303 @@
 
     /**
      * Extract language from code element
+     * Returns null for unlabeled blocks, which includes indented code blocks
      */
-    function extractLanguage(codeElement: Element): string {
+    function extractLanguage(codeElement: Element): string | null {
         const className = codeElement.className;
-        const match = className.match(/language-(\w+)/);
-        return match ? match[1] : 'plaintext';
+        const match = className.match(/language-([\w-]+)/);
+        return match ? match[1] : null;
+    }
+
+    /**
+     * Read the fence attributes of a code block
+     * Unknown keys and values that are not `true` or `false` for switches are ignored
+     */
+    function readFenceAttributes(codeElement: Element): FenceAttributes {
+        const text = codeElement.getAttribute('data-mcbh-attributes') || '';
+        const attributes: FenceAttributes = {};
+
+        FENCE_ATTRIBUTE_PATTERN.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = FENCE_ATTRIBUTE_PATTERN.exec(text)) !== null) {
+            const key = match[1].toLowerCase();
+            const value = match[2] ?? match[3] ?? match[4];
+
+            if (key === 'theme' && value.trim()) {
+                attributes.theme = value.trim();
+            } else if ((key === 'border' || key === 'copy') && (value === 'true' || value === 'false')) {
+                attributes[key] = value === 'true';
+            }
+        }
+
+        return attributes;
+    }
+
+    /**
+     * Read a data attribute the extension host rendered for a block
+     * Fences carry it on their code element, indented blocks on their pre element
+     */
+    function readBlockData(codeElement: Element, name: string): string | null {
+        return codeElement.getAttribute(name) ?? codeElement.parentElement?.getAttribute(name) ?? null;
+    }
+
+    /**
+     * Read the tokens the extension host computed for a block, if any
+     */
+    function readHostTokens(codeElement: Element): HostTokens | null {
+        const text = readBlockData(codeElement, 'data-mcbh-tokens');
+        if (!text) {
+            return null;
+        }
+
+        try {
+            const tokens = JSON.parse(text) as HostTokens;
+            return Array.isArray(tokens.data) && tokens.styles ? tokens : null;
+        } catch (error) {
+            console.error('MCBH: Failed to read the tokens of a block:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Get the colored spans of a block from the tokens the extension host computed
+     */
+    function getHostTokenSpans(
+        code: string,
+        tokens: HostTokens
+    ): Array<{ text: string; type: string; color?: string; fontStyle?: string }> {
+        const spans: Array<{ text: string; type: string; color?: string; fontStyle?: string }> = [];
+        for (let i = 0; i + 2 < tokens.data.length; i += 3) {
+            spans.push({
+                text: code.substring(tokens.data[i], tokens.data[i + 1]),
+                type: 'text',
+                color: tokens.styles[tokens.data[i + 2]],
+                fontStyle: tokens.fontStyles?.[tokens.data[i + 2]]
+            });
+        }
+        return spans;
+    }
+
+    /**
+     * Language the extension host guessed for an unlabeled code block
+     * `confidence` runs from 0 (no evidence) to 1 (unambiguous, e.g. a shebang)
+     */
+    interface LanguageGuess {
+        language: string;
+        confidence: number;
+    }
+
+    /**
+     * Read the language the extension host guessed for an unlabeled block, if it was confident enough
+     */
+    function readDetectedLanguage(codeElement: Element): LanguageGuess | null {
+        const text = readBlockData(codeElement, 'data-mcbh-detected');
+        if (!text) {
+            return null;
+        }
+
+        try {
+            const guess = JSON.parse(text) as LanguageGuess;
+            return typeof guess.language === 'string' && typeof guess.confidence === 'number' ? guess : null;
+        } catch (error) {
+            console.error('MCBH: Failed to read the detected language of a block:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Multi-line construct recognized by the preview tokenizer
+     * `end` may reference capture groups of `begin` as $1..$9
+     */
+    interface MultiLineConstruct {
+        begin: string;
+        end: string;
+        type: string;
+        escape?: boolean;
+        bodyStartsNextLine?: boolean;
+    }
+
+    /**
+     * Construct left open at the end of a line
+     */
+    interface OpenConstruct {
+        end: RegExp;
+        type: string;
+    }
+
+    /**
+     * Get the multi-line constructs to track for a language
+     */
+    function getMultiLineConstructs(language: string): MultiLineConstruct[] {
+        const constructs: MultiLineConstruct[] = [];
+        const lang = language.toLowerCase();
+
+        if (['python', 'py'].includes(lang)) {
+            constructs.push({ begin: '[rRbBuUfF]{0,2}("""|\'\'\')', end: '$1', type: 'string', escape: true });
+        } else if (['shellscript', 'shell', 'sh', 'bash', 'zsh', 'ruby', 'rb', 'perl', 'php'].includes(lang)) {
+            constructs.push({
+                begin: '<<<?[~-]?\\s*([\'"]?)([a-zA-Z_][a-zA-Z0-9_]*)\\1',
+                end: '^\\s*$2\\b',
+                type: 'string',
+                bodyStartsNextLine: true
+            });
+        } else {
+            constructs.push({ begin: '\\/\\*', end: '\\*\\/', type: 'comment' });
+        }
+
+        if (['javascript', 'js', 'jsx', 'typescript', 'ts', 'tsx', 'go'].includes(lang)) {
+            constructs.push({ begin: '`', end: '`', type: 'string', escape: lang !== 'go' });
+        }
+        if (['rust', 'rs'].includes(lang)) {
+            constructs.push({ begin: 'b?r(#*)"', end: '"$1', type: 'string' });
+        }
+
+        return constructs;
+    }
+
+    /**
+     * Build the sticky regex that finds the end of an opened construct
+     */
+    function createEndPattern(construct: MultiLineConstruct, match: RegExpExecArray): RegExp {
+        const end = construct.end.replace(/\$(\d)/g, (_, group) =>
+            (match[Number(group)] || '').replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+        );
+        const body = construct.escape ? '(?:\\\\[\\s\\S]|[^\\\\])*?' : '[\\s\\S]*?';
+        return new RegExp(`${body}(?:${end})`, 'y');
     }
 
     /**
      * Tokenize code using pattern-based approach
+     * Block comments, template literals, triple-quoted strings, heredocs and raw strings
+     * left open at the end of a line carry over to the following lines
      */
     function tokenizeCode(code: string, language: string): Array<{ text: string; type: string }> {
         const tokens: Array<{ text: string; type: string }> = [];
+        const constructs = getMultiLineConstructs(language);
+        const pending: OpenConstruct[] = [];
+        let open: OpenConstruct | null = null;
+
+        const lines = code.split('\n');
+
+        for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+            const line = lines[lineIndex];
+            let lineStart = 0;
+
+            // Continue a construct left open by a previous line
+            if (open) {
+                open.end.lastIndex = 0;
+                const endMatch = open.end.exec(line);
+                lineStart = endMatch ? endMatch[0].length : line.length;
+
+                if (lineStart > 0) {
+                    tokens.push({ text: line.substring(0, lineStart), type: open.type });
+                }
+                if (endMatch) {
+                    open = null;
+                }
+            }
+
+            if (lineStart < line.length) {
+                const rest = line.substring(lineStart);
+                let matches = findLineMatches(rest);
+
+                // A construct opening on this line without closing on it runs to the end of the line
+                const opened = findOpenedConstruct(rest, matches, constructs, pending);
+                if (opened) {
+                    open = opened.open;
+                    matches = [
+                        ...matches.filter(m => m.end <= opened.start),
+                        { start: opened.start, end: rest.length, type: opened.open.type }
+                    ];
+                }
+
+                let position = 0;
+                for (const m of matches) {
+                    if (m.start > position) {
+                        tokens.push({
+                            text: rest.substring(position, m.start),
+                            type: 'text'
+                        });
+                    }
+                    tokens.push({
+                        text: rest.substring(m.start, m.end),
+                        type: m.type
+                    });
+                    position = m.end;
+                }
+
+                if (position < rest.length) {
+                    tokens.push({
+                        text: rest.substring(position),
+                        type: 'text'
+                    });
+                }
+            }
+
+            // Heredoc bodies start once the line holding their markers is done
+            if (!open && pending.length > 0) {
+                open = pending.shift() || null;
+            }
+
+            // Add newline
+            if (lineIndex < lines.length - 1) {
+                tokens.push({ text: '\n', type: 'text' });
+            }
+        }
+
+        return tokens;
+    }
+
+    /**
+     * Find the first construct that opens on a line and stays open past its end
+     * Openers inside other comments or strings are ignored; heredoc markers are queued in `pending`
+     */
+    function findOpenedConstruct(
+        line: string,
+        matches: Array<{ start: number; end: number; type: string }>,
+        constructs: MultiLineConstruct[],
+        pending: OpenConstruct[]
+    ): { start: number; open: OpenConstruct } | null {
+        let opened: { start: number; open: OpenConstruct } | null = null;
+
+        for (const construct of constructs) {
+            const begin = new RegExp(construct.begin, 'g');
+            let beginMatch: RegExpExecArray | null;
+
+            while ((beginMatch = begin.exec(line)) !== null) {
+                const start = beginMatch.index;
+                if (opened && start >= opened.start) {
+                    break;
+                }
+                if (matches.some(m => m.start < start && start < m.end)) {
+                    continue;
+                }
+
+                const end = createEndPattern(construct, beginMatch);
+                if (construct.bodyStartsNextLine) {
+                    pending.push({ end, type: construct.type });
+                    continue;
+                }
+
+                end.lastIndex = start + beginMatch[0].length;
+                if (end.exec(line)) {
+                    begin.lastIndex = end.lastIndex;
+                    continue;
+                }
+
+                opened = { start, open: { end, type: construct.type } };
+                break;
+            }
+        }
+
+        return opened;
+    }
+
+    /**
+     * Find the non-overlapping comment, string, number and keyword matches of a single line
+     */
+    function findLineMatches(line: string): Array<{ start: number; end: number; type: string }> {
+        const matches: Array<{ start: number; end: number; type: string }> = [];
 
         // Language-agnostic patterns
         const keywords = [
@@ -587,141 +1102,614 @@
             'in', 'is', 'not', 'and', 'or', 'true', 'false', 'null', 'undefined'
         ];
 
-        const lines = code.split('\n');
+        // Find comments
+        let commentMatch: RegExpExecArray | null;
+        const commentPattern = /(\/\/.*$|\/\*[\s\S]*?\*\/|#.*$)/gm;
+        commentPattern.lastIndex = 0;
+        while ((commentMatch = commentPattern.exec(line)) !== null) {
+            matches.push({
+                start: commentMatch.index,
+                end: commentMatch.index + commentMatch[0].length,
+                type: 'comment'
+            });
+        }
 
-        for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-            const line = lines[lineIndex];
-            const matches: Array<{ start: number; end: number; type: string }> = [];
-
-            // Find comments
-            let commentMatch: RegExpExecArray | null;
-            const commentPattern = /(\/\/.*$|\/\*[\s\S]*?\*\/|#.*$)/gm;
-            commentPattern.lastIndex = 0;
-            while ((commentMatch = commentPattern.exec(line)) !== null) {
-                matches.push({
-                    start: commentMatch.index,
-                    end: commentMatch.index + commentMatch[0].length,
-                    type: 'comment'
-                });
-            }
-
-            // Find strings
-            let stringMatch: RegExpExecArray | null;
-            const stringPattern = /(["'`])(?:(?=(\\?))\2.)*?\1/g;
-            stringPattern.lastIndex = 0;
-            while ((stringMatch = stringPattern.exec(line)) !== null) {
-                matches.push({
-                    start: stringMatch.index,
-                    end: stringMatch.index + stringMatch[0].length,
-                    type: 'string'
-                });
-            }
-
-            // Find numbers
-            let numberMatch: RegExpExecArray | null;
-            const numberPattern = /\b\d+\.?\d*\b/g;
-            numberPattern.lastIndex = 0;
-            while ((numberMatch = numberPattern.exec(line)) !== null) {
-                matches.push({
-                    start: numberMatch.index,
-                    end: numberMatch.index + numberMatch[0].length,
-                    type: 'number'
-                });
-            }
-
-            // Find keywords
-            const keywordPattern = new RegExp(`\\b(${keywords.join('|')})\\b`, 'gi');
-            keywordPattern.lastIndex = 0;
-            while ((commentMatch = keywordPattern.exec(line)) !== null) {
-                matches.push({
-                    start: commentMatch.index,
-                    end: commentMatch.index + commentMatch[0].length,
-                    type: 'keyword'
-                });
-            }
-
-            // Sort and remove overlaps
-            matches.sort((a, b) => a.start - b.start);
-            const filtered: typeof matches = [];
-            let lastEnd = -1;
-            for (const m of matches) {
-                if (m.start >= lastEnd) {
-                    filtered.push(m);
-                    lastEnd = m.end;
+        // Find strings
+        let stringMatch: RegExpExecArray | null;
+        const stringPattern = /(["'`])(?:(?=(\\?))\2.)*?\1/g;
+        stringPattern.lastIndex = 0;
+        while ((stringMatch = stringPattern.exec(line)) !== null) {
+            matches.push({
+                start: stringMatch.index,
+                end: stringMatch.index + stringMatch[0].length,
+                type: 'string'
+            });
+        }
+
+        // Find numbers
+        let numberMatch: RegExpExecArray | null;
+        const numberPattern = /\b\d+\.?\d*\b/g;
+        numberPattern.lastIndex = 0;
+        while ((numberMatch = numberPattern.exec(line)) !== null) {
+            matches.push({
+                start: numberMatch.index,
+                end: numberMatch.index + numberMatch[0].length,
+                type: 'number'
+            });
+        }
+
+        // Find keywords
+        const keywordPattern = new RegExp(`\\b(${keywords.join('|')})\\b`, 'gi');
+        keywordPattern.lastIndex = 0;
+        while ((commentMatch = keywordPattern.exec(line)) !== null) {
+            matches.push({
+                start: commentMatch.index,
+                end: commentMatch.index + commentMatch[0].length,
+                type: 'keyword'
+            });
+        }
+
+        // Sort and remove overlaps
+        matches.sort((a, b) => a.start - b.start);
+        const filtered: typeof matches = [];
+        let lastEnd = -1;
+        for (const m of matches) {
+            if (m.start >= lastEnd) {
+                filtered.push(m);
+                lastEnd = m.end;
+            }
+        }
+
+        return filtered;
+    }
+
+    /**
+     * Parse the language of a diff fence
+     * Returns null for languages that are not diffs, '' for plain diffs and the code language of ```diff-<lang> fences
+     */
+    function parseDiffLanguage(language: string): string | null {
+        const languageId = language.toLowerCase();
+        if (['diff', 'patch', 'udiff'].includes(languageId)) {
+            return '';
+        }
+
+        const match = /^diff-(.+)$/.exec(languageId);
+        return match ? match[1] : null;
+    }
+
+    /**
+     * Classify the lines of a diff block
+     * Outside hunks, file header lines win over `+`/`-` markers; inside a hunk only a `diff` line ends it
+     */
+    function classifyDiffLines(lines: string[]): DiffLineKind[] {
+        const headerPattern = /^(diff |index |\+\+\+ |--- |new file mode|deleted file mode|old mode|new mode|similarity index|rename from|rename to|Binary files)/;
+        const kinds: DiffLineKind[] = [];
+        let inHunk = false;
+
+        for (const line of lines) {
+            if (line.startsWith('@@')) {
+                kinds.push('hunk');
+                inHunk = true;
+            } else if (line.startsWith('diff ') || (!inHunk && headerPattern.test(line))) {
+                kinds.push('header');
+                inHunk = false;
+            } else if (line.startsWith('+')) {
+                kinds.push('added');
+            } else if (line.startsWith('-')) {
+                kinds.push('removed');
+            } else {
+                kinds.push('context');
+            }
+        }
+
+        return kinds;
+    }
+
+    /**
+     * Check if a character is the marker of a diff line
+     */
+    function isDiffMarker(kind: DiffLineKind, char: string): boolean {
+        return (kind === 'added' && char === '+')
+            || (kind === 'removed' && char === '-')
+            || (kind === 'context' && char === ' ');
+    }
+
+    /**
+     * Tokenize a diff block
+     * Markers take the token type of their line kind; with a code language the code after each
+     * marker is tokenized in that language, otherwise whole lines take the type of their kind
+     */
+    function tokenizeDiff(code: string, codeLanguage: string): {
+        tokens: Array<{ text: string; type: string }>;
+        diffLines: DiffLineKind[];
+    } {
+        const lines = code.split('\n');
+        const diffLines = classifyDiffLines(lines);
+        const hasCode = (index: number) => diffLines[index] !== 'hunk' && diffLines[index] !== 'header';
+        const markerLength = (index: number) => isDiffMarker(diffLines[index], lines[index].charAt(0)) ? 1 : 0;
+
+        // The code of all lines is tokenized at once so constructs spanning lines stay intact
+        const codeLineTokens: Array<Array<{ text: string; type: string }>> = [[]];
+        if (codeLanguage) {
+            const codeLines = lines
+                .map((line, index) => hasCode(index) ? line.substring(markerLength(index)) : null)
+                .filter((line): line is string => line !== null);
+
+            for (const token of tokenizeCode(codeLines.join('\n'), codeLanguage)) {
+                if (token.text === '\n') {
+                    codeLineTokens.push([]);
+                } else {
+                    codeLineTokens[codeLineTokens.length - 1].push(token);
                 }
             }
+        }
 
-            // Create tokens
-            let position = 0;
-            for (const m of filtered) {
-                if (m.start > position) {
-                    tokens.push({
-                        text: line.substring(position, m.start),
-                        type: 'text'
-                    });
+        const tokens: Array<{ text: string; type: string }> = [];
+        let codeLine = 0;
+
+        lines.forEach((line, index) => {
+            const type = DIFF_TOKEN_TYPES[diffLines[index]];
+            if (index > 0) {
+                tokens.push({ text: '\n', type: 'text' });
+            }
+
+            if (!codeLanguage || !hasCode(index)) {
+                if (line) {
+                    tokens.push({ text: line, type });
                 }
-                tokens.push({
-                    text: line.substring(m.start, m.end),
-                    type: m.type
-                });
-                position = m.end;
+                return;
             }
 
-            if (position < line.length) {
-                tokens.push({
-                    text: line.substring(position),
-                    type: 'text'
-                });
+            if (markerLength(index) > 0) {
+                tokens.push({ text: line.substring(0, markerLength(index)), type });
             }
+            tokens.push(...(codeLineTokens[codeLine++] || []));
+        });
 
-            // Add newline
-            if (lineIndex < lines.length - 1) {
+        return { tokens, diffLines };
+    }
+
+    /**
+     * Check if a language is a console transcript
+     */
+    function isConsoleLanguage(language: string): boolean {
+        const languageId = language.toLowerCase();
+        return CONSOLE_LANGUAGES.includes(languageId) || POWERSHELL_CONSOLE_LANGUAGES.includes(languageId);
+    }
+
+    /**
+     * Split a console transcript into prompts, commands and output
+     * A command ending in `\` (or a backtick in PowerShell) continues on the next line
+     */
+    function parseConsoleLines(code: string): ConsoleLine[] {
+        let continues = false;
+
+        return code.split('\n').map(text => {
+            const prompt = continues ? null : CONSOLE_PROMPT_PATTERN.exec(text);
+            if (!continues && !prompt) {
+                return { prompt: '', command: null, text };
+            }
+
+            const promptText = prompt ? prompt[0] : '';
+            continues = /[\\`]$/.test(text.trimEnd());
+            return { prompt: promptText, command: text.substring(promptText.length), text };
+        });
+    }
+
+    /**
+     * Tokenize a console transcript
+     * Prompts and output lines take their own token types; the commands are tokenized together as shell code
+     */
+    function tokenizeConsole(lines: ConsoleLine[], language: string): Array<{ text: string; type: string; color?: string; fontStyle?: string }> {
+        const powershell = POWERSHELL_CONSOLE_LANGUAGES.includes(language.toLowerCase())
+            || lines.some(line => /^[ \t]*(?:\([^)\n]*\)[ \t]*)?PS/.test(line.prompt));
+
+        // The commands are tokenized at once so quoted strings spanning continuation lines stay intact
+        const commandLineTokens: Array<Array<{ text: string; type: string }>> = [[]];
+        for (const token of tokenizeCode(getConsoleCommands(lines), powershell ? 'powershell' : 'bash')) {
+            if (token.text === '\n') {
+                commandLineTokens.push([]);
+            } else {
+                commandLineTokens[commandLineTokens.length - 1].push(token);
+            }
+        }
+
+        const tokens: Array<{ text: string; type: string; color?: string; fontStyle?: string }> = [];
+        let commandLine = 0;
+
+        lines.forEach((line, index) => {
+            if (index > 0) {
                 tokens.push({ text: '\n', type: 'text' });
             }
+
+            if (line.command === null) {
+                if (line.text.includes('\x1b')) {
+                    tokens.push(...tokenizeAnsi(line.text));
+                } else if (line.text) {
+                    tokens.push({ text: line.text, type: 'output' });
+                }
+                return;
+            }
+
+            if (line.prompt) {
+                tokens.push({ text: line.prompt, type: 'prompt' });
+            }
+            tokens.push(...(commandLineTokens[commandLine++] || []));
+        });
+
+        return tokens;
+    }
+
+    /**
+     * Join the commands of a console transcript, without prompts and output
+     */
+    function getConsoleCommands(lines: ConsoleLine[]): string {
+        return lines
+            .filter(line => line.command !== null)
+            .map(line => line.command)
+            .join('\n');
+    }
+
+    /**
+     * Check if a block is terminal output with ANSI escape sequences
+     * ```ansi fences always are; plain text and log blocks are when they contain an escape sequence
+     */
+    function isAnsiBlock(language: string, code: string): boolean {
+        const languageId = language.toLowerCase();
+        return languageId === 'ansi'
+            || (['plaintext', 'text', 'txt', 'log', 'output'].includes(languageId) && code.includes('\x1b'));
+    }
+
+    /**
+     * Tokenize text with ANSI escape sequences
+     * Escape sequences become `escape` tokens, which are hidden; text takes the color and emphasis
+     * set by the SGR sequences before it
+     */
+    function tokenizeAnsi(code: string): Array<{ text: string; type: string; color?: string; fontStyle?: string }> {
+        const tokens: Array<{ text: string; type: string; color?: string; fontStyle?: string }> = [];
+        const style: { color?: string; bold?: boolean; italic?: boolean; underline?: boolean } = {};
+        let position = 0;
+
+        const pushText = (text: string) => {
+            const fontStyle = [style.bold && 'bold', style.italic && 'italic', style.underline && 'underline']
+                .filter(Boolean)
+                .join(' ');
+            tokens.push({ text, type: 'text', color: style.color, fontStyle: fontStyle || undefined });
+        };
+
+        ANSI_ESCAPE_PATTERN.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = ANSI_ESCAPE_PATTERN.exec(code)) !== null) {
+            if (match.index > position) {
+                pushText(code.substring(position, match.index));
+            }
+            tokens.push({ text: match[0], type: 'escape' });
+            if (match[2] === 'm') {
+                applySgrParameters(style, match[1]);
+            }
+            position = match.index + match[0].length;
+        }
+
+        if (position < code.length) {
+            pushText(code.substring(position));
         }
 
         return tokens;
     }
 
+    /**
+     * Apply the parameters of one SGR sequence to the current style
+     * Backgrounds are skipped with their arguments; colon forms like 38:2::r:g:b are read too
+     */
+    function applySgrParameters(
+        style: { color?: string; bold?: boolean; italic?: boolean; underline?: boolean },
+        parameterText: string
+    ): void {
+        const parameters = parameterText === '' ? ['0'] : parameterText.split(';');
+
+        for (let i = 0; i < parameters.length; i++) {
+            const parts = parameters[i].split(':');
+            const code = parseInt(parts[0] || '0', 10);
+
+            if (code === 38 || code === 48) {
+                let args = parts.length > 1 ? parts.slice(1) : parameters.slice(i + 1);
+                if (parts.length > 1 && args[0] === '2' && args.length === 5) {
+                    args = ['2', ...args.slice(2)];
+                } else if (parts.length === 1) {
+                    i += args[0] === '5' ? 2 : args[0] === '2' ? 4 : 0;
+                }
+                const color = getExtendedAnsiColor(args);
+                if (code === 38 && color) {
+                    style.color = color;
+                }
+            } else if (code === 0) {
+                style.color = undefined;
+                style.bold = style.italic = style.underline = false;
+            } else if (code === 1 || code === 22) {
+                style.bold = code === 1;
+            } else if (code === 3 || code === 23) {
+                style.italic = code === 3;
+            } else if (code === 4 || code === 24) {
+                style.underline = code === 4;
+            } else if (code >= 30 && code <= 37) {
+                style.color = getAnsiPaletteColor(code - 30);
+            } else if (code >= 90 && code <= 97) {
+                style.color = getAnsiPaletteColor(code - 90 + 8);
+            } else if (code === 39) {
+                style.color = undefined;
+            }
+        }
+    }
+
+    /**
+     * Get the color of SGR 38/48 arguments: `5;n` for the 256-color palette or `2;r;g;b` for truecolor
+     */
+    function getExtendedAnsiColor(args: string[]): string | undefined {
+        if (args[0] === '5' && args.length >= 2) {
+            const index = parseInt(args[1], 10);
+            return index >= 0 && index <= 255 ? getAnsiPaletteColor(index) : undefined;
+        }
+        if (args[0] === '2' && args.length >= 4) {
+            const rgb = args.slice(1, 4).map(value => parseInt(value, 10));
+            return rgb.every(value => value >= 0 && value <= 255) ? toHexColor(rgb[0], rgb[1], rgb[2]) : undefined;
+        }
+        return undefined;
+    }
+
+    /**
+     * Get a color of the 256-color palette; the 16 base colors come from the theme
+     */
+    function getAnsiPaletteColor(index: number): string | undefined {
+        if (index < 16) {
+            return currentTheme?.ansiColors[index];
+        }
+        if (index < 232) {
+            const levels = [0, 95, 135, 175, 215, 255];
+            const cube = index - 16;
+            return toHexColor(levels[Math.floor(cube / 36)], levels[Math.floor(cube / 6) % 6], levels[cube % 6]);
+        }
+
+        const level = 8 + (index - 232) * 10;
+        return toHexColor(level, level, level);
+    }
+
+    /**
+     * Format an RGB color as `#rrggbb`
+     */
+    function toHexColor(r: number, g: number, b: number): string {
+        return '#' + [r, g, b].map(value => value.toString(16).padStart(2, '0')).join('');
+    }
+
     /**
      * Apply syntax highlighting to code element
+     * With diffLines, the block is rendered line by line with diff backgrounds and gutter markers;
+     * blocks naming a theme are colored with it instead of the preview theme
      */
-    function applyHighlighting(codeElement: HTMLElement, tokens: Array<{ text: string; type: string }>): void {
-        if (!currentTheme) return;
+    function applyHighlighting(
+        codeElement: HTMLElement,
+        tokens: Array<{ text: string; type: string; color?: string; fontStyle?: string }>,
+        diffLines?: DiffLineKind[],
+        theme: ThemeData | null = currentTheme
+    ): void {
+        if (!theme) return;
+
+        renderSpans(
+            codeElement,
+            tokens.map(token => ({
+                text: token.text,
+                color: token.color ?? getColorForTokenType(token.type, theme),
+                fontStyle: token.fontStyle
+            })),
+            diffLines
+        );
+        codeElement.setAttribute('data-highlighted', 'true');
+
+        // Apply background to pre element
+        const preElement = codeElement.parentElement as HTMLPreElement;
+        if (preElement && preElement.tagName === 'PRE') {
+            preElement.style.backgroundColor = theme.background;
+            preElement.style.color = theme.foreground;
+        }
+    }
 
-        // Clear existing content
+    /**
+     * Replace the content of a code element with colored spans
+     * Diff blocks get an element per line so each line can carry its background and gutter marker;
+     * the line breaks stay text so the element's text matches the block
+     */
+    function renderSpans(
+        codeElement: HTMLElement,
+        spans: Array<{ text: string; color: string | null | undefined; fontStyle?: string }>,
+        diffLines?: DiffLineKind[]
+    ): void {
         codeElement.innerHTML = '';
+        codeElement.classList.toggle('mcbh-diff', !!diffLines);
 
-        // Create spans for each token
         const fragment = document.createDocumentFragment();
-        for (const token of tokens) {
-            const span = document.createElement('span');
-            span.textContent = token.text;
-            
-            const color = getColorForTokenType(token.type);
-            if (color) {
-                span.style.color = color;
+        if (!diffLines) {
+            for (const span of spans) {
+                fragment.appendChild(createColoredSpan(span.text, span.color, span.fontStyle));
             }
+            codeElement.appendChild(fragment);
+            return;
+        }
 
-            fragment.appendChild(span);
+        let lineIndex = 0;
+        let line = createDiffLine(diffLines[0]);
+        let atLineStart = true;
+        fragment.appendChild(line);
+
+        for (const span of spans) {
+            span.text.split('\n').forEach((part, partIndex) => {
+                if (partIndex > 0) {
+                    fragment.appendChild(document.createTextNode('\n'));
+                    lineIndex++;
+                    line = createDiffLine(diffLines[lineIndex]);
+                    fragment.appendChild(line);
+                    atLineStart = true;
+                }
+                if (!part) {
+                    return;
+                }
+
+                let text = part;
+                if (atLineStart && isDiffMarker(diffLines[lineIndex], text.charAt(0))) {
+                    const gutter = createColoredSpan(text.charAt(0), null);
+                    gutter.className = 'mcbh-diff-gutter';
+                    line.appendChild(gutter);
+                    text = text.substring(1);
+                }
+                atLineStart = false;
+
+                if (text) {
+                    line.appendChild(createColoredSpan(text, span.color, span.fontStyle));
+                }
+            });
         }
 
         codeElement.appendChild(fragment);
-        codeElement.setAttribute('data-highlighted', 'true');
+    }
 
-        // Apply background to pre element
-        const preElement = codeElement.parentElement as HTMLPreElement;
-        if (preElement && preElement.tagName === 'PRE') {
-            preElement.style.backgroundColor = currentTheme.background;
-            preElement.style.color = currentTheme.foreground;
+    /**
+     * Create the element of one diff line
+     */
+    function createDiffLine(kind: DiffLineKind | undefined): HTMLElement {
+        const line = document.createElement('span');
+        line.className = `mcbh-diff-line mcbh-diff-${kind || 'context'}`;
+        return line;
+    }
+
+    /**
+     * Create a span of text, colored and emphasized when a color or TextMate font style is given
+     * ANSI escape sequences stay in the text, so offsets into the block remain valid, but are hidden
+     */
+    function createColoredSpan(text: string, color: string | null | undefined, fontStyle?: string): HTMLElement {
+        const span = document.createElement('span');
+        span.textContent = text;
+        if (text.charAt(0) === '\x1b' && !text.replace(ANSI_ESCAPE_PATTERN, '')) {
+            span.className = 'mcbh-ansi-escape';
+            return span;
         }
+        if (color) {
+            span.style.color = color;
+        }
+        if (fontStyle) {
+            const styles = fontStyle.split(' ');
+            if (styles.includes('bold')) {
+                span.style.fontWeight = 'bold';
+            }
+            if (styles.includes('italic')) {
+                span.style.fontStyle = 'italic';
+            }
+            const decorations = ['underline', 'strikethrough'].filter(style => styles.includes(style));
+            if (decorations.length > 0) {
+                span.style.textDecoration = decorations
+                    .map(style => style === 'strikethrough' ? 'line-through' : style)
+                    .join(' ');
+            }
+        }
+        return span;
+    }
+
+    /**
+     * Listen for messages posted to the preview
+     */
+    function listenForExtensionMessages(): void {
+        window.addEventListener('message', (event: MessageEvent) => {
+            const message = event.data;
+            if (message && message.type === 'config') {
+                applyConfigMessage(message);
+            }
+        });
+    }
+
+    /**
+     * Take over settings sent by the extension host
+     * Only known settings of the expected type are applied
+     */
+    function applyConfigMessage(message: { [key: string]: unknown }): void {
+        const settings = config as { [key: string]: unknown };
+        const languageSettings = JSON.stringify(LANGUAGE_SETTINGS.map(key => settings[key]));
+
+        for (const key of Object.keys(settings)) {
+            if (typeof message[key] === typeof settings[key]) {
+                settings[key] = message[key];
+            }
+        }
+        updateDynamicStyles();
+
+        // Highlight every block again in the language the new settings give it
+        if (JSON.stringify(LANGUAGE_SETTINGS.map(key => settings[key])) !== languageSettings) {
+            processedBlocks.clear();
+            scanAndEnhanceCodeBlocks();
+        }
+    }
+
+    /**
+     * Take over the theme the extension host rendered into the blocks, so every block is highlighted again
+     * From then on the editor's CSS variables no longer replace it
+     */
+    function applyHostTheme(): void {
+        const text = document.querySelector('[data-mcbh-theme]')?.getAttribute('data-mcbh-theme');
+        if (!text || text === hostThemeText || !currentTheme) {
+            return;
+        }
+
+        const theme = parseHostTheme(text, currentTheme);
+        if (!theme) {
+            return;
+        }
+        hostThemeText = text;
+        currentTheme = theme;
+        themeFromExtension = true;
+
+        updateDynamicStyles();
+        processedBlocks.clear();
+    }
+
+    /**
+     * Read the theme a block names with its `theme=` attribute, as the extension host rendered it
+     * Returns null for blocks shown in the preview theme
+     */
+    function readBlockTheme(codeElement: Element): ThemeData | null {
+        const text = readBlockData(codeElement, 'data-mcbh-block-theme');
+        return text && currentTheme ? parseHostTheme(text, currentTheme) : null;
+    }
+
+    /**
+     * Parse a theme rendered by the extension host; colors it leaves out are taken from `previous`
+     */
+    function parseHostTheme(text: string, previous: ThemeData): ThemeData | null {
+        let theme: HostTheme;
+        try {
+            theme = JSON.parse(text) as HostTheme;
+        } catch (error) {
+            console.error('MCBH: Failed to read a theme rendered by the extension:', error);
+            return null;
+        }
+
+        return {
+            kind: theme.kind,
+            colors: { ...previous.colors, ...theme.colors },
+            background: theme.background,
+            foreground: theme.foreground,
+            borderColor: theme.borderColor,
+            borderColorSubtle: theme.borderColorSubtle,
+            buttonBackground: theme.buttonBackground,
+            buttonForeground: theme.buttonForeground,
+            buttonHoverBackground: theme.buttonHoverBackground,
+            accentColor: theme.accentColor,
+            diffColors: theme.diffColors || previous.diffColors,
+            ansiColors: ANSI_COLOR_NAMES.map((name, index) =>
+                theme.ansiColors?.[name.charAt(0).toLowerCase() + name.substring(1)] || previous.ansiColors[index])
+        };
     }
 
     /**
      * Get color for token type
      */
-    function getColorForTokenType(tokenType: string): string | null {
-        if (!currentTheme) return null;
+    function getColorForTokenType(tokenType: string, theme: ThemeData | null = currentTheme): string | null {
+        if (!theme) return null;
 
         const typeMap: { [key: string]: string } = {
             'comment': 'comment',
@@ -735,61 +1723,112 @@
             'operator': 'operator',
             'type': 'type',
             'punctuation': 'punctuation',
-            'regexp': 'regexp'
+            'regexp': 'regexp',
+            'inserted': 'markup.inserted',
+            'deleted': 'markup.deleted',
+            'range': 'markup.changed',
+            'header': 'markup.heading',
+            'prompt': 'punctuation',
+            'output': 'output'
         };
 
         const mappedType = typeMap[tokenType];
-        return mappedType ? currentTheme.colors[mappedType] : null;
+        return mappedType ? theme.colors[mappedType] : null;
     }
 
     /**
      * Wrap code block in container and add copy button
+     * Blocks whose language was detected get a badge naming it; console transcripts get a
+     * second button copying only their commands. The block's `border` and `copy` attributes
+     * win over the settings
      */
-    function wrapCodeBlock(codeElement: HTMLElement, code: string): void {
+    function wrapCodeBlock(
+        codeElement: HTMLElement,
+        code: string,
+        attributes: FenceAttributes,
+        detected?: LanguageGuess | null,
+        commands?: string
+    ): void {
         const preElement = codeElement.parentElement;
         if (!preElement || preElement.tagName !== 'PRE') return;
 
         // Check if already wrapped
-        if (preElement.parentElement?.classList.contains('mcbh-code-container')) {
+        const wrapper = preElement.parentElement;
+        if (wrapper?.classList.contains('mcbh-code-container')) {
+            setLanguageBadge(wrapper, detected);
             return;
         }
 
         // Create container
         const container = document.createElement('div');
         container.className = 'mcbh-code-container';
+        if (attributes.border !== undefined) {
+            container.classList.add(attributes.border ? 'mcbh-border' : 'mcbh-no-border');
+        }
 
-        // Create copy button
-        if (config.showCopyButton) {
-            const copyButton = document.createElement('button');
-            copyButton.className = 'mcbh-copy-button';
-            copyButton.textContent = 'Copy';
-            copyButton.setAttribute('aria-label', 'Copy code to clipboard');
-            
-            copyButton.addEventListener('click', () => {
-                navigator.clipboard.writeText(code).then(() => {
-                    copyButton.textContent = 'Copied!';
-                    copyButton.classList.add('copied');
-                    setTimeout(() => {
-                        copyButton.textContent = 'Copy';
-                        copyButton.classList.remove('copied');
-                    }, 2000);
-                }).catch((error) => {
-                    console.error('MCBH: Failed to copy code:', error);
-                    copyButton.textContent = 'Failed';
-                    setTimeout(() => {
-                        copyButton.textContent = 'Copy';
-                    }, 2000);
-                });
-            });
-
-            container.appendChild(copyButton);
+        // Create copy buttons
+        if (attributes.copy ?? config.showCopyButton) {
+            const toolbar = document.createElement('div');
+            toolbar.className = 'mcbh-toolbar';
+            if (commands !== undefined) {
+                toolbar.appendChild(createCopyButton('Copy commands', 'Copy commands without prompts or output', commands));
+            }
+            toolbar.appendChild(createCopyButton('Copy', 'Copy code to clipboard', code));
+            container.appendChild(toolbar);
         }
 
+        setLanguageBadge(container, detected);
+
         // Wrap pre element
         preElement.parentElement?.insertBefore(container, preElement);
         container.appendChild(preElement);
     }
 
+    /**
+     * Create a button copying text to the clipboard
+     */
+    function createCopyButton(label: string, ariaLabel: string, text: string): HTMLElement {
+        const copyButton = document.createElement('button');
+        copyButton.className = 'mcbh-copy-button';
+        copyButton.textContent = label;
+        copyButton.setAttribute('aria-label', ariaLabel);
+
+        copyButton.addEventListener('click', () => {
+            navigator.clipboard.writeText(text).then(() => {
+                copyButton.textContent = 'Copied!';
+                copyButton.classList.add('copied');
+                setTimeout(() => {
+                    copyButton.textContent = label;
+                    copyButton.classList.remove('copied');
+                }, 2000);
+            }).catch((error) => {
+                console.error('MCBH: Failed to copy code:', error);
+                copyButton.textContent = 'Failed';
+                setTimeout(() => {
+                    copyButton.textContent = label;
+                }, 2000);
+            });
+        });
+
+        return copyButton;
+    }
+
+    /**
+     * Show the detected language of a block on its container, or remove a badge shown before
+     */
+    function setLanguageBadge(container: HTMLElement, detected?: LanguageGuess | null): void {
+        container.querySelector(':scope > .mcbh-language-badge')?.remove();
+        if (!detected) {
+            return;
+        }
+
+        const badge = document.createElement('span');
+        badge.className = 'mcbh-language-badge';
+        badge.textContent = `${detected.language} (auto)`;
+        badge.title = `Language detected automatically (${Math.round(detected.confidence * 100)}% confidence)`;
+        container.appendChild(badge);
+    }
+
     /**
      * Observe DOM changes
      */
@@ -814,6 +1853,10 @@
     function observeThemeChanges(): void {
         try {
             const observer = new MutationObserver(() => {
+                if (themeFromExtension) {
+                    return;
+                }
+
                 const newTheme = detectThemeFromDOM();
                 if (newTheme.kind !== currentTheme?.kind) {
                     console.log('MCBH: Theme changed:', currentTheme?.kind, '->', newTheme.kind);
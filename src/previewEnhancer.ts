@@ -2,7 +2,19 @@ import * as vscode from 'vscode';
 import { ThemeManager, ThemeData } from './services/themeManager';
 import { TokenizationService, TokenizedCode } from './services/tokenizationService';
 import { CacheManager } from './services/cacheManager';
+import { EncodedTokens, PreviewTokens, createPreviewTokens, encodeTokens } from './services/tokenEncoding';
+import { DiffLineKind } from './services/diffMode';
 import { ConfigurationManager } from './services/configurationManager';
+import { applyFenceAttributes, parseFenceAttributes } from './services/fenceAttributes';
+import {
+    BLOCK_THEME_ATTRIBUTE,
+    DETECTED_LANGUAGE_ATTRIBUTE,
+    PREVIEW_THEME_ATTRIBUTE,
+    RenderedBlock,
+    TOKENS_ATTRIBUTE,
+    createPreviewTheme
+} from './services/renderedBlocks';
+import { detectLanguage } from './services/languageDetection';
 import { PerformanceMonitor } from './services/performanceMonitor';
 import { ErrorHandler, ErrorSeverity } from './utils/errorHandler';
 
@@ -14,18 +26,17 @@ interface TokenizeRequestMessage {
     id: string;
     code: string;
     language: string;
+    // Attributes after the language in the block's fence info string, e.g. `theme=Dracula border=false`
+    attributes?: string;
 }
 
-interface TokenizedResponseMessage {
-    type: 'tokenized';
-    id: string;
-    tokens: TokenizedCode['tokens'];
-    themeData: ThemeData;
-}
-
-interface ThemeChangedMessage {
-    type: 'themeChanged';
-    themeData: ThemeData;
+/**
+ * Tokens of a block, rendered into its code element for the preview
+ * `data` holds offsets into the block's code
+ */
+interface BlockTokens extends PreviewTokens {
+    // Kind of each line of diff blocks
+    diffLines?: DiffLineKind[];
 }
 
 /**
@@ -37,6 +48,14 @@ interface PrioritizedRequest {
     timestamp: number;
 }
 
+/**
+ * Request being processed, with the source used to cancel it
+ */
+interface ActiveRequest {
+    request: TokenizeRequestMessage;
+    cancellation: vscode.CancellationTokenSource;
+}
+
 /**
  * PreviewEnhancer - Coordinates theme management, tokenization, and preview communication
  * Enhanced with request batching, prioritization, and performance monitoring
@@ -53,11 +72,27 @@ export class PreviewEnhancer {
 
     // Request batching and prioritization
     private requestQueue: PrioritizedRequest[] = [];
-    private activeRequests: Set<string> = new Set();
+    private activeRequests: Map<string, ActiveRequest> = new Map();
     private batchTimeout: NodeJS.Timeout | null = null;
     private themeChangeDebounceTimeout: NodeJS.Timeout | null = null;
     private maxConcurrentRequests: number = 5;
 
+    // Latest request of each block shown in an open preview, re-tokenized when grammars change
+    private previewBlocks: Map<string, TokenizeRequestMessage> = new Map();
+    private readonly MAX_PREVIEW_BLOCKS = 500;
+
+    // Tokens waiting to be rendered into the preview, by cache key; keys are requested once until
+    // the theme, grammars or language settings change, so a refresh never requests them again
+    private renderedTokens: Map<string, BlockTokens> = new Map();
+    private requestedKeys: Set<string> = new Set();
+    private refreshTimeout: NodeJS.Timeout | null = null;
+    // Preview theme as rendered into blocks, built once per theme
+    private previewThemeText: string | null = null;
+    // Themes named by blocks as rendered into them, by lowercased name; null while a theme is read
+    // and for themes not found
+    private blockThemeTexts: Map<string, string | null> = new Map();
+    private readonly REFRESH_DELAY = 100; // Refresh the preview once results stop coming in for 100ms
+
     constructor(
         themeManager: ThemeManager,
         tokenizationService: TokenizationService,
@@ -85,6 +120,15 @@ export class PreviewEnhancer {
             // Update max concurrent requests from config
             this.maxConcurrentRequests = this.configManager.getConcurrentRequests();
 
+            // Run the pure tokenization tiers on one worker per concurrent request
+            this.tokenizationService.setWorkerCount(this.maxConcurrentRequests);
+
+            // Apply the user's fence aliases and default language
+            this.tokenizationService.setLanguageSettings(
+                this.configManager.getLanguageAliases(),
+                this.configManager.getDefaultLanguage()
+            );
+
             // Listen for theme changes with debouncing
             this.disposables.push(
                 this.themeManager.onDidChangeTheme(this.handleThemeChange.bind(this))
@@ -95,6 +139,16 @@ export class PreviewEnhancer {
                 this.configManager.onDidChangeConfiguration(this.handleConfigurationChange.bind(this))
             );
 
+            // Re-tokenize with newly installed grammars
+            this.disposables.push(
+                this.tokenizationService.onDidChangeGrammars(this.handleGrammarsChange.bind(this))
+            );
+
+            // Stop in-flight work once the last Markdown preview is closed
+            this.disposables.push(
+                vscode.window.tabGroups.onDidChangeTabs(this.handleTabsChange.bind(this))
+            );
+
             // Set up message handler for preview webviews
             this.setupMessageHandler();
 
@@ -104,6 +158,7 @@ export class PreviewEnhancer {
             this.outputChannel.appendLine('=== PreviewEnhancer initialized ===');
             this.outputChannel.appendLine('  - Batching enabled');
             this.outputChannel.appendLine('  - Max concurrent requests: ' + this.maxConcurrentRequests);
+            this.outputChannel.appendLine('  - Tokenization workers: ' + this.maxConcurrentRequests);
             this.outputChannel.appendLine('  - Message handler registered');
         } catch (error) {
             this.errorHandler.handleError(error as Error, 'PreviewEnhancer initialization', ErrorSeverity.Critical);
@@ -158,6 +213,71 @@ export class PreviewEnhancer {
         this.outputChannel.appendLine('Command-based communication set up');
     }
 
+    /**
+     * Get the data attributes of a block rendered for the preview
+     * Every block carries the preview theme, and blocks naming their own theme carry that theme
+     * once it was read. Unlabeled blocks take the default language, or carry
+     * the language guessed for them when the guess is confident enough. Blocks tokenized before
+     * carry their tokens; other blocks are queued for tokenization and the preview is rendered
+     * again once their tokens are ready
+     */
+    public getBlockData(block: RenderedBlock): { [name: string]: string } {
+        const data: { [name: string]: string } = {};
+
+        try {
+            if (!this.configManager.isHighlightingEnabled()) {
+                return data;
+            }
+
+            if (this.previewThemeText === null) {
+                this.previewThemeText = JSON.stringify(createPreviewTheme(this.themeManager.getThemeData()));
+            }
+            data[PREVIEW_THEME_ATTRIBUTE] = this.previewThemeText;
+
+            let language = block.language || this.configManager.getDefaultLanguage();
+            if (!language && this.configManager.isLanguageDetectionEnabled()) {
+                const detected = detectLanguage(block.code, this.configManager.getLanguageDetectionThreshold());
+                if (detected) {
+                    data[DETECTED_LANGUAGE_ATTRIBUTE] = JSON.stringify(detected);
+                    language = detected.language;
+                }
+            }
+            if (!language) {
+                return data;
+            }
+
+            const request: TokenizeRequestMessage = {
+                type: 'tokenize',
+                id: block.id,
+                code: block.code,
+                language,
+                attributes: block.attributes
+            };
+            const blockTheme = this.getBlockTheme(request);
+            const blockThemeText = blockTheme ? this.getBlockThemeText(blockTheme) : null;
+            if (blockThemeText) {
+                data[BLOCK_THEME_ATTRIBUTE] = blockThemeText;
+            }
+
+            const key = this.getTokensKey(request, blockTheme);
+            const tokens = this.renderedTokens.get(key) ?? this.getCachedBlockTokens(key);
+            if (tokens) {
+                data[TOKENS_ATTRIBUTE] = JSON.stringify(tokens);
+                return data;
+            }
+
+            if (!this.requestedKeys.has(key)) {
+                this.requestedKeys.add(key);
+                // Text rendered without a document is told apart by its content
+                request.id = request.id || key;
+                this.handleTokenizeRequest(request);
+            }
+        } catch (error) {
+            this.errorHandler.handleError(error as Error, 'getBlockData', ErrorSeverity.Recoverable);
+        }
+        return data;
+    }
+
     /**
      * Handle messages from preview webview
      */
@@ -194,11 +314,19 @@ export class PreviewEnhancer {
             }
             
             this.outputChannel.appendLine(`MCBH: Highlighting enabled, proceeding with request`);
+            this.rememberPreviewBlock(request);
 
             // Check if already processing this request
-            if (this.activeRequests.has(request.id)) {
-                this.errorHandler.logInfo(`Request ${request.id} already being processed`);
-                return;
+            const active = this.activeRequests.get(request.id);
+            if (active) {
+                if (active.request.code === request.code && active.request.language === request.language
+                    && active.request.attributes === request.attributes) {
+                    this.errorHandler.logInfo(`Request ${request.id} already being processed`);
+                    return;
+                }
+
+                // The block changed while it was being tokenized
+                this.cancelRequest(request.id);
             }
 
             // Check code block size
@@ -227,6 +355,20 @@ export class PreviewEnhancer {
         }
     }
 
+    /**
+     * Remember the latest request of a block, dropping the least recently requested blocks
+     */
+    private rememberPreviewBlock(request: TokenizeRequestMessage): void {
+        this.previewBlocks.delete(request.id);
+        this.previewBlocks.set(request.id, request);
+        if (this.previewBlocks.size > this.MAX_PREVIEW_BLOCKS) {
+            const oldest = this.previewBlocks.keys().next().value;
+            if (oldest !== undefined) {
+                this.previewBlocks.delete(oldest);
+            }
+        }
+    }
+
     /**
      * Calculate request priority
      * Higher priority = process first
@@ -311,19 +453,21 @@ export class PreviewEnhancer {
                 const { request } = prioritizedRequest;
 
                 // Mark as active
-                this.activeRequests.add(request.id);
+                const cancellation = new vscode.CancellationTokenSource();
+                const active: ActiveRequest = { request, cancellation };
+                this.activeRequests.set(request.id, active);
 
                 // Process request (don't await - process concurrently)
-                this.processRequest(request)
+                this.processRequest(request, cancellation.token)
                     .then(() => {
-                        this.activeRequests.delete(request.id);
+                        this.completeRequest(active);
                         // Continue processing queue if there are more items
                         if (this.requestQueue.length > 0) {
                             this.processQueue();
                         }
                     })
                     .catch(error => {
-                        this.activeRequests.delete(request.id);
+                        this.completeRequest(active);
                         this.errorHandler.handleError(
                             error,
                             `processRequest: ${request.id}`,
@@ -341,26 +485,61 @@ export class PreviewEnhancer {
         }
     }
 
+    /**
+     * Remove a finished request from the active set
+     * A request superseded in the meantime has already been replaced and is left alone
+     */
+    private completeRequest(active: ActiveRequest): void {
+        if (this.activeRequests.get(active.request.id) === active) {
+            this.activeRequests.delete(active.request.id);
+        }
+        active.cancellation.dispose();
+    }
+
+    /**
+     * Cancel an in-flight request
+     */
+    private cancelRequest(id: string): void {
+        const active = this.activeRequests.get(id);
+        if (active) {
+            active.cancellation.cancel();
+            this.activeRequests.delete(id);
+            this.tokenizationService.releaseBlockDocuments(id);
+        }
+    }
+
+    /**
+     * Cancel all in-flight requests and drop queued ones
+     */
+    private cancelAllRequests(): void {
+        this.requestQueue.length = 0;
+        for (const id of Array.from(this.activeRequests.keys())) {
+            this.cancelRequest(id);
+        }
+    }
+
     /**
      * Process a single tokenization request
+     * The tokens are kept for the block's next render, and the preview is refreshed to show them
      */
-    private async processRequest(request: TokenizeRequestMessage): Promise<void> {
+    private async processRequest(request: TokenizeRequestMessage, token: vscode.CancellationToken): Promise<void> {
         const { id, code, language } = request;
         
         const timerId = this.performanceMonitor.startTimer('tokenization');
 
         try {
-            // Get current theme data
-            const themeData = this.themeManager.getThemeData();
+            // Get the theme data of the block, which may name its own theme
+            const blockTheme = this.getBlockTheme(request);
+            const themeData = await this.getBlockThemeData(request.id, blockTheme);
+            const cacheKey = this.getTokensKey(request, blockTheme);
 
             // Check cache if enabled
-            let tokenizedCode: TokenizedCode | null = null;
+            let encoded: EncodedTokens | null = null;
             
             if (this.configManager.isCacheEnabled()) {
-                const cacheKey = this.cacheManager.generateKey(code, language, themeData.kind);
-                tokenizedCode = this.cacheManager.get(cacheKey);
+                encoded = this.cacheManager.getEncoded(cacheKey);
                 
-                if (tokenizedCode) {
+                if (encoded) {
                     this.outputChannel.appendLine(`Cache hit for block ${id}`);
                     if (this.performanceMonitor.isEnabled()) {
                         this.performanceMonitor.recordMetric('cacheHit', 1);
@@ -368,25 +547,29 @@ export class PreviewEnhancer {
                 }
             }
 
-            // Tokenize if not cached
-            if (!tokenizedCode) {
+            // Tokenize if not cached; large blocks are tokenized chunk by chunk
+            if (!encoded) {
                 this.outputChannel.appendLine(`MCBH: Cache miss - tokenizing block ${id} (${language}, ${code.length} chars)`);
                 
-                const maxBlockSize = this.configManager.getMaxBlockSize();
-                const timeout = this.configManager.getTokenizationTimeout();
-                
-                tokenizedCode = await this.tokenizationService.tokenize(
+                const tokenizedCode: TokenizedCode = await this.tokenizationService.tokenize(
                     code,
                     language,
                     themeData,
-                    maxBlockSize,
-                    timeout
+                    this.configManager.getMaxBlockSize(),
+                    this.configManager.getTokenizationTimeout(),
+                    id,
+                    token
                 );
 
+                // Superseded while the last tier was finishing
+                if (token.isCancellationRequested) {
+                    throw new vscode.CancellationError();
+                }
+
                 // Cache result if enabled
+                encoded = encodeTokens(tokenizedCode, this.cacheManager.getStyleTable());
                 if (this.configManager.isCacheEnabled()) {
-                    const cacheKey = this.cacheManager.generateKey(code, language, themeData.kind);
-                    this.cacheManager.set(cacheKey, tokenizedCode);
+                    this.cacheManager.setEncoded(cacheKey, encoded);
                 }
 
                 if (this.performanceMonitor.isEnabled()) {
@@ -399,23 +582,137 @@ export class PreviewEnhancer {
                 this.outputChannel.appendLine(`Tokenization took ${elapsed.toFixed(2)}ms`);
             }
 
-            // Send response back to preview
-            const response: TokenizedResponseMessage = {
-                type: 'tokenized',
-                id,
-                tokens: tokenizedCode.tokens,
-                themeData
-            };
-
-            this.outputChannel.appendLine(`MCBH: Sending tokenized response back to preview for ${id}`);
-            await this.sendMessageToPreview(response);
-            this.outputChannel.appendLine(`MCBH: Response sent successfully for ${id}`);
+            this.renderTokens(cacheKey, this.createBlockTokens(encoded));
+            this.outputChannel.appendLine(`MCBH: Tokens of block ${id} ready for the preview`);
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                this.performanceMonitor.cancelTimer(timerId);
+                this.outputChannel.appendLine(`MCBH: Tokenization cancelled for block ${id}`);
+                return;
+            }
+
             this.performanceMonitor.endTimer(timerId);
             throw error;
         }
     }
 
+    /**
+     * Get the key of a block's tokens in the cache and in the tokens waiting to be rendered
+     * Keys of blocks in the preview theme change with the theme's kind; all keys are dropped when
+     * the theme changes
+     */
+    private getTokensKey(request: TokenizeRequestMessage, blockTheme: string | null): string {
+        const themeKey = blockTheme ? `theme:${blockTheme.toLowerCase()}` : this.themeManager.getThemeData().kind;
+        return this.cacheManager.generateKey(request.code, request.language, themeKey);
+    }
+
+    /**
+     * Get the theme a block names in its fence attributes when it differs from the preview theme
+     * Returns null for blocks shown in the preview theme
+     */
+    private getBlockTheme(request: TokenizeRequestMessage): string | null {
+        const config = this.configManager.getConfiguration();
+        const blockConfig = applyFenceAttributes(config, parseFenceAttributes(request.attributes || ''));
+        return blockConfig.previewTheme !== config.previewTheme ? blockConfig.previewTheme : null;
+    }
+
+    /**
+     * Get a block's own theme as rendered into the block
+     * Returns null until the theme was read, then renders the preview again; null as well when it is not found
+     */
+    private getBlockThemeText(blockTheme: string): string | null {
+        const key = blockTheme.toLowerCase();
+        const text = this.blockThemeTexts.get(key);
+        if (text !== undefined) {
+            return text;
+        }
+
+        this.blockThemeTexts.set(key, null);
+        this.themeManager.getThemeDataForTheme(blockTheme).then(themeData => {
+            this.blockThemeTexts.set(key, themeData ? JSON.stringify(createPreviewTheme(themeData)) : null);
+            if (themeData) {
+                this.scheduleRefresh();
+            }
+        }, error => this.errorHandler.logWarning(`Failed to read the theme of a block: ${blockTheme}`, error));
+        return null;
+    }
+
+    /**
+     * Get the theme data of a block's theme, or of the preview when it has none or it is not found
+     */
+    private async getBlockThemeData(id: string, blockTheme: string | null): Promise<ThemeData> {
+        if (blockTheme) {
+            const themeData = await this.themeManager.getThemeDataForTheme(blockTheme);
+            if (themeData) {
+                return themeData;
+            }
+            this.errorHandler.logWarning(`Theme of block ${id} not found, using the preview theme: ${blockTheme}`);
+        }
+        return this.themeManager.getThemeData();
+    }
+
+    /**
+     * Create the tokens of a block from encoded tokens
+     * Style ids refer to the cache's shared style table; only the colors and font styles in use are kept.
+     * Styles interned for data that is not cached are pruned once copied
+     */
+    private createBlockTokens(encoded: EncodedTokens): BlockTokens {
+        const styleTable = this.cacheManager.getStyleTable();
+        const tokens: BlockTokens = createPreviewTokens(encoded.data, styleTable);
+        if (encoded.diffLines) {
+            tokens.diffLines = encoded.diffLines;
+        }
+        styleTable.prune();
+        return tokens;
+    }
+
+    /**
+     * Get the tokens of a block from the cache, if enabled
+     */
+    private getCachedBlockTokens(key: string): BlockTokens | null {
+        const encoded = this.configManager.isCacheEnabled() ? this.cacheManager.getEncoded(key) : null;
+        return encoded ? this.createBlockTokens(encoded) : null;
+    }
+
+    /**
+     * Keep the tokens of a block for its next render and refresh the preview
+     * The least recently added tokens are dropped first
+     */
+    private renderTokens(key: string, tokens: BlockTokens): void {
+        this.renderedTokens.delete(key);
+        this.renderedTokens.set(key, tokens);
+        if (this.renderedTokens.size > this.MAX_PREVIEW_BLOCKS) {
+            const oldest = this.renderedTokens.keys().next().value;
+            if (oldest !== undefined) {
+                this.renderedTokens.delete(oldest);
+            }
+        }
+        this.scheduleRefresh();
+    }
+
+    /**
+     * Forget the tokens of all blocks, so that they are requested again on their next render
+     */
+    private forgetRenderedTokens(): void {
+        this.renderedTokens.clear();
+        this.requestedKeys.clear();
+    }
+
+    /**
+     * Render the open previews again once results stop coming in
+     */
+    private scheduleRefresh(): void {
+        if (this.refreshTimeout) {
+            clearTimeout(this.refreshTimeout);
+        }
+
+        this.refreshTimeout = setTimeout(() => {
+            this.refreshTimeout = null;
+            vscode.commands.executeCommand('markdown.preview.refresh').then(undefined, error =>
+                this.errorHandler.logWarning(`Failed to refresh the Markdown preview: ${error}`));
+        }, this.REFRESH_DELAY);
+    }
+
     /**
      * Send message to preview webview
      */
@@ -442,6 +739,9 @@ export class PreviewEnhancer {
      * Handle theme changes with debouncing
      */
     private handleThemeChange(themeData: ThemeData): void {
+        this.previewThemeText = null;
+        this.blockThemeTexts.clear();
+
         // Debounce theme change notifications to prevent rapid updates
         if (this.themeChangeDebounceTimeout) {
             clearTimeout(this.themeChangeDebounceTimeout);
@@ -455,23 +755,71 @@ export class PreviewEnhancer {
                 this.cacheManager.clear();
                 this.outputChannel.appendLine('Cache cleared due to theme change');
 
-                // Clear pending requests (will be re-requested with new theme)
-                this.requestQueue.length = 0;
-                this.activeRequests.clear();
-
-                // Notify all preview instances
-                const message: ThemeChangedMessage = {
-                    type: 'themeChanged',
-                    themeData
-                };
-
-                this.sendMessageToPreview(message);
+                // Cancel pending and in-flight requests; the preview is rendered again with the new
+                // theme, and its blocks are requested again
+                this.cancelAllRequests();
+                this.forgetRenderedTokens();
+                this.scheduleRefresh();
             } catch (error) {
                 this.errorHandler.handleError(error as Error, 'handleThemeChange', ErrorSeverity.Recoverable);
             }
         }, 100); // 100ms debounce
     }
 
+    /**
+     * Handle opened and closed editor tabs
+     * Cancels all work when no Markdown preview remains open
+     */
+    private handleTabsChange(event: vscode.TabChangeEvent): void {
+        if (!event.closed.some(tab => this.isMarkdownPreviewTab(tab))) {
+            return;
+        }
+
+        const previewOpen = vscode.window.tabGroups.all.some(
+            group => group.tabs.some(tab => this.isMarkdownPreviewTab(tab))
+        );
+        if (!previewOpen) {
+            this.outputChannel.appendLine('Markdown preview closed, cancelling pending tokenization');
+            this.cancelAllRequests();
+            this.previewBlocks.clear();
+            this.forgetRenderedTokens();
+            this.tokenizationService.releaseAllDocuments();
+        }
+    }
+
+    /**
+     * Check if a tab shows a Markdown preview
+     */
+    private isMarkdownPreviewTab(tab: vscode.Tab): boolean {
+        return tab.input instanceof vscode.TabInputWebview && tab.input.viewType.endsWith('markdown.preview');
+    }
+
+    /**
+     * Handle installed language or grammar changes
+     * The blocks of open previews are tokenized again, so they pick up the new grammars right away
+     */
+    private handleGrammarsChange(): void {
+        this.cacheManager.clear();
+        this.forgetRenderedTokens();
+        this.outputChannel.appendLine('Cache cleared due to grammar changes');
+
+        if (this.previewBlocks.size === 0 || !this.configManager.isHighlightingEnabled()) {
+            return;
+        }
+
+        // Work in flight was started with the old grammars
+        this.cancelAllRequests();
+        for (const request of this.previewBlocks.values()) {
+            this.queueRequest({
+                request,
+                priority: this.calculatePriority(request),
+                timestamp: Date.now()
+            });
+        }
+        this.scheduleQueueProcessing();
+        this.outputChannel.appendLine(`Re-tokenizing ${this.previewBlocks.size} blocks with the new grammars`);
+    }
+
     /**
      * Handle configuration changes
      */
@@ -482,6 +830,7 @@ export class PreviewEnhancer {
             // Update max concurrent requests
             if (config.concurrentRequests) {
                 this.maxConcurrentRequests = config.concurrentRequests;
+                this.tokenizationService.setWorkerCount(this.maxConcurrentRequests);
             }
 
             // Update cache size if changed
@@ -494,6 +843,17 @@ export class PreviewEnhancer {
                 this.cacheManager.clear();
             }
 
+            // Blocks may now be tokenized in another language
+            const languagesChanged = this.tokenizationService.setLanguageSettings(
+                this.configManager.getLanguageAliases(),
+                this.configManager.getDefaultLanguage()
+            );
+            if (languagesChanged) {
+                this.cacheManager.clear();
+                this.forgetRenderedTokens();
+                this.outputChannel.appendLine('Cache cleared due to language alias changes');
+            }
+
             // Update performance monitoring
             if (config.enablePerfMonitoring !== undefined) {
                 this.performanceMonitor.setEnabled(config.enablePerfMonitoring);
@@ -501,6 +861,9 @@ export class PreviewEnhancer {
 
             // Send updated config to preview
             this.sendConfigToPreview();
+
+            // Render the preview again, e.g. to guess the languages of unlabeled blocks with the new settings
+            this.scheduleRefresh();
         } catch (error) {
             this.errorHandler.handleError(error as Error, 'handleConfigurationChange', ErrorSeverity.Recoverable);
         }
@@ -521,7 +884,9 @@ export class PreviewEnhancer {
                 borderRadius: this.configManager.getBorderRadius(),
                 showCopyButton: this.configManager.getShowCopyButton(),
                 copyButtonPosition: this.configManager.getCopyButtonPosition(),
-                copyButtonVisibility: this.configManager.getCopyButtonVisibility()
+                copyButtonVisibility: this.configManager.getCopyButtonVisibility(),
+                languageAliases: this.configManager.getLanguageAliases(),
+                defaultLanguage: this.configManager.getDefaultLanguage()
             };
 
             this.sendMessageToPreview(configMessage);
@@ -580,6 +945,11 @@ export class PreviewEnhancer {
         if (this.themeChangeDebounceTimeout) {
             clearTimeout(this.themeChangeDebounceTimeout);
         }
+        if (this.refreshTimeout) {
+            clearTimeout(this.refreshTimeout);
+        }
+
+        this.cancelAllRequests();
 
         // Dispose subscriptions
         this.disposables.forEach(d => d.dispose());
@@ -0,0 +1,236 @@
+/**
+ * The 16 base terminal colors, named after the `terminal.ansi*` theme colors
+ */
+export interface AnsiColors {
+    black: string;
+    red: string;
+    green: string;
+    yellow: string;
+    blue: string;
+    magenta: string;
+    cyan: string;
+    white: string;
+    brightBlack: string;
+    brightRed: string;
+    brightGreen: string;
+    brightYellow: string;
+    brightBlue: string;
+    brightMagenta: string;
+    brightCyan: string;
+    brightWhite: string;
+}
+
+/**
+ * Base color names in palette order, so `ANSI_COLOR_NAMES[n]` is the color of SGR 30+n (and 90+n-8)
+ */
+export const ANSI_COLOR_NAMES: Array<keyof AnsiColors> = [
+    'black', 'red', 'green', 'yellow', 'blue', 'magenta', 'cyan', 'white',
+    'brightBlack', 'brightRed', 'brightGreen', 'brightYellow', 'brightBlue', 'brightMagenta', 'brightCyan', 'brightWhite'
+];
+
+/**
+ * A foreground color set by SGR: an index into the 256-color palette or a `#rrggbb` truecolor
+ */
+export type AnsiColor = number | string;
+
+/**
+ * Text attributes in effect after the SGR sequences read so far
+ */
+export interface AnsiStyle {
+    foreground?: AnsiColor;
+    bold?: boolean;
+    italic?: boolean;
+    underline?: boolean;
+}
+
+/**
+ * A run of text with one style, or an escape sequence (`escape` runs are not displayed)
+ */
+export interface AnsiSegment {
+    start: number;
+    end: number;
+    escape: boolean;
+    style: AnsiStyle;
+}
+
+/**
+ * Scopes of escape sequences and styled text
+ */
+export const ANSI_ESCAPE_SCOPE = 'meta.escape.ansi';
+export const ANSI_TEXT_SCOPE = 'text.ansi';
+
+const ANSI_LANGUAGES = ['ansi'];
+
+// Plain text languages whose blocks are read as ANSI when they contain escape sequences
+const PLAIN_LANGUAGES = ['plaintext', 'text', 'txt', 'log', 'output'];
+
+/**
+ * CSI sequences (SGR ends in `m`, others such as erase-line are dropped) and OSC sequences like hyperlinks
+ */
+const ESCAPE_PATTERN = /\x1b\[([0-9;:?]*)[ -/]*([@-~])|\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g;
+
+const CUBE_LEVELS = [0, 95, 135, 175, 215, 255];
+
+/**
+ * Check if a block is terminal output with ANSI escape sequences
+ * ```ansi fences always are; plain text and log blocks are when they contain an escape sequence
+ */
+export function isAnsiBlock(language: string, code: string): boolean {
+    const languageId = language.toLowerCase();
+    return ANSI_LANGUAGES.includes(languageId) || (PLAIN_LANGUAGES.includes(languageId) && hasAnsiEscapes(code));
+}
+
+/**
+ * Check if text contains an escape sequence
+ */
+export function hasAnsiEscapes(text: string): boolean {
+    return text.includes('\x1b[') || text.includes('\x1b]');
+}
+
+/**
+ * Split text into escape sequences and runs of styled text
+ * Styles carry over from one run to the next until reset by SGR 0
+ */
+export function parseAnsiSegments(text: string): AnsiSegment[] {
+    const segments: AnsiSegment[] = [];
+    let style: AnsiStyle = {};
+    let position = 0;
+
+    ESCAPE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ESCAPE_PATTERN.exec(text)) !== null) {
+        if (match.index > position) {
+            segments.push({ start: position, end: match.index, escape: false, style });
+        }
+        segments.push({ start: match.index, end: match.index + match[0].length, escape: true, style });
+
+        if (match[2] === 'm') {
+            style = applySgrParameters(style, match[1]);
+        }
+        position = match.index + match[0].length;
+    }
+
+    if (position < text.length) {
+        segments.push({ start: position, end: text.length, escape: false, style });
+    }
+
+    return segments;
+}
+
+/**
+ * Get the hex color of an SGR color
+ * The 16 base colors come from the theme, so they are undefined without theme colors
+ */
+export function resolveAnsiColor(color: AnsiColor, colors?: AnsiColors): string | undefined {
+    if (typeof color === 'string') {
+        return color;
+    }
+    if (color < 16) {
+        return colors?.[ANSI_COLOR_NAMES[color]];
+    }
+    if (color < 232) {
+        const index = color - 16;
+        return toHex(CUBE_LEVELS[Math.floor(index / 36)], CUBE_LEVELS[Math.floor(index / 6) % 6], CUBE_LEVELS[index % 6]);
+    }
+
+    const level = 8 + (color - 232) * 10;
+    return toHex(level, level, level);
+}
+
+/**
+ * Get the font style of an ANSI style in TextMate form, e.g. `bold underline`
+ */
+export function getAnsiFontStyle(style: AnsiStyle): string | undefined {
+    const parts: string[] = [];
+    if (style.bold) {
+        parts.push('bold');
+    }
+    if (style.italic) {
+        parts.push('italic');
+    }
+    if (style.underline) {
+        parts.push('underline');
+    }
+    return parts.length > 0 ? parts.join(' ') : undefined;
+}
+
+/**
+ * Apply the parameters of one SGR sequence to a style
+ * Background colors are read so their arguments are skipped, but not rendered
+ */
+function applySgrParameters(current: AnsiStyle, parameterText: string): AnsiStyle {
+    const style: AnsiStyle = { ...current };
+    const parameters = parameterText === '' ? ['0'] : parameterText.split(';');
+
+    for (let i = 0; i < parameters.length; i++) {
+        // Colon forms such as 38:2::r:g:b hold their arguments in one parameter
+        const parts = parameters[i].split(':');
+        const code = parseInt(parts[0] || '0', 10);
+
+        if (code === 38 || code === 48) {
+            const args = parts.length > 1 ? parseColonColor(parts) : parameters.slice(i + 1);
+            const color = parseExtendedColor(args);
+            if (parts.length === 1) {
+                i += args[0] === '5' ? 2 : args[0] === '2' ? 4 : 0;
+            }
+            if (code === 38 && color !== undefined) {
+                style.foreground = color;
+            }
+        } else if (code === 0) {
+            delete style.foreground;
+            delete style.bold;
+            delete style.italic;
+            delete style.underline;
+        } else if (code === 1) {
+            style.bold = true;
+        } else if (code === 3) {
+            style.italic = true;
+        } else if (code === 4) {
+            style.underline = true;
+        } else if (code === 22) {
+            delete style.bold;
+        } else if (code === 23) {
+            delete style.italic;
+        } else if (code === 24) {
+            delete style.underline;
+        } else if (code >= 30 && code <= 37) {
+            style.foreground = code - 30;
+        } else if (code >= 90 && code <= 97) {
+            style.foreground = code - 90 + 8;
+        } else if (code === 39) {
+            delete style.foreground;
+        }
+    }
+
+    return style;
+}
+
+/**
+ * Get the arguments of a colon form, dropping the color space id of `2::r:g:b`
+ */
+function parseColonColor(parts: string[]): string[] {
+    const args = parts.slice(1);
+    return args[0] === '2' && args.length === 5 ? ['2', ...args.slice(2)] : args;
+}
+
+/**
+ * Parse the arguments of SGR 38/48: `5;n` for the 256-color palette or `2;r;g;b` for truecolor
+ */
+function parseExtendedColor(args: string[]): AnsiColor | undefined {
+    if (args[0] === '5' && args.length >= 2) {
+        const index = parseInt(args[1], 10);
+        return index >= 0 && index <= 255 ? index : undefined;
+    }
+    if (args[0] === '2' && args.length >= 4) {
+        const [r, g, b] = args.slice(1, 4).map(value => parseInt(value, 10));
+        return [r, g, b].every(value => value >= 0 && value <= 255) ? toHex(r, g, b) : undefined;
+    }
+    return undefined;
+}
+
+/**
+ * Format an RGB color as `#rrggbb`
+ */
+function toHex(r: number, g: number, b: number): string {
+    return '#' + [r, g, b].map(value => value.toString(16).padStart(2, '0')).join('');
+}
@@ -0,0 +1,173 @@
+import { LoadedTheme } from './themeLoader';
+import { TokenColorRule } from './scopeSelectors';
+
+/**
+ * A color theme shipped with the extension, for previews that should not follow the editor
+ */
+export interface BundledTheme extends LoadedTheme {
+    name: string;
+    kind: 'light' | 'dark';
+}
+
+/**
+ * Token colors of a bundled theme, as `[scopes, foreground, fontStyle]`
+ */
+type RuleEntry = [string, string, string?];
+
+/**
+ * Themes selectable by name in the `previewTheme` setting
+ */
+export const BUNDLED_THEMES: BundledTheme[] = [
+    createTheme('GitHub Light', 'light', '#ffffff', '#24292f', [
+        ['comment, punctuation.definition.comment', '#6e7781'],
+        ['string, punctuation.definition.string', '#0a3069'],
+        ['string.regexp', '#116329'],
+        ['keyword, storage, storage.type, storage.modifier', '#cf222e'],
+        ['constant, constant.numeric, variable.other.constant, support.constant', '#0550ae'],
+        ['entity.name.function, support.function', '#8250df'],
+        ['entity.name.type, entity.name.class, entity.other.inherited-class, support.class, support.type', '#953800'],
+        ['variable.parameter', '#24292f'],
+        ['variable.other.property, entity.other.attribute-name', '#0550ae'],
+        ['entity.name.tag', '#116329'],
+        ['markup.heading', '#0550ae', 'bold'],
+        ['markup.bold', '#24292f', 'bold'],
+        ['markup.italic', '#24292f', 'italic'],
+        ['markup.inserted', '#116329'],
+        ['markup.deleted', '#82071e'],
+        ['markup.changed', '#953800'],
+        ['invalid', '#82071e', 'italic']
+    ]),
+    createTheme('GitHub Dark', 'dark', '#0d1117', '#c9d1d9', [
+        ['comment, punctuation.definition.comment', '#8b949e'],
+        ['string, punctuation.definition.string', '#a5d6ff'],
+        ['string.regexp', '#7ee787'],
+        ['keyword, storage, storage.type, storage.modifier', '#ff7b72'],
+        ['constant, constant.numeric, variable.other.constant, support.constant', '#79c0ff'],
+        ['entity.name.function, support.function', '#d2a8ff'],
+        ['entity.name.type, entity.name.class, entity.other.inherited-class, support.class, support.type', '#ffa657'],
+        ['variable.parameter', '#c9d1d9'],
+        ['variable.other.property, entity.other.attribute-name', '#79c0ff'],
+        ['entity.name.tag', '#7ee787'],
+        ['markup.heading', '#1f6feb', 'bold'],
+        ['markup.bold', '#c9d1d9', 'bold'],
+        ['markup.italic', '#c9d1d9', 'italic'],
+        ['markup.inserted', '#aff5b4'],
+        ['markup.deleted', '#ffdcd7'],
+        ['markup.changed', '#ffdfb6'],
+        ['invalid', '#ffa198', 'italic']
+    ]),
+    createTheme('Solarized Light', 'light', '#fdf6e3', '#657b83', [
+        ['comment, punctuation.definition.comment', '#93a1a1', 'italic'],
+        ['string, punctuation.definition.string', '#2aa198'],
+        ['string.regexp, constant.character.escape', '#d30102'],
+        ['keyword', '#859900'],
+        ['storage, storage.type, storage.modifier', '#586e75', 'bold'],
+        ['constant.numeric', '#d33682'],
+        ['constant, variable.other.constant, support.constant', '#cb4b16'],
+        ['entity.name.function, support.function', '#268bd2'],
+        ['entity.name.type, entity.name.class, support.type', '#cb4b16'],
+        ['entity.other.inherited-class, support.class', '#6c71c4'],
+        ['variable, variable.parameter', '#268bd2'],
+        ['entity.name.tag', '#268bd2'],
+        ['entity.other.attribute-name', '#93a1a1'],
+        ['markup.heading', '#268bd2', 'bold'],
+        ['markup.bold', '#657b83', 'bold'],
+        ['markup.italic', '#657b83', 'italic'],
+        ['markup.inserted', '#859900'],
+        ['markup.deleted', '#dc322f'],
+        ['markup.changed', '#cb4b16'],
+        ['invalid', '#d30102']
+    ]),
+    createTheme('Solarized Dark', 'dark', '#002b36', '#839496', [
+        ['comment, punctuation.definition.comment', '#586e75', 'italic'],
+        ['string, punctuation.definition.string', '#2aa198'],
+        ['string.regexp, constant.character.escape', '#d30102'],
+        ['keyword', '#859900'],
+        ['storage, storage.type, storage.modifier', '#93a1a1', 'bold'],
+        ['constant.numeric', '#d33682'],
+        ['constant, variable.other.constant, support.constant', '#cb4b16'],
+        ['entity.name.function, support.function', '#268bd2'],
+        ['entity.name.type, entity.name.class, support.type', '#cb4b16'],
+        ['entity.other.inherited-class, support.class', '#6c71c4'],
+        ['variable, variable.parameter', '#268bd2'],
+        ['entity.name.tag', '#268bd2'],
+        ['entity.other.attribute-name', '#93a1a1'],
+        ['markup.heading', '#268bd2', 'bold'],
+        ['markup.bold', '#839496', 'bold'],
+        ['markup.italic', '#839496', 'italic'],
+        ['markup.inserted', '#859900'],
+        ['markup.deleted', '#dc322f'],
+        ['markup.changed', '#cb4b16'],
+        ['invalid', '#d30102']
+    ]),
+    createTheme('Dracula', 'dark', '#282a36', '#f8f8f2', [
+        ['comment, punctuation.definition.comment', '#6272a4'],
+        ['string, punctuation.definition.string', '#f1fa8c'],
+        ['string.regexp', '#ff5555'],
+        ['keyword, storage, storage.type, storage.modifier, entity.name.tag', '#ff79c6'],
+        ['constant, constant.numeric, variable.other.constant, support.constant', '#bd93f9'],
+        ['entity.name.function, support.function, entity.other.attribute-name', '#50fa7b'],
+        ['entity.name.type, entity.name.class, entity.other.inherited-class, support.class, support.type', '#8be9fd', 'italic'],
+        ['variable.parameter', '#ffb86c', 'italic'],
+        ['variable', '#f8f8f2'],
+        ['markup.heading', '#bd93f9', 'bold'],
+        ['markup.bold', '#ffb86c', 'bold'],
+        ['markup.italic', '#f1fa8c', 'italic'],
+        ['markup.inserted', '#50fa7b'],
+        ['markup.deleted', '#ff5555'],
+        ['markup.changed', '#ffb86c'],
+        ['invalid', '#ff5555', 'italic underline']
+    ]),
+    createTheme('One Dark', 'dark', '#282c34', '#abb2bf', [
+        ['comment, punctuation.definition.comment', '#5c6370', 'italic'],
+        ['string, punctuation.definition.string', '#98c379'],
+        ['string.regexp, constant.character.escape', '#56b6c2'],
+        ['keyword, storage, storage.type, storage.modifier', '#c678dd'],
+        ['keyword.operator', '#56b6c2'],
+        ['constant, constant.numeric, variable.other.constant, support.constant', '#d19a66'],
+        ['entity.name.function, support.function', '#61afef'],
+        ['entity.name.type, entity.name.class, entity.other.inherited-class, support.class, support.type', '#e5c07b'],
+        ['variable, entity.name.tag', '#e06c75'],
+        ['variable.parameter', '#abb2bf'],
+        ['entity.other.attribute-name', '#d19a66'],
+        ['markup.heading', '#e06c75', 'bold'],
+        ['markup.bold', '#d19a66', 'bold'],
+        ['markup.italic', '#c678dd', 'italic'],
+        ['markup.inserted', '#98c379'],
+        ['markup.deleted', '#e06c75'],
+        ['markup.changed', '#e5c07b'],
+        ['invalid', '#ffffff']
+    ])
+];
+
+/**
+ * Find a bundled theme by name, ignoring case
+ */
+export function findBundledTheme(name: string): BundledTheme | undefined {
+    const key = name.trim().toLowerCase();
+    return BUNDLED_THEMES.find(theme => theme.name.toLowerCase() === key);
+}
+
+/**
+ * Create a bundled theme from its editor colors and token colors
+ */
+function createTheme(
+    name: string,
+    kind: 'light' | 'dark',
+    background: string,
+    foreground: string,
+    entries: RuleEntry[]
+): BundledTheme {
+    const tokenColors: TokenColorRule[] = entries.map(([scope, color, fontStyle]) => ({
+        scope,
+        settings: fontStyle ? { foreground: color, fontStyle } : { foreground: color }
+    }));
+
+    return {
+        name,
+        kind,
+        colors: { 'editor.background': background, 'editor.foreground': foreground },
+        tokenColors,
+        semanticTokenColors: {}
+    };
+}
@@ -1,4 +1,5 @@
 import { TokenizedCode } from './tokenizationService';
+import { EncodedTokens, TokenStyleTable, decodeTokens, encodeTokens } from './tokenEncoding';
 
 /**
  * LRU Cache entry
@@ -12,9 +13,12 @@ interface CacheEntry<T> {
 /**
  * CacheManager - Implements LRU (Least Recently Used) cache for tokenized code blocks
  * Improves performance by caching tokenization results
+ * Entries are kept in the compact encoding, against a style table shared by all entries;
+ * entries retain their styles, and styles no entry uses are pruned when entries are removed
  */
 export class CacheManager {
-    private cache: Map<string, CacheEntry<TokenizedCode>>;
+    private cache: Map<string, CacheEntry<EncodedTokens>>;
+    private styleTable: TokenStyleTable = new TokenStyleTable();
     private maxSize: number;
     private accessOrder: string[]; // Track access order for LRU
 
@@ -28,6 +32,15 @@ export class CacheManager {
      * Get cached tokenized code
      */
     public get(key: string): TokenizedCode | null {
+        const encoded = this.getEncoded(key);
+        return encoded ? decodeTokens(encoded, this.styleTable) : null;
+    }
+
+    /**
+     * Get cached tokenized code in the compact encoding
+     * Style ids refer to the table returned by getStyleTable
+     */
+    public getEncoded(key: string): EncodedTokens | null {
         const entry = this.cache.get(key);
         
         if (!entry) {
@@ -44,11 +57,21 @@ export class CacheManager {
     /**
      * Store tokenized code in cache
      */
-    public set(key: string, value: TokenizedCode): void {
+    public set(key: string, tokenized: TokenizedCode): void {
+        this.setEncoded(key, encodeTokens(tokenized, this.styleTable));
+    }
+
+    /**
+     * Store tokenized code already encoded against the shared style table
+     */
+    public setEncoded(key: string, value: EncodedTokens): void {
+        this.styleTable.retain(value.data);
+
         // Check if key already exists
         if (this.cache.has(key)) {
             // Update existing entry
             const entry = this.cache.get(key)!;
+            this.styleTable.release(entry.value.data);
             entry.value = value;
             entry.timestamp = Date.now();
             this.updateAccessOrder(key);
@@ -61,7 +84,7 @@ export class CacheManager {
         }
 
         // Add new entry
-        const entry: CacheEntry<TokenizedCode> = {
+        const entry: CacheEntry<EncodedTokens> = {
             key,
             value,
             timestamp: Date.now()
@@ -71,6 +94,13 @@ export class CacheManager {
         this.accessOrder.push(key);
     }
 
+    /**
+     * Get the style table shared by all cached entries
+     */
+    public getStyleTable(): TokenStyleTable {
+        return this.styleTable;
+    }
+
     /**
      * Generate cache key from code block properties
      */
@@ -85,6 +115,7 @@ export class CacheManager {
     public clear(): void {
         this.cache.clear();
         this.accessOrder = [];
+        this.styleTable.clear();
     }
 
     /**
@@ -105,11 +136,16 @@ export class CacheManager {
      * Remove specific entry from cache
      */
     public delete(key: string): boolean {
-        const deleted = this.cache.delete(key);
-        if (deleted) {
-            this.accessOrder = this.accessOrder.filter(k => k !== key);
+        const entry = this.cache.get(key);
+        if (!entry) {
+            return false;
         }
-        return deleted;
+
+        this.cache.delete(key);
+        this.accessOrder = this.accessOrder.filter(k => k !== key);
+        this.styleTable.release(entry.value.data);
+        this.styleTable.prune();
+        return true;
     }
 
     /**
@@ -141,10 +177,13 @@ export class CacheManager {
             return;
         }
 
-        // Remove first item (least recently used)
+        // Remove first item (least recently used) and the styles only it used
         const keyToEvict = this.accessOrder.shift();
-        if (keyToEvict) {
-            this.cache.delete(keyToEvict);
+        const entry = keyToEvict !== undefined ? this.cache.get(keyToEvict) : undefined;
+        if (entry) {
+            this.cache.delete(entry.key);
+            this.styleTable.release(entry.value.data);
+            this.styleTable.prune();
         }
     }
 
@@ -0,0 +1,272 @@
+import * as vscode from 'vscode';
+
+/**
+ * Tokenization request a document is opened for
+ * The requests of one block take turns on its document, so concurrent requests and streamed
+ * chunks do not overwrite each other's content while it is being read
+ */
+export interface DocumentRequest {
+    blockId: string;
+    requestId: number;
+}
+
+/**
+ * Content registered for a code-block document
+ */
+interface CodeBlockEntry {
+    uri: vscode.Uri;
+    blockId: string;
+    content: string;
+    lastUsed: number;
+}
+
+/**
+ * Turn of a request on the document of a block, with the requests waiting for theirs
+ */
+interface DocumentLease {
+    owner: DocumentRequest;
+    waiting: Array<{ request: DocumentRequest; resolve: () => void; reject: (error: Error) => void }>;
+}
+
+/**
+ * CodeBlockDocumentProvider - Serves Markdown code blocks as virtual documents
+ * Each block gets one stable URI (`markdown-code-block:/<block>/code-block<ext>`) that is reused
+ * when its content changes, so language servers see a read-only document with a meaningful
+ * file extension instead of a stream of untitled documents that are never closed.
+ * Released content is no longer served; VS Code closes the document on its own schedule, and
+ * until then it keeps its last content rather than being emptied.
+ */
+export class CodeBlockDocumentProvider implements vscode.TextDocumentContentProvider {
+    public static readonly SCHEME = 'markdown-code-block';
+
+    private readonly _onDidChange = new vscode.EventEmitter<vscode.Uri>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    private entries: Map<string, CodeBlockEntry> = new Map();
+    private leases: Map<string, DocumentLease> = new Map();
+    private disposables: vscode.Disposable[] = [];
+    private readonly MAX_DOCUMENTS = 50;
+    private readonly DOCUMENT_TTL = 5 * 60 * 1000; // Release blocks unused for 5 minutes
+    private readonly UPDATE_TIMEOUT = 1000; // Wait at most 1 second for content updates
+
+    constructor() {
+        this.disposables.push(
+            vscode.workspace.registerTextDocumentContentProvider(CodeBlockDocumentProvider.SCHEME, this)
+        );
+
+        // Forget content once VS Code has closed the document
+        this.disposables.push(
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (document.uri.scheme === CodeBlockDocumentProvider.SCHEME) {
+                    this.entries.delete(document.uri.toString());
+                }
+            })
+        );
+    }
+
+    /**
+     * Provide the content of a code-block document
+     */
+    public provideTextDocumentContent(uri: vscode.Uri): string {
+        return this.entries.get(uri.toString())?.content ?? '';
+    }
+
+    /**
+     * Get the URI of a block's document
+     */
+    public getUri(blockId: string, fileExtension: string): vscode.Uri {
+        const segment = blockId.replace(/[^a-zA-Z0-9_-]/g, '_') || 'block';
+        return vscode.Uri.from({
+            scheme: CodeBlockDocumentProvider.SCHEME,
+            path: `/${segment}/code-block${fileExtension}`
+        });
+    }
+
+    /**
+     * Open the document of a block with the given content
+     * The block's existing document is reused and updated when the content changed. With a request,
+     * waits until the block's other requests are done with the document; the request keeps it
+     * until releaseRequest. Rejects with vscode.CancellationError when the request is released first
+     */
+    public async openDocument(
+        blockId: string,
+        content: string,
+        languageId: string,
+        fileExtension: string,
+        request?: DocumentRequest
+    ): Promise<vscode.TextDocument> {
+        if (request) {
+            await this.acquire(request);
+        }
+        this.releaseExpired();
+
+        const uri = this.getUri(blockId, fileExtension);
+        const key = uri.toString();
+        const existing = this.entries.get(key);
+
+        if (existing) {
+            existing.lastUsed = Date.now();
+            existing.content = content;
+        } else {
+            this.evictIfFull();
+            this.entries.set(key, { uri, blockId, content, lastUsed: Date.now() });
+        }
+
+        // A document VS Code still holds, e.g. after its content was released, is updated as well
+        let document = await vscode.workspace.openTextDocument(uri);
+        if (document.getText() !== content) {
+            this._onDidChange.fire(uri);
+            document = await this.waitForContent(document, content);
+        }
+
+        // The extension may map to another language (e.g. `.h` for cpp)
+        if (document.languageId !== languageId) {
+            document = await vscode.languages.setTextDocumentLanguage(document, languageId);
+        }
+
+        return document;
+    }
+
+    /**
+     * Wait for an already open document to pick up changed content
+     * VS Code re-reads provider content asynchronously after onDidChange fires
+     */
+    private waitForContent(document: vscode.TextDocument, content: string): Promise<vscode.TextDocument> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                listener.dispose();
+                resolve(document);
+            }, this.UPDATE_TIMEOUT);
+
+            const listener = vscode.workspace.onDidChangeTextDocument(event => {
+                if (event.document.uri.toString() === document.uri.toString() && event.document.getText() === content) {
+                    clearTimeout(timer);
+                    listener.dispose();
+                    resolve(event.document);
+                }
+            });
+        });
+    }
+
+    /**
+     * Wait for the turn of a request on its block's document
+     */
+    private acquire(request: DocumentRequest): Promise<void> {
+        const lease = this.leases.get(request.blockId);
+        if (!lease) {
+            this.leases.set(request.blockId, { owner: request, waiting: [] });
+            return Promise.resolve();
+        }
+        if (lease.owner.requestId === request.requestId) {
+            return Promise.resolve();
+        }
+        return new Promise((resolve, reject) => lease.waiting.push({ request, resolve, reject }));
+    }
+
+    /**
+     * Release the content of a block's document
+     * No change event is fired, so the document VS Code still holds keeps its content
+     */
+    public release(uri: vscode.Uri): void {
+        this.entries.delete(uri.toString());
+    }
+
+    /**
+     * End the turn of a request on its block's document, passing it to the next waiting request
+     * The document itself is kept for the block's next request
+     */
+    public releaseRequest(request: DocumentRequest): void {
+        const lease = this.leases.get(request.blockId);
+        if (!lease) {
+            return;
+        }
+
+        const cancelled = lease.waiting.filter(waiter => waiter.request.requestId === request.requestId);
+        lease.waiting = lease.waiting.filter(waiter => waiter.request.requestId !== request.requestId);
+        cancelled.forEach(waiter => waiter.reject(new vscode.CancellationError()));
+
+        if (lease.owner.requestId !== request.requestId) {
+            return;
+        }
+
+        const next = lease.waiting.shift();
+        if (next) {
+            lease.owner = next.request;
+            next.resolve();
+        } else {
+            this.leases.delete(request.blockId);
+        }
+    }
+
+    /**
+     * Release the documents of a block, and of the blocks derived from it such as the code
+     * of a diff (`<block>-code`)
+     */
+    public releaseBlock(blockId: string): void {
+        for (const entry of Array.from(this.entries.values())) {
+            if (entry.blockId === blockId || entry.blockId.startsWith(`${blockId}-`)) {
+                this.release(entry.uri);
+            }
+        }
+    }
+
+    /**
+     * Release all code-block documents
+     */
+    public releaseAll(): void {
+        this.entries.clear();
+    }
+
+    /**
+     * Get the number of documents currently held
+     */
+    public getDocumentCount(): number {
+        return this.entries.size;
+    }
+
+    /**
+     * Release documents that have not been used within the TTL
+     */
+    private releaseExpired(): void {
+        const cutoff = Date.now() - this.DOCUMENT_TTL;
+        for (const entry of Array.from(this.entries.values())) {
+            if (entry.lastUsed < cutoff) {
+                this.release(entry.uri);
+            }
+        }
+    }
+
+    /**
+     * Release the least recently used document when the limit is reached
+     */
+    private evictIfFull(): void {
+        if (this.entries.size < this.MAX_DOCUMENTS) {
+            return;
+        }
+
+        let oldest: CodeBlockEntry | undefined;
+        for (const entry of this.entries.values()) {
+            if (!oldest || entry.lastUsed < oldest.lastUsed) {
+                oldest = entry;
+            }
+        }
+
+        if (oldest) {
+            this.release(oldest.uri);
+        }
+    }
+
+    /**
+     * Dispose resources
+     */
+    public dispose(): void {
+        this.entries.clear();
+        for (const lease of this.leases.values()) {
+            lease.waiting.forEach(waiter => waiter.reject(new vscode.CancellationError()));
+        }
+        this.leases.clear();
+        this._onDidChange.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
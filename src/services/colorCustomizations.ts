@@ -0,0 +1,117 @@
+import { TokenColorRule, TokenColorSettings } from './scopeSelectors';
+
+/**
+ * Scopes colored by the shorthand keys of `editor.tokenColorCustomizations`, as in the editor
+ * `keywords` leaves out `keyword.operator`, which the editor excludes with a `-` selector
+ */
+const TOKEN_GROUP_SCOPES: { [group: string]: string[] } = {
+    comments: ['comment', 'punctuation.definition.comment'],
+    strings: ['string', 'meta.embedded.assembly'],
+    keywords: ['keyword.control', 'keyword.other', 'storage', 'storage.type'],
+    numbers: ['constant.numeric'],
+    types: ['entity.name.type', 'entity.name.class', 'support.type', 'support.class'],
+    functions: ['entity.name.function', 'support.function'],
+    variables: ['variable', 'entity.name.variable']
+};
+
+/**
+ * Get the `tokenColors` rules of `editor.tokenColorCustomizations`
+ * Rules of `[Theme Name]` blocks matching the active theme come after the general ones, so they win
+ */
+export function getTokenColorCustomizationRules(customizations: unknown, themeNames: string[]): TokenColorRule[] {
+    const rules: TokenColorRule[] = [];
+    for (const block of getCustomizationBlocks(customizations, themeNames)) {
+        for (const [group, scopes] of Object.entries(TOKEN_GROUP_SCOPES)) {
+            const settings = readSettings(block[group]);
+            if (settings) {
+                rules.push({ name: group, scope: scopes, settings });
+            }
+        }
+
+        if (Array.isArray(block.textMateRules)) {
+            rules.push(...block.textMateRules.filter(
+                (rule: unknown): rule is TokenColorRule => !!rule && typeof (rule as TokenColorRule).settings === 'object'
+            ));
+        }
+    }
+    return rules;
+}
+
+/**
+ * Get the semantic token colors of `editor.semanticTokenColorCustomizations`, keyed by selector
+ * Rules of `[Theme Name]` blocks matching the active theme override the general ones
+ */
+export function getSemanticTokenColorCustomizations(customizations: unknown, themeNames: string[]): { [selector: string]: string } {
+    const colors: { [selector: string]: string } = {};
+    for (const block of getCustomizationBlocks(customizations, themeNames)) {
+        if (!block.rules || typeof block.rules !== 'object') {
+            continue;
+        }
+        for (const [selector, value] of Object.entries(block.rules)) {
+            const foreground = readSettings(value)?.foreground;
+            if (foreground) {
+                colors[selector] = foreground;
+            }
+        }
+    }
+    return colors;
+}
+
+/**
+ * Check if a `[Theme Name]` key applies to one of the names of the active theme
+ * A key may list several themes (`[A][B]`) and use `*` as a wildcard
+ */
+export function matchesThemeKey(key: string, themeNames: string[]): boolean {
+    const patterns = Array.from(key.matchAll(/\[([^\]]+)\]/g), match => match[1]);
+    return patterns.some(pattern => {
+        const regex = new RegExp('^' + pattern.split('*').map(escapeRegExp).join('.*') + '$');
+        return themeNames.some(name => regex.test(name));
+    });
+}
+
+/**
+ * Get the general block of a customization setting followed by its blocks for the active theme
+ */
+function getCustomizationBlocks(customizations: unknown, themeNames: string[]): Array<{ [key: string]: any }> {
+    if (!customizations || typeof customizations !== 'object') {
+        return [];
+    }
+
+    const general = customizations as { [key: string]: any };
+    const blocks = [general];
+    for (const [key, value] of Object.entries(general)) {
+        if (key.startsWith('[') && value && typeof value === 'object' && matchesThemeKey(key, themeNames)) {
+            blocks.push(value);
+        }
+    }
+    return blocks;
+}
+
+/**
+ * Read a customization value: a color, or an object with a foreground and font style
+ */
+function readSettings(value: unknown): TokenColorSettings | undefined {
+    if (typeof value === 'string') {
+        return { foreground: value };
+    }
+    if (!value || typeof value !== 'object') {
+        return undefined;
+    }
+
+    const { foreground, fontStyle } = value as TokenColorSettings;
+    const settings: TokenColorSettings = {};
+    if (typeof foreground === 'string') {
+        settings.foreground = foreground;
+    }
+    if (typeof fontStyle === 'string') {
+        settings.fontStyle = fontStyle;
+    }
+    return Object.keys(settings).length > 0 ? settings : undefined;
+}
+
+/**
+ * Escape the characters of a string that are special in regular expressions
+ */
+function escapeRegExp(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,135 @@
+/**
+ * A color with 8-bit channels
+ */
+export interface Rgb {
+    r: number;
+    g: number;
+    b: number;
+}
+
+/**
+ * Parse `#rgb`, `#rgba`, `#rrggbb` or `#rrggbbaa`
+ * Colors with alpha are blended over the background when one is given, and read as opaque otherwise
+ */
+export function parseHexColor(color: string, background?: Rgb | null): Rgb | null {
+    if (!/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(color)) {
+        return null;
+    }
+
+    let hex = color.substring(1);
+    if (hex.length <= 4) {
+        hex = Array.from(hex, char => char + char).join('');
+    }
+
+    const rgb = {
+        r: parseInt(hex.substring(0, 2), 16),
+        g: parseInt(hex.substring(2, 4), 16),
+        b: parseInt(hex.substring(4, 6), 16)
+    };
+    if (hex.length === 6 || !background) {
+        return rgb;
+    }
+
+    const alpha = parseInt(hex.substring(6, 8), 16) / 255;
+    return {
+        r: Math.round(rgb.r * alpha + background.r * (1 - alpha)),
+        g: Math.round(rgb.g * alpha + background.g * (1 - alpha)),
+        b: Math.round(rgb.b * alpha + background.b * (1 - alpha))
+    };
+}
+
+/**
+ * Get the relative luminance of a color as defined by WCAG
+ */
+export function getRelativeLuminance({ r, g, b }: Rgb): number {
+    const [red, green, blue] = [r, g, b].map(toLinearChannel);
+    return 0.2126 * red + 0.7152 * green + 0.0722 * blue;
+}
+
+/**
+ * Convert an 8-bit sRGB channel to linear light, from 0 to 1
+ */
+export function toLinearChannel(channel: number): number {
+    const value = channel / 255;
+    return value <= 0.03928 ? value / 12.92 : Math.pow((value + 0.055) / 1.055, 2.4);
+}
+
+/**
+ * Convert linear light, from 0 to 1, back to an 8-bit sRGB channel
+ */
+export function fromLinearChannel(value: number): number {
+    const clamped = Math.min(1, Math.max(0, value));
+    const encoded = clamped <= 0.0030402 ? clamped * 12.92 : 1.055 * Math.pow(clamped, 1 / 2.4) - 0.055;
+    return Math.round(encoded * 255);
+}
+
+/**
+ * Convert a color to hue, saturation and lightness, each from 0 to 1
+ */
+export function rgbToHsl({ r, g, b }: Rgb): { h: number; s: number; l: number } {
+    const red = r / 255;
+    const green = g / 255;
+    const blue = b / 255;
+    const max = Math.max(red, green, blue);
+    const min = Math.min(red, green, blue);
+    const l = (max + min) / 2;
+    if (max === min) {
+        return { h: 0, s: 0, l };
+    }
+
+    const delta = max - min;
+    const s = l > 0.5 ? delta / (2 - max - min) : delta / (max + min);
+    let h: number;
+    if (max === red) {
+        h = (green - blue) / delta + (green < blue ? 6 : 0);
+    } else if (max === green) {
+        h = (blue - red) / delta + 2;
+    } else {
+        h = (red - green) / delta + 4;
+    }
+    return { h: h / 6, s, l };
+}
+
+/**
+ * Convert hue, saturation and lightness, each from 0 to 1, to a color
+ */
+export function hslToRgb(h: number, s: number, l: number): Rgb {
+    if (s === 0) {
+        const value = Math.round(l * 255);
+        return { r: value, g: value, b: value };
+    }
+
+    const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+    const p = 2 * l - q;
+    return {
+        r: Math.round(hueToChannel(p, q, h + 1 / 3) * 255),
+        g: Math.round(hueToChannel(p, q, h) * 255),
+        b: Math.round(hueToChannel(p, q, h - 1 / 3) * 255)
+    };
+}
+
+function hueToChannel(p: number, q: number, t: number): number {
+    if (t < 0) {
+        t += 1;
+    }
+    if (t > 1) {
+        t -= 1;
+    }
+    if (t < 1 / 6) {
+        return p + (q - p) * 6 * t;
+    }
+    if (t < 1 / 2) {
+        return q;
+    }
+    if (t < 2 / 3) {
+        return p + (q - p) * (2 / 3 - t) * 6;
+    }
+    return p;
+}
+
+/**
+ * Format a color as `#rrggbb`
+ */
+export function toHexColor({ r, g, b }: Rgb): string {
+    return '#' + [r, g, b].map(value => value.toString(16).padStart(2, '0')).join('');
+}
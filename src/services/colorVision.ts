@@ -0,0 +1,177 @@
+import {
+    Rgb,
+    fromLinearChannel,
+    getRelativeLuminance,
+    hslToRgb,
+    parseHexColor,
+    rgbToHsl,
+    toHexColor,
+    toLinearChannel
+} from './colorMath';
+
+/**
+ * Color vision deficiencies the token palette can be remapped and simulated for
+ */
+export type ColorVisionMode = 'deuteranopia' | 'protanopia' | 'tritanopia';
+
+export const COLOR_VISION_MODES: ColorVisionMode[] = ['deuteranopia', 'protanopia', 'tritanopia'];
+
+/**
+ * Linear RGB matrices of full-severity dichromacy, from Machado, Oliveira and Fernandes (2009)
+ */
+const SIMULATION_MATRICES: { [mode in ColorVisionMode]: number[][] } = {
+    protanopia: [
+        [0.152286, 1.052583, -0.204868],
+        [0.114503, 0.786281, 0.099216],
+        [-0.003882, -0.048116, 1.051998]
+    ],
+    deuteranopia: [
+        [0.367322, 0.860646, -0.227968],
+        [0.280085, 0.672501, 0.047413],
+        [-0.011820, 0.042940, 0.968881]
+    ],
+    tritanopia: [
+        [1.255528, -0.076749, -0.178779],
+        [-0.078411, 0.930809, 0.147602],
+        [0.004733, 0.691367, 0.303900]
+    ]
+};
+
+/**
+ * Hues, in degrees, the hue families of a palette are moved to
+ * Red-green deficiencies get the Okabe-Ito hues, which differ along the blue-yellow axis;
+ * tritanopia gets reds, pinks and cyans, which differ along the red-cyan axis
+ */
+const SAFE_HUES: { [mode in ColorVisionMode]: number[] } = {
+    deuteranopia: [41, 202, 164, 56, 26, 326],
+    protanopia: [41, 202, 164, 56, 26, 326],
+    tritanopia: [0, 185, 330, 200, 20, 170]
+};
+
+// Colors less saturated than this are grays, which every mode tells apart by lightness alone
+const GRAY_SATURATION = 0.15;
+
+// Remapped colors are at least this saturated, so their new hues stay recognizable
+const MINIMUM_SATURATION = 0.45;
+
+// Hue families are 30 degree wide, so shades of one hue keep sharing a color
+const HUE_FAMILIES = 12;
+
+// Halvings of the lightness range when matching a luminance
+const SEARCH_STEPS = 20;
+
+/**
+ * Check if a value names a color vision mode, e.g. a setting value
+ */
+export function isColorVisionMode(value: unknown): value is ColorVisionMode {
+    return typeof value === 'string' && (COLOR_VISION_MODES as string[]).includes(value);
+}
+
+/**
+ * Simulate how a color looks with a color vision deficiency
+ * Colors that are not hex colors are returned unchanged; alpha is kept
+ */
+export function simulateColorVision(color: string, mode: ColorVisionMode): string {
+    const rgb = parseHexColor(color);
+    if (!rgb) {
+        return color;
+    }
+
+    const linear = [rgb.r, rgb.g, rgb.b].map(toLinearChannel);
+    const [r, g, b] = SIMULATION_MATRICES[mode].map(row =>
+        fromLinearChannel(row[0] * linear[0] + row[1] * linear[1] + row[2] * linear[2])
+    );
+    return toHexColor({ r, g, b }) + getAlphaSuffix(color);
+}
+
+/**
+ * Create a function moving the colors of a palette to hues that stay distinguishable with a
+ * color vision deficiency
+ * The palette's hue families are assigned the mode's safe hues in hue order, so colors of different
+ * families stay different and colors of one family stay alike. Each color keeps its relative
+ * luminance, and with it its contrast against the background; grays are left unchanged.
+ * Palettes with more hue families than safe hues reuse them, told apart by lightness only
+ */
+export function createColorVisionRemap(palette: string[], mode: ColorVisionMode): (color: string) => string {
+    const families = new Set<number>();
+    for (const color of palette) {
+        const rgb = parseHexColor(color);
+        if (rgb && isChromatic(rgb)) {
+            families.add(getHueFamily(rgb));
+        }
+    }
+
+    const safeHues = SAFE_HUES[mode];
+    const familyHues = new Map<number, number>();
+    Array.from(families).sort((a, b) => a - b).forEach((family, index) => {
+        familyHues.set(family, safeHues[index % safeHues.length] / 360);
+    });
+
+    return (color: string) => {
+        const rgb = parseHexColor(color);
+        if (!rgb || !isChromatic(rgb) || familyHues.size === 0) {
+            return color;
+        }
+
+        const hue = familyHues.get(getNearestFamily(getHueFamily(rgb), familyHues))!;
+        const saturation = Math.max(rgbToHsl(rgb).s, MINIMUM_SATURATION);
+        return toHexColor(matchLuminance(hue, saturation, getRelativeLuminance(rgb))) + getAlphaSuffix(color);
+    };
+}
+
+/**
+ * Find the lightness at which a hue and saturation reach a relative luminance
+ * Luminance only grows with lightness, so a binary search finds it
+ */
+function matchLuminance(h: number, s: number, luminance: number): Rgb {
+    let low = 0;
+    let high = 1;
+    for (let step = 0; step < SEARCH_STEPS; step++) {
+        const middle = (low + high) / 2;
+        if (getRelativeLuminance(hslToRgb(h, s, middle)) < luminance) {
+            low = middle;
+        } else {
+            high = middle;
+        }
+    }
+    return hslToRgb(h, s, (low + high) / 2);
+}
+
+function isChromatic(rgb: Rgb): boolean {
+    return rgbToHsl(rgb).s >= GRAY_SATURATION;
+}
+
+function getHueFamily(rgb: Rgb): number {
+    return Math.round(rgbToHsl(rgb).h * HUE_FAMILIES) % HUE_FAMILIES;
+}
+
+/**
+ * Get the family of the palette closest to a color's family, around the color wheel
+ * Colors outside the palette, such as later customizations, join the family of their closest hue
+ */
+function getNearestFamily(family: number, familyHues: Map<number, number>): number {
+    let nearest = family;
+    let nearestDistance = Infinity;
+    for (const candidate of familyHues.keys()) {
+        const difference = Math.abs(candidate - family);
+        const distance = Math.min(difference, HUE_FAMILIES - difference);
+        if (distance < nearestDistance) {
+            nearest = candidate;
+            nearestDistance = distance;
+        }
+    }
+    return nearest;
+}
+
+/**
+ * Get the alpha of a `#rgba` or `#rrggbbaa` color as a two-digit suffix
+ */
+function getAlphaSuffix(color: string): string {
+    if (color.length === 9) {
+        return color.substring(7, 9);
+    }
+    if (color.length === 5) {
+        return color.charAt(4).repeat(2);
+    }
+    return '';
+}
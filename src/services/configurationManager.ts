@@ -21,6 +21,11 @@ export interface ExtensionConfig {
     showCopyButton: boolean;
     copyButtonPosition: 'top-right' | 'top-left' | 'bottom-right' | 'bottom-left';
     copyButtonVisibility: 'hover' | 'always';
+    languageDetection: boolean;
+    languageDetectionThreshold: number;
+    languageAliases: { [fenceId: string]: string };
+    defaultLanguage: string;
+    previewTheme: string;
 }
 
 /**
@@ -171,6 +176,55 @@ export class ConfigurationManager {
         return this.currentConfig.copyButtonVisibility;
     }
 
+    /**
+     * Check if the language of unlabeled code blocks should be detected
+     */
+    public isLanguageDetectionEnabled(): boolean {
+        return this.currentConfig.languageDetection;
+    }
+
+    /**
+     * Get the confidence (0-1) a detected language needs before it is applied
+     */
+    public getLanguageDetectionThreshold(): number {
+        return this.validateNumber(this.currentConfig.languageDetectionThreshold, 0, 1, 0.6);
+    }
+
+    /**
+     * Get the user's fence id aliases, keyed by lowercase fence id
+     * Entries without a language are dropped
+     */
+    public getLanguageAliases(): { [fenceId: string]: string } {
+        const aliases: { [fenceId: string]: string } = {};
+        const configured = this.currentConfig.languageAliases;
+
+        if (configured && typeof configured === 'object' && !Array.isArray(configured)) {
+            for (const [fenceId, language] of Object.entries(configured)) {
+                if (typeof language === 'string' && language.trim() && fenceId.trim()) {
+                    aliases[fenceId.trim().toLowerCase()] = language.trim();
+                }
+            }
+        }
+
+        return aliases;
+    }
+
+    /**
+     * Get the language of unlabeled and indented code blocks ('' when none is set)
+     */
+    public getDefaultLanguage(): string {
+        const language = this.currentConfig.defaultLanguage;
+        return typeof language === 'string' ? language.trim() : '';
+    }
+
+    /**
+     * Get the theme of code blocks in the preview ('' when they follow the editor)
+     */
+    public getPreviewTheme(): string {
+        const theme = this.currentConfig.previewTheme;
+        return typeof theme === 'string' ? theme.trim() : '';
+    }
+
     /**
      * Validate a number is within range, return default if invalid
      */
@@ -223,7 +277,12 @@ export class ConfigurationManager {
             borderRadius: config.get<number>('borderRadius', 4),
             showCopyButton: config.get<boolean>('showCopyButton', true),
             copyButtonPosition: config.get<'top-right' | 'top-left' | 'bottom-right' | 'bottom-left'>('copyButtonPosition', 'top-right'),
-            copyButtonVisibility: config.get<'hover' | 'always'>('copyButtonVisibility', 'hover')
+            copyButtonVisibility: config.get<'hover' | 'always'>('copyButtonVisibility', 'hover'),
+            languageDetection: config.get<boolean>('languageDetection', true),
+            languageDetectionThreshold: config.get<number>('languageDetectionThreshold', 0.6),
+            languageAliases: config.get<{ [fenceId: string]: string }>('languageAliases', {}),
+            defaultLanguage: config.get<string>('defaultLanguage', ''),
+            previewTheme: config.get<string>('previewTheme', '')
         };
     }
 
@@ -248,7 +307,12 @@ export class ConfigurationManager {
             oldConfig.borderRadius !== newConfig.borderRadius ||
             oldConfig.showCopyButton !== newConfig.showCopyButton ||
             oldConfig.copyButtonPosition !== newConfig.copyButtonPosition ||
-            oldConfig.copyButtonVisibility !== newConfig.copyButtonVisibility
+            oldConfig.copyButtonVisibility !== newConfig.copyButtonVisibility ||
+            oldConfig.languageDetection !== newConfig.languageDetection ||
+            oldConfig.languageDetectionThreshold !== newConfig.languageDetectionThreshold ||
+            JSON.stringify(oldConfig.languageAliases) !== JSON.stringify(newConfig.languageAliases) ||
+            oldConfig.defaultLanguage !== newConfig.defaultLanguage ||
+            oldConfig.previewTheme !== newConfig.previewTheme
         );
     }
 
@@ -0,0 +1,123 @@
+import { Token } from './tokenizationService';
+import { LineSegment, joinLineSegments, mapJoinedSegmentTokens } from './embeddedLanguages';
+
+/**
+ * Kind of a line in a console transcript
+ * `command` lines start with a prompt or continue the command of the line before
+ */
+export type ConsoleLineKind = 'command' | 'output';
+
+/**
+ * A line of a console transcript
+ * The prompt runs from `start` to `commandStart`; continuation lines have no prompt
+ */
+export interface ConsoleLine {
+    kind: ConsoleLineKind;
+    start: number;
+    end: number;
+    commandStart: number;
+}
+
+/**
+ * Scopes of prompts and output lines
+ */
+export const CONSOLE_PROMPT_SCOPE = 'punctuation.definition.prompt.shell-session';
+export const CONSOLE_OUTPUT_SCOPE = 'meta.output.shell-session';
+
+/**
+ * Console languages keyed by language id, with the shell their commands are written in
+ * `null` shells are taken from the prompts: PowerShell for `PS>` prompts, POSIX shells otherwise
+ */
+const CONSOLE_LANGUAGES: { [languageId: string]: string | null } = {
+    'console': null,
+    'shell-session': null,
+    'shellsession': null,
+    'sh-session': null,
+    'terminal': null,
+    'pwsh-session': 'powershell',
+    'ps1-session': 'powershell',
+    'powershell-session': 'powershell'
+};
+
+/**
+ * Prompts: `$`, `#`, `%` and `>` with an optional `(venv)`, `user@host:dir` or `[user@host dir]` prefix,
+ * and PowerShell's `PS>` / `PS C:\dir>`; a prompt is followed by a space or the end of the line
+ */
+const PROMPT_PATTERN = /^[ \t]*(?:\([^)\n]*\)[ \t]*)?(?:PS(?:[ \t][^>\n]*)?>|(?:\[[^\]\n]*\]|[\w.-]+@[\w.-]+(?::[^\s$#%>]*)?)?[$#%>])(?:[ \t]|$)/;
+
+const POWERSHELL_PROMPT_PATTERN = /^[ \t]*(?:\([^)\n]*\)[ \t]*)?PS(?:[ \t][^>\n]*)?>/;
+
+/**
+ * Check if a language is a console transcript
+ */
+export function isConsoleLanguage(language: string): boolean {
+    // Own keys only, so languages named like Object.prototype members are not transcripts
+    return Object.prototype.hasOwnProperty.call(CONSOLE_LANGUAGES, language.toLowerCase());
+}
+
+/**
+ * Split a console transcript into command and output lines
+ * A command ending in `\` (or a backtick in PowerShell) continues on the next line
+ */
+export function parseConsoleLines(code: string): ConsoleLine[] {
+    const lines: ConsoleLine[] = [];
+    let continues = false;
+    let start = 0;
+
+    for (const text of code.split('\n')) {
+        const end = start + text.length;
+        const prompt = continues ? null : PROMPT_PATTERN.exec(text);
+
+        if (continues || prompt) {
+            const commandStart = start + (prompt ? prompt[0].length : 0);
+            lines.push({ kind: 'command', start, end, commandStart });
+            continues = /[\\`]$/.test(text.trimEnd());
+        } else {
+            lines.push({ kind: 'output', start, end, commandStart: end });
+        }
+
+        start = end + 1;
+    }
+
+    return lines;
+}
+
+/**
+ * Get the shell the commands of a transcript are written in
+ */
+export function getConsoleShell(language: string, code: string, lines: ConsoleLine[]): string {
+    const shell = isConsoleLanguage(language) ? CONSOLE_LANGUAGES[language.toLowerCase()] : null;
+    if (shell) {
+        return shell;
+    }
+
+    const powershell = lines.some(line =>
+        line.kind === 'command' && line.commandStart > line.start &&
+        POWERSHELL_PROMPT_PATTERN.test(code.substring(line.start, line.commandStart))
+    );
+    return powershell ? 'powershell' : 'shellscript';
+}
+
+/**
+ * Join the commands of a transcript, without prompts and output
+ * The result is tokenized in the shell of the transcript and mapped back with mapConsoleCommandTokens
+ */
+export function getConsoleCommands(code: string, lines: ConsoleLine[]): string {
+    return joinLineSegments(code, getCommandSegments(lines));
+}
+
+/**
+ * Move tokens of the code returned by getConsoleCommands to offsets of the transcript
+ */
+export function mapConsoleCommandTokens(code: string, lines: ConsoleLine[], tokens: Token[]): Token[] {
+    return mapJoinedSegmentTokens(code, getCommandSegments(lines), tokens);
+}
+
+/**
+ * Get the commands of the command lines of a transcript
+ */
+function getCommandSegments(lines: ConsoleLine[]): LineSegment[] {
+    return lines
+        .filter(line => line.kind === 'command')
+        .map(line => ({ start: line.commandStart, end: line.end }));
+}
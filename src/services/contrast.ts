@@ -0,0 +1,108 @@
+import { Rgb, getRelativeLuminance, hslToRgb, parseHexColor, rgbToHsl, toHexColor } from './colorMath';
+
+/**
+ * Minimum contrast ratios of normal text in WCAG 2
+ */
+export const CONTRAST_LEVELS = {
+    AA: 4.5,
+    AAA: 7
+};
+
+export type ContrastLevel = keyof typeof CONTRAST_LEVELS;
+
+/**
+ * Colors after contrast enforcement, with the keys whose color was changed
+ */
+export interface ContrastResult {
+    colors: { [key: string]: string };
+    adjusted: string[];
+}
+
+// Steps of the lightness search; 20 halvings are finer than one 8-bit channel step
+const SEARCH_STEPS = 20;
+
+/**
+ * Get the WCAG contrast ratio of a color against a background, from 1 to 21
+ * Colors with alpha are blended over the background first
+ */
+export function getContrastRatio(color: string, background: string): number {
+    const backgroundRgb = parseHexColor(background);
+    const rgb = parseHexColor(color, backgroundRgb);
+    if (!rgb || !backgroundRgb) {
+        return 1;
+    }
+    return getRatio(getRelativeLuminance(rgb), getRelativeLuminance(backgroundRgb));
+}
+
+/**
+ * Change the lightness of a color, keeping its hue and saturation, until it reaches a contrast ratio
+ * against a background; the color closest to the original that does is returned
+ * Moves away from the background's lightness first, and ends at black or white when neither
+ * direction reaches the ratio. Colors that already do, or are not hex colors, are returned unchanged
+ */
+export function ensureContrast(color: string, background: string, minimumRatio: number): string {
+    const backgroundRgb = parseHexColor(background);
+    const rgb = parseHexColor(color, backgroundRgb);
+    if (!rgb || !backgroundRgb) {
+        return color;
+    }
+
+    const backgroundLuminance = getRelativeLuminance(backgroundRgb);
+    const meets = (candidate: Rgb) => getRatio(getRelativeLuminance(candidate), backgroundLuminance) >= minimumRatio;
+    if (meets(rgb)) {
+        return color;
+    }
+
+    const { h, s, l } = rgbToHsl(rgb);
+    const lighterFirst = getRelativeLuminance(rgb) >= backgroundLuminance;
+    for (const lighter of [lighterFirst, !lighterFirst]) {
+        const limit = lighter ? 1 : 0;
+        if (!meets(hslToRgb(h, s, limit))) {
+            continue;
+        }
+
+        // Closest lightness to the original that still meets the ratio
+        let near = l;
+        let far = limit;
+        for (let step = 0; step < SEARCH_STEPS; step++) {
+            const middle = (near + far) / 2;
+            if (meets(hslToRgb(h, s, middle))) {
+                far = middle;
+            } else {
+                near = middle;
+            }
+        }
+        return toHexColor(hslToRgb(h, s, far));
+    }
+
+    const black = { r: 0, g: 0, b: 0 };
+    const white = { r: 255, g: 255, b: 255 };
+    return getRatio(0, backgroundLuminance) >= getRatio(1, backgroundLuminance)
+        ? toHexColor(black)
+        : toHexColor(white);
+}
+
+/**
+ * Enforce a minimum contrast ratio on a map of colors, such as the token colors of a theme
+ */
+export function enforceContrast(
+    colors: { [key: string]: string },
+    background: string,
+    minimumRatio: number
+): ContrastResult {
+    const result: ContrastResult = { colors: {}, adjusted: [] };
+    for (const [key, color] of Object.entries(colors)) {
+        const adjusted = ensureContrast(color, background, minimumRatio);
+        result.colors[key] = adjusted;
+        if (adjusted !== color) {
+            result.adjusted.push(key);
+        }
+    }
+    return result;
+}
+
+function getRatio(luminance: number, otherLuminance: number): number {
+    const lighter = Math.max(luminance, otherLuminance);
+    const darker = Math.min(luminance, otherLuminance);
+    return (lighter + 0.05) / (darker + 0.05);
+}
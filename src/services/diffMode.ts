@@ -0,0 +1,126 @@
+import { Token } from './tokenizationService';
+import { LineSegment, joinLineSegments, mapJoinedSegmentTokens } from './embeddedLanguages';
+
+/**
+ * Kind of a line in a diff block
+ * `header` covers file headers (`diff`, `index`, `---`, `+++`), `hunk` covers `@@` range lines
+ */
+export type DiffLineKind = 'added' | 'removed' | 'hunk' | 'header' | 'context';
+
+/**
+ * A line of a diff block
+ * `contentStart` is where the code after the `+`, `-` or space marker begins;
+ * header and hunk lines have no code, so their content starts at `end`
+ */
+export interface DiffLine {
+    kind: DiffLineKind;
+    start: number;
+    end: number;
+    contentStart: number;
+}
+
+/**
+ * Language of a diff fence
+ * `codeLanguage` is set for fences like ```diff-typescript whose lines hold code of that language
+ */
+export interface DiffLanguage {
+    codeLanguage?: string;
+}
+
+/**
+ * Scope of the marker (and, without a code language, the whole line) of each line kind
+ */
+export const DIFF_LINE_SCOPES: { [kind in DiffLineKind]: string } = {
+    added: 'markup.inserted.diff',
+    removed: 'markup.deleted.diff',
+    hunk: 'meta.diff.range.unified',
+    header: 'meta.diff.header',
+    context: 'text'
+};
+
+const DIFF_LANGUAGES = ['diff', 'patch', 'udiff'];
+
+/**
+ * Lines that start a file section of a git or unified diff
+ */
+const FILE_HEADER_PATTERN = /^(diff |index |\+\+\+ |--- |new file mode|deleted file mode|old mode|new mode|similarity index|rename from|rename to|Binary files)/;
+
+/**
+ * Parse the language of a fence as a diff
+ * Returns null for languages that are not diffs
+ */
+export function parseDiffLanguage(language: string): DiffLanguage | null {
+    const languageId = language.toLowerCase();
+    if (DIFF_LANGUAGES.includes(languageId)) {
+        return {};
+    }
+
+    const match = /^diff-(.+)$/.exec(languageId);
+    return match ? { codeLanguage: match[1] } : null;
+}
+
+/**
+ * Split a diff block into classified lines
+ * Outside hunks, file header lines win over `+`/`-` markers; inside a hunk only a `diff` line ends it
+ */
+export function parseDiffLines(code: string): DiffLine[] {
+    const lines: DiffLine[] = [];
+    let inHunk = false;
+    let start = 0;
+
+    for (const text of code.split('\n')) {
+        const end = start + text.length;
+        let kind: DiffLineKind;
+
+        if (text.startsWith('@@')) {
+            kind = 'hunk';
+            inHunk = true;
+        } else if (text.startsWith('diff ') || (!inHunk && FILE_HEADER_PATTERN.test(text))) {
+            kind = 'header';
+            inHunk = false;
+        } else if (text.startsWith('+')) {
+            kind = 'added';
+        } else if (text.startsWith('-')) {
+            kind = 'removed';
+        } else {
+            kind = 'context';
+        }
+
+        let contentStart = start;
+        if (kind === 'hunk' || kind === 'header') {
+            contentStart = end;
+        } else if (kind !== 'context' || text.startsWith(' ')) {
+            contentStart = start + 1;
+        }
+
+        lines.push({ kind, start, end, contentStart });
+        start = end + 1;
+    }
+
+    return lines;
+}
+
+/**
+ * Join the code of the added, removed and context lines, without their markers
+ * The result is tokenized in the code language of the fence and mapped back with mapDiffCodeTokens
+ */
+export function getDiffCode(code: string, lines: DiffLine[]): string {
+    return joinLineSegments(code, getCodeSegments(lines));
+}
+
+/**
+ * Move tokens of the code returned by getDiffCode to offsets of the diff block
+ * Tokens spanning several code lines are split at the line ends
+ */
+export function mapDiffCodeTokens(code: string, lines: DiffLine[], tokens: Token[]): Token[] {
+    return mapJoinedSegmentTokens(code, getCodeSegments(lines), tokens);
+}
+
+/**
+ * Get the code of the lines of a diff that hold code, without their markers
+ */
+function getCodeSegments(lines: DiffLine[]): LineSegment[] {
+    return lines
+        .filter(line => line.kind !== 'hunk' && line.kind !== 'header')
+        .map(line => ({ start: line.contentStart, end: line.end }));
+}
@@ -0,0 +1,383 @@
+import { Token } from './tokenizationService';
+
+/**
+ * A region of a code block written in another language than its host
+ * Regions with a language are tokenized in that language; regions with a scope
+ * (template delimiters and comments) become a single token with that scope
+ */
+export interface EmbeddedRegion {
+    start: number;
+    end: number;
+    language?: string;
+    scope?: string;
+}
+
+/**
+ * Host language of a code block and the embedded regions found in it
+ * Regions are sorted and do not overlap
+ */
+export interface EmbeddedLayout {
+    hostLanguage: string;
+    regions: EmbeddedRegion[];
+}
+
+/**
+ * Tokens of an embedded region, with offsets relative to the region start
+ */
+export interface EmbeddedRegionTokens {
+    region: EmbeddedRegion;
+    tokens: Token[];
+}
+
+/**
+ * Range of a block holding one line of code, for blocks whose code lines are interleaved with other text
+ */
+export interface LineSegment {
+    start: number;
+    end: number;
+}
+
+/**
+ * Template tag of a template language, e.g. `<%= ... %>` in ERB
+ * `pattern` captures the opening delimiter, the body and the closing delimiter
+ */
+interface TemplateTag {
+    pattern: RegExp;
+    language?: string;
+    commentMarker?: string;
+}
+
+const TEMPLATE_DELIMITER_SCOPE = 'punctuation.section.embedded';
+const TEMPLATE_COMMENT_SCOPE = 'comment.block';
+
+const ERB_TAGS: TemplateTag[] = [
+    { pattern: /(<%[=-]?)([\s\S]*?)(-?%>)/g, language: 'ruby', commentMarker: '#' }
+];
+
+const JINJA_TAGS: TemplateTag[] = [
+    { pattern: /(\{#)([\s\S]*?)(#\})/g },
+    { pattern: /(\{\{-?|\{%-?)([\s\S]*?)(-?\}\}|-?%\})/g, language: 'jinja' }
+];
+
+const HANDLEBARS_TAGS: TemplateTag[] = [
+    { pattern: /(\{\{!--)([\s\S]*?)(--\}\})/g },
+    { pattern: /(\{\{!)([\s\S]*?)(\}\})/g },
+    { pattern: /(\{\{\{?~?)([\s\S]*?)(~?\}\}\}?)/g, language: 'handlebars' }
+];
+
+/**
+ * Template languages keyed by language id, with the language of the text around their tags
+ */
+const TEMPLATE_LANGUAGES: { [languageId: string]: { host: string; tags: TemplateTag[] } } = {
+    'erb': { host: 'html', tags: ERB_TAGS },
+    'html.erb': { host: 'html', tags: ERB_TAGS },
+    'eruby': { host: 'html', tags: ERB_TAGS },
+    'rhtml': { host: 'html', tags: ERB_TAGS },
+    'jinja': { host: 'html', tags: JINJA_TAGS },
+    'jinja2': { host: 'html', tags: JINJA_TAGS },
+    'j2': { host: 'html', tags: JINJA_TAGS },
+    'django-html': { host: 'html', tags: JINJA_TAGS },
+    'nunjucks': { host: 'html', tags: JINJA_TAGS },
+    'handlebars': { host: 'html', tags: HANDLEBARS_TAGS },
+    'hbs': { host: 'html', tags: HANDLEBARS_TAGS },
+    'mustache': { host: 'html', tags: HANDLEBARS_TAGS }
+};
+
+/**
+ * Languages whose `<script>` and `<style>` elements hold other languages
+ */
+const HTML_HOSTS = ['html', 'xhtml', 'htm', 'vue', 'svelte'];
+
+/**
+ * Languages whose fenced code blocks hold other languages
+ */
+const MARKDOWN_HOSTS = ['markdown', 'md', 'mdx'];
+
+/**
+ * Find the embedded-language regions of a code block
+ * Returns null when the language has no embedded regions or none were found
+ */
+export function findEmbeddedRegions(code: string, language: string): EmbeddedLayout | null {
+    const languageId = language.toLowerCase();
+    let layout: EmbeddedLayout | null = null;
+
+    // Own keys only, so languages named like Object.prototype members are not templates
+    const template = Object.prototype.hasOwnProperty.call(TEMPLATE_LANGUAGES, languageId)
+        ? TEMPLATE_LANGUAGES[languageId]
+        : undefined;
+    if (template) {
+        layout = { hostLanguage: template.host, regions: findTemplateRegions(code, template.tags) };
+    } else if (HTML_HOSTS.includes(languageId)) {
+        layout = { hostLanguage: 'html', regions: findHtmlRegions(code) };
+    } else if (MARKDOWN_HOSTS.includes(languageId)) {
+        layout = { hostLanguage: 'markdown', regions: findFencedRegions(code) };
+    }
+
+    return layout && layout.regions.length > 0 ? layout : null;
+}
+
+/**
+ * Find the contents of `<script>` and `<style>` elements
+ */
+function findHtmlRegions(code: string): EmbeddedRegion[] {
+    const regions: EmbeddedRegion[] = [];
+    const elementPattern = /<(script|style)\b([^>]*)>([\s\S]*?)(?:<\/\1\s*>|$(?![\s\S]))/gi;
+    let match: RegExpExecArray | null;
+
+    while ((match = elementPattern.exec(code)) !== null) {
+        const [whole, tagName, attributes, content] = match;
+        if (!content.trim()) {
+            continue;
+        }
+
+        const language = tagName.toLowerCase() === 'script'
+            ? getScriptLanguage(attributes)
+            : getStyleLanguage(attributes);
+        if (!language) {
+            continue;
+        }
+
+        const start = match.index + whole.indexOf('>') + 1;
+        regions.push({ start, end: start + content.length, language });
+    }
+
+    return regions;
+}
+
+/**
+ * Get the language of a `<script>` element from its attributes
+ * Returns null for script types that do not hold code (e.g. HTML templates)
+ */
+function getScriptLanguage(attributes: string): string | null {
+    const lang = getAttribute(attributes, 'lang');
+    if (lang) {
+        return /^(ts|typescript|tsx)$/i.test(lang) ? 'typescript' : 'javascript';
+    }
+
+    const type = getAttribute(attributes, 'type');
+    if (!type || /(java|ecma)script|module|babel|jsx/i.test(type)) {
+        return 'javascript';
+    }
+    if (/typescript/i.test(type)) {
+        return 'typescript';
+    }
+    if (/json|importmap/i.test(type)) {
+        return 'json';
+    }
+
+    return null;
+}
+
+/**
+ * Get the language of a `<style>` element from its attributes
+ */
+function getStyleLanguage(attributes: string): string {
+    const lang = (getAttribute(attributes, 'lang') || '').toLowerCase();
+    if (lang === 'scss' || lang === 'sass') {
+        return 'scss';
+    }
+    return lang === 'less' ? 'less' : 'css';
+}
+
+/**
+ * Get the value of an attribute from the attribute text of a start tag
+ */
+function getAttribute(attributes: string, name: string): string | null {
+    const match = new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)'|([^\\s>]+))`, 'i').exec(attributes);
+    return match ? (match[1] ?? match[2] ?? match[3]) : null;
+}
+
+/**
+ * Find the contents of fenced code blocks nested in Markdown
+ * The fence lines stay part of the host; an unclosed fence runs to the end of the block
+ */
+function findFencedRegions(code: string): EmbeddedRegion[] {
+    const regions: EmbeddedRegion[] = [];
+    const openingPattern = /^ {0,3}(`{3,}|~{3,})[ \t]*([^\s`{]*)[^\n]*$/gm;
+    let match: RegExpExecArray | null;
+
+    while ((match = openingPattern.exec(code)) !== null) {
+        const fence = match[1];
+        const language = match[2].replace(/^\./, '');
+        const start = match.index + match[0].length + 1;
+        if (start > code.length) {
+            break;
+        }
+
+        const closingPattern = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`, 'gm');
+        closingPattern.lastIndex = start;
+        const closing = closingPattern.exec(code);
+        const end = closing ? Math.max(start, closing.index - 1) : code.length;
+
+        if (language && end > start) {
+            regions.push({ start, end, language });
+        }
+
+        openingPattern.lastIndex = closing ? closing.index + closing[0].length : code.length;
+    }
+
+    return regions;
+}
+
+/**
+ * Find the tags of a template language
+ * Each tag yields regions for its delimiters and one for its body
+ */
+function findTemplateRegions(code: string, tags: TemplateTag[]): EmbeddedRegion[] {
+    const matches: Array<{ index: number; match: RegExpExecArray; tag: TemplateTag }> = [];
+
+    for (const tag of tags) {
+        tag.pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = tag.pattern.exec(code)) !== null) {
+            matches.push({ index: match.index, match, tag });
+        }
+    }
+
+    // Earlier tags win; among tags at the same position the first listed wins
+    matches.sort((a, b) => a.index - b.index);
+
+    const regions: EmbeddedRegion[] = [];
+    let lastEnd = 0;
+
+    for (const { index, match, tag } of matches) {
+        if (index < lastEnd) {
+            continue;
+        }
+
+        const [whole, open, body, close] = match;
+        const bodyStart = index + open.length;
+        const bodyEnd = bodyStart + body.length;
+        const isComment = !tag.language || (tag.commentMarker !== undefined && body.startsWith(tag.commentMarker));
+
+        if (isComment) {
+            regions.push({ start: index, end: index + whole.length, scope: TEMPLATE_COMMENT_SCOPE });
+        } else {
+            regions.push({ start: index, end: bodyStart, scope: TEMPLATE_DELIMITER_SCOPE });
+            if (body.length > 0) {
+                regions.push({ start: bodyStart, end: bodyEnd, language: tag.language });
+            }
+            regions.push({ start: bodyEnd, end: index + whole.length, scope: TEMPLATE_DELIMITER_SCOPE });
+        }
+
+        lastEnd = index + whole.length;
+    }
+
+    return regions;
+}
+
+/**
+ * Blank out embedded regions so the host can be tokenized without them
+ * Line breaks are kept so line-based host state and offsets stay intact
+ */
+export function maskEmbeddedRegions(code: string, regions: EmbeddedRegion[]): string {
+    let masked = '';
+    let position = 0;
+
+    for (const region of regions) {
+        masked += code.substring(position, region.start);
+        masked += code.substring(region.start, region.end).replace(/[^\n]/g, ' ');
+        position = region.end;
+    }
+
+    return masked + code.substring(position);
+}
+
+/**
+ * Merge host tokens with the tokens of embedded regions into one token list
+ * Host tokens are clipped to the text outside the regions; region tokens are moved to block offsets
+ */
+export function mergeEmbeddedTokens(
+    code: string,
+    hostTokens: Token[],
+    embedded: EmbeddedRegionTokens[]
+): Token[] {
+    const regions = embedded.map(entry => entry.region);
+    const tokens: Token[] = [];
+
+    for (const token of hostTokens) {
+        let start = token.startIndex;
+
+        for (const region of regions) {
+            if (region.end <= start || region.start >= token.endIndex) {
+                continue;
+            }
+            if (region.start > start) {
+                tokens.push(sliceToken(code, token, start, region.start));
+            }
+            start = Math.max(start, region.end);
+        }
+
+        if (start < token.endIndex) {
+            tokens.push(sliceToken(code, token, start, token.endIndex));
+        }
+    }
+
+    for (const { region, tokens: regionTokens } of embedded) {
+        for (const token of regionTokens) {
+            tokens.push({
+                ...token,
+                startIndex: token.startIndex + region.start,
+                endIndex: token.endIndex + region.start
+            });
+        }
+    }
+
+    return tokens.sort((a, b) => a.startIndex - b.startIndex);
+}
+
+/**
+ * Copy a token restricted to a range of the block
+ */
+function sliceToken(code: string, token: Token, start: number, end: number): Token {
+    return {
+        ...token,
+        text: code.substring(start, end),
+        startIndex: start,
+        endIndex: end
+    };
+}
+
+/**
+ * Join the code of line segments with line breaks so it can be tokenized on its own
+ */
+export function joinLineSegments(code: string, segments: LineSegment[]): string {
+    return segments.map(segment => code.substring(segment.start, segment.end)).join('\n');
+}
+
+/**
+ * Move tokens of the code returned by joinLineSegments to offsets of the block
+ * Tokens spanning several segments are split at the segment ends
+ */
+export function mapJoinedSegmentTokens(code: string, segments: LineSegment[], tokens: Token[]): Token[] {
+    const mapped: Token[] = [];
+    const joined: Array<{ joinedStart: number; joinedEnd: number; start: number }> = [];
+    let joinedStart = 0;
+
+    for (const segment of segments) {
+        const length = segment.end - segment.start;
+        joined.push({ joinedStart, joinedEnd: joinedStart + length, start: segment.start });
+        joinedStart += length + 1;
+    }
+
+    let segmentIndex = 0;
+    for (const token of tokens) {
+        while (segmentIndex < joined.length && joined[segmentIndex].joinedEnd <= token.startIndex) {
+            segmentIndex++;
+        }
+
+        for (let i = segmentIndex; i < joined.length && joined[i].joinedStart < token.endIndex; i++) {
+            const segment = joined[i];
+            const start = Math.max(token.startIndex, segment.joinedStart);
+            const end = Math.min(token.endIndex, segment.joinedEnd);
+            if (start >= end) {
+                continue;
+            }
+
+            const blockStart = segment.start + start - segment.joinedStart;
+            mapped.push(sliceToken(code, token, blockStart, blockStart + end - start));
+        }
+    }
+
+    return mapped;
+}
@@ -0,0 +1,99 @@
+import { ExtensionConfig } from './configurationManager';
+
+/**
+ * Settings of a single block, given after the language in its fence info string,
+ * e.g. ```bash theme="GitHub Light" border=false copy=false
+ */
+export interface FenceAttributes {
+    theme?: string;
+    border?: boolean;
+    copy?: boolean;
+}
+
+/**
+ * Attribute the markdown-it plugin sets on the code element of fences with attributes
+ */
+export const FENCE_ATTRIBUTES_ATTRIBUTE = 'data-mcbh-attributes';
+
+/**
+ * `key=value` pairs; values with spaces are quoted
+ */
+const ATTRIBUTE_PATTERN = /([\w-]+)=(?:"([^"]*)"|'([^']*)'|([^\s}]+))/g;
+
+/**
+ * Shape of the markdown-it instance passed to `extendMarkdownIt`, as far as the plugin uses it
+ */
+interface MarkdownIt {
+    core: {
+        ruler: {
+            push(name: string, rule: (state: { tokens: FenceToken[] }) => void): void;
+        };
+    };
+}
+
+interface FenceToken {
+    type: string;
+    info: string;
+    attrSet(name: string, value: string): void;
+}
+
+/**
+ * Get the part of a fence info string after the language
+ */
+export function getFenceAttributeText(info: string): string {
+    const match = /^\s*\S*\s+(.*)$/.exec(info);
+    return match ? match[1].trim() : '';
+}
+
+/**
+ * Parse the attributes of a fence, optionally wrapped in braces (`{theme=Dracula}`)
+ * Unknown keys and values that are not `true` or `false` for switches are ignored
+ */
+export function parseFenceAttributes(text: string): FenceAttributes {
+    const attributes: FenceAttributes = {};
+
+    ATTRIBUTE_PATTERN.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = ATTRIBUTE_PATTERN.exec(text)) !== null) {
+        const key = match[1].toLowerCase();
+        const value = match[2] ?? match[3] ?? match[4];
+
+        if (key === 'theme' && value.trim()) {
+            attributes.theme = value.trim();
+        } else if ((key === 'border' || key === 'copy') && (value === 'true' || value === 'false')) {
+            attributes[key] = value === 'true';
+        }
+    }
+
+    return attributes;
+}
+
+/**
+ * Get the configuration of a block: the extension configuration with the block's attributes on top
+ */
+export function applyFenceAttributes(config: ExtensionConfig, attributes: FenceAttributes): ExtensionConfig {
+    return {
+        ...config,
+        previewTheme: attributes.theme ?? config.previewTheme,
+        showBorder: attributes.border ?? config.showBorder,
+        showCopyButton: attributes.copy ?? config.showCopyButton
+    };
+}
+
+/**
+ * markdown-it plugin keeping the attributes of fences on their code element, where the preview
+ * script reads them; the rendered info string only keeps the language
+ */
+export function fenceAttributesPlugin(md: MarkdownIt): void {
+    md.core.ruler.push('mcbh_fence_attributes', state => {
+        for (const token of state.tokens) {
+            if (token.type !== 'fence') {
+                continue;
+            }
+            const text = getFenceAttributeText(token.info);
+            if (text) {
+                token.attrSet(FENCE_ATTRIBUTES_ATTRIBUTE, text);
+            }
+        }
+    });
+}
@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { GrammarContribution, GrammarLocator, GrammarSnapshot } from './textMateEngine';
+
+/**
+ * Shape of a `contributes.languages` entry in an extension manifest
+ */
+interface LanguageManifestEntry {
+    id?: string;
+    aliases?: string[];
+    extensions?: string[];
+    filenames?: string[];
+}
+
+/**
+ * Shape of a `contributes.grammars` entry in an extension manifest
+ */
+interface GrammarManifestEntry {
+    language?: string;
+    scopeName?: string;
+    path?: string;
+    embeddedLanguages?: { [scopeName: string]: string };
+    injectTo?: string[];
+}
+
+/**
+ * GrammarRegistry - Indexes the languages and TextMate grammars contributed by installed extensions
+ * Resolves fence identifiers (ids, aliases, file extensions, filenames) to language ids and
+ * locates grammar files by language id or scope name. Refreshes when extensions change.
+ */
+export class GrammarRegistry implements GrammarLocator {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    public readonly onDidChange = this._onDidChange.event;
+
+    private languageIds: Set<string> = new Set();
+    private languageAliases: Map<string, string> = new Map();
+    private languageExtensions: Map<string, string> = new Map();
+    private languageFilenames: Map<string, string> = new Map();
+    private fileExtensionsByLanguage: Map<string, string> = new Map();
+    private grammarsByLanguage: Map<string, GrammarContribution> = new Map();
+    private grammarsByScope: Map<string, GrammarContribution> = new Map();
+    private injections: Map<string, string[]> = new Map();
+    private disposables: vscode.Disposable[] = [];
+
+    constructor() {
+        this.scanExtensions();
+
+        // Rescan when extensions are installed, removed, enabled or disabled
+        this.disposables.push(
+            vscode.extensions.onDidChange(() => {
+                this.scanExtensions();
+                this._onDidChange.fire();
+            })
+        );
+    }
+
+    /**
+     * Resolve a fence identifier to a contributed language id
+     * Checks language ids, aliases, file extensions and filenames in that order
+     */
+    public resolveLanguage(fenceId: string): string | undefined {
+        const id = fenceId.trim().toLowerCase();
+        if (!id) {
+            return undefined;
+        }
+
+        if (this.languageIds.has(id)) {
+            return id;
+        }
+
+        return this.languageAliases.get(id)
+            || this.languageExtensions.get(id.replace(/^\./, ''))
+            || this.languageFilenames.get(id);
+    }
+
+    /**
+     * Check if a language id is contributed by an installed extension
+     */
+    public hasLanguage(languageId: string): boolean {
+        return this.languageIds.has(languageId);
+    }
+
+    /**
+     * Get the scope name of the grammar contributed for a language id
+     */
+    public getScopeName(languageId: string): string | undefined {
+        return this.grammarsByLanguage.get(languageId)?.scopeName;
+    }
+
+    /**
+     * Get the primary file extension (including the dot) of a language id
+     */
+    public getFileExtension(languageId: string): string | undefined {
+        return this.fileExtensionsByLanguage.get(languageId);
+    }
+
+    /**
+     * Get the grammar contributed for a language id
+     */
+    public getGrammarForLanguage(languageId: string): GrammarContribution | undefined {
+        return this.grammarsByLanguage.get(languageId);
+    }
+
+    /**
+     * Get the grammar contributed for a scope name
+     */
+    public getGrammarForScope(scopeName: string): GrammarContribution | undefined {
+        return this.grammarsByScope.get(scopeName);
+    }
+
+    /**
+     * Get the scope names of grammars injected into a scope
+     */
+    public getInjections(scopeName: string): string[] {
+        return this.injections.get(scopeName) || [];
+    }
+
+    /**
+     * Get a serializable copy of the grammar index
+     */
+    public getSnapshot(): GrammarSnapshot {
+        const languages: { [languageId: string]: string } = {};
+        for (const [languageId, grammar] of this.grammarsByLanguage) {
+            languages[languageId] = grammar.scopeName;
+        }
+
+        const injections: { [scopeName: string]: string[] } = {};
+        for (const [scopeName, injected] of this.injections) {
+            injections[scopeName] = [...injected];
+        }
+
+        return {
+            grammars: Array.from(this.grammarsByScope.values()),
+            languages,
+            injections
+        };
+    }
+
+    /**
+     * Scan all installed extensions for language and grammar contributions
+     */
+    private scanExtensions(): void {
+        this.languageIds.clear();
+        this.languageAliases.clear();
+        this.languageExtensions.clear();
+        this.languageFilenames.clear();
+        this.fileExtensionsByLanguage.clear();
+        this.grammarsByLanguage.clear();
+        this.grammarsByScope.clear();
+        this.injections.clear();
+
+        for (const extension of vscode.extensions.all) {
+            const contributes = extension.packageJSON?.contributes;
+            if (!contributes) {
+                continue;
+            }
+
+            const languages: LanguageManifestEntry[] = Array.isArray(contributes.languages) ? contributes.languages : [];
+            for (const entry of languages) {
+                this.registerLanguage(entry);
+            }
+
+            const grammars: GrammarManifestEntry[] = Array.isArray(contributes.grammars) ? contributes.grammars : [];
+            for (const entry of grammars) {
+                this.registerGrammar(entry, extension.extensionPath);
+            }
+        }
+    }
+
+    /**
+     * Index a language contribution
+     * The first extension to claim an alias, extension or filename wins
+     */
+    private registerLanguage(entry: LanguageManifestEntry): void {
+        if (!entry.id) {
+            return;
+        }
+
+        const languageId = entry.id;
+        this.languageIds.add(languageId);
+
+        for (const alias of entry.aliases || []) {
+            this.setIfAbsent(this.languageAliases, alias.toLowerCase(), languageId);
+        }
+
+        for (const fileExtension of entry.extensions || []) {
+            this.setIfAbsent(this.languageExtensions, fileExtension.toLowerCase().replace(/^\./, ''), languageId);
+            this.setIfAbsent(this.fileExtensionsByLanguage, languageId, fileExtension);
+        }
+
+        for (const filename of entry.filenames || []) {
+            this.setIfAbsent(this.languageFilenames, filename.toLowerCase(), languageId);
+        }
+    }
+
+    /**
+     * Index a grammar contribution
+     */
+    private registerGrammar(entry: GrammarManifestEntry, extensionPath: string): void {
+        if (!entry.scopeName || !entry.path) {
+            return;
+        }
+
+        const contribution: GrammarContribution = {
+            scopeName: entry.scopeName,
+            path: path.join(extensionPath, entry.path),
+            language: entry.language,
+            embeddedLanguages: entry.embeddedLanguages,
+            injectTo: entry.injectTo
+        };
+
+        this.grammarsByScope.set(contribution.scopeName, contribution);
+
+        if (contribution.language) {
+            this.setIfAbsent(this.grammarsByLanguage, contribution.language, contribution);
+        }
+
+        for (const target of contribution.injectTo || []) {
+            const injected = this.injections.get(target) || [];
+            injected.push(contribution.scopeName);
+            this.injections.set(target, injected);
+        }
+    }
+
+    /**
+     * Set a map entry only if the key is not already present
+     */
+    private setIfAbsent<T>(map: Map<string, T>, key: string, value: T): void {
+        if (!map.has(key)) {
+            map.set(key, value);
+        }
+    }
+
+    /**
+     * Dispose resources
+     */
+    public dispose(): void {
+        this._onDidChange.dispose();
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+    }
+}
@@ -0,0 +1,711 @@
+/**
+ * A construct that may span several lines (block comment, template literal, heredoc, ...)
+ * `end` may reference capture groups of `begin` as $1..$9
+ */
+export interface MultiLineConstruct {
+    begin: string;
+    end: string;
+    type: string;
+    escape?: boolean;
+    bodyStartsNextLine?: boolean;
+}
+
+/**
+ * Language definition used by the pattern-based tokenization tiers
+ */
+export interface LanguageDefinition {
+    keywords: string[];
+    constants: string[];
+    types: string[];
+    lineComments: string[];
+    blockComments: Array<[string, string]>;
+    multiLineConstructs: MultiLineConstruct[];
+    stringDelimiters: string[];
+    stringEscape: 'backslash' | 'doubled' | 'backtick';
+    numberPattern: string;
+    caseInsensitive: boolean;
+    identifierPattern: string;
+    extraPatterns: Array<{ regex: string; type: string }>;
+}
+
+/**
+ * Number formats shared by several languages
+ */
+const DECIMAL_NUMBER = '\\b\\d+(?:\\.\\d+)?\\b';
+const C_LIKE_NUMBER = '\\b(?:0[xX][0-9a-fA-F_]+|0[bB][01_]+|\\d[\\d_]*(?:\\.[\\d_]+)?(?:[eE][+-]?\\d+)?)[uUlLfFdDmM]*\\b';
+const JS_NUMBER = '\\b(?:0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\\d[\\d_]*(?:\\.[\\d_]+)?(?:[eE][+-]?\\d+)?)n?\\b';
+const PYTHON_NUMBER = '\\b(?:0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\\d[\\d_]*(?:\\.[\\d_]+)?(?:[eE][+-]?\\d+)?)[jJ]?\\b';
+const GO_NUMBER = '\\b(?:0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\\d[\\d_]*(?:\\.[\\d_]+)?(?:[eE][+-]?\\d+)?)i?\\b';
+const RUST_NUMBER = '\\b(?:0[xX][0-9a-fA-F_]+|0[bB][01_]+|0[oO][0-7_]+|\\d[\\d_]*(?:\\.[\\d_]+)?(?:[eE][+-]?\\d+)?)(?:[iu](?:8|16|32|64|128|size)|f32|f64)?\\b';
+
+/**
+ * Multi-line constructs shared by several languages
+ */
+const TEMPLATE_LITERAL: MultiLineConstruct = { begin: '`', end: '`', type: 'string', escape: true };
+const TRIPLE_QUOTED_STRING: MultiLineConstruct = { begin: '("""|\'\'\')', end: '$1', type: 'string', escape: true };
+const SHELL_HEREDOC: MultiLineConstruct = {
+    begin: '(?<!<)<<-?(?!<)\\s*([\'"]?)([a-zA-Z_][a-zA-Z0-9_]*)\\1',
+    end: '^\\s*$2\\s*$',
+    type: 'string',
+    bodyStartsNextLine: true
+};
+
+const DEFAULT_IDENTIFIER = '[a-zA-Z_$][a-zA-Z0-9_$]*';
+const DECORATOR_PATTERN = { regex: '@[a-zA-Z_][\\w.]*', type: 'function' };
+
+/**
+ * Build a language definition from a partial description
+ */
+function define(definition: Partial<LanguageDefinition> & { keywords: string[] }): LanguageDefinition {
+    return {
+        constants: [],
+        types: [],
+        lineComments: [],
+        blockComments: [],
+        multiLineConstructs: [],
+        stringDelimiters: ['"', "'"],
+        stringEscape: 'backslash',
+        numberPattern: DECIMAL_NUMBER,
+        caseInsensitive: false,
+        identifierPattern: DEFAULT_IDENTIFIER,
+        extraPatterns: [],
+        ...definition
+    };
+}
+
+/**
+ * Generic definition used for languages without a specific definition
+ * Matches the historical language-agnostic behavior of the pattern tiers
+ */
+export const GENERIC_DEFINITION: LanguageDefinition = define({
+    keywords: [
+        'function', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case',
+        'break', 'continue', 'const', 'let', 'var', 'class', 'interface', 'enum',
+        'type', 'import', 'export', 'from', 'as', 'default', 'async', 'await',
+        'try', 'catch', 'finally', 'throw', 'new', 'this', 'super', 'extends',
+        'implements', 'public', 'private', 'protected', 'static', 'readonly',
+        'def', 'lambda', 'yield', 'raise', 'with', 'pass', 'assert', 'global',
+        'nonlocal', 'in', 'is', 'not', 'and', 'or', 'true', 'false', 'null',
+        'undefined', 'void', 'any', 'boolean', 'number', 'string', 'object'
+    ],
+    lineComments: ['//', '#'],
+    blockComments: [['/*', '*/']],
+    stringDelimiters: ['"', "'", '`'],
+    numberPattern: '\\b\\d+\\.?\\d*\\b'
+});
+
+const JAVASCRIPT_DEFINITION = define({
+    keywords: [
+        'async', 'await', 'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger',
+        'default', 'delete', 'do', 'else', 'export', 'extends', 'finally', 'for', 'from',
+        'function', 'get', 'if', 'import', 'in', 'instanceof', 'let', 'new', 'of', 'return',
+        'set', 'static', 'super', 'switch', 'this', 'throw', 'try', 'typeof', 'var', 'void',
+        'while', 'with', 'yield'
+    ],
+    constants: ['true', 'false', 'null', 'undefined', 'NaN', 'Infinity'],
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    multiLineConstructs: [TEMPLATE_LITERAL],
+    stringDelimiters: ['"', "'", '`'],
+    numberPattern: JS_NUMBER,
+    extraPatterns: [DECORATOR_PATTERN]
+});
+
+const TYPESCRIPT_DEFINITION = define({
+    ...JAVASCRIPT_DEFINITION,
+    keywords: [
+        ...JAVASCRIPT_DEFINITION.keywords,
+        'abstract', 'as', 'declare', 'enum', 'implements', 'infer', 'interface', 'is',
+        'keyof', 'module', 'namespace', 'override', 'private', 'protected', 'public',
+        'readonly', 'satisfies', 'type', 'unique'
+    ],
+    types: ['any', 'bigint', 'boolean', 'never', 'number', 'object', 'string', 'symbol', 'unknown']
+});
+
+const PYTHON_DEFINITION = define({
+    keywords: [
+        'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+        'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in',
+        'is', 'lambda', 'match', 'case', 'nonlocal', 'not', 'or', 'pass', 'raise', 'return',
+        'try', 'while', 'with', 'yield'
+    ],
+    constants: ['True', 'False', 'None', 'self', 'cls'],
+    types: ['int', 'float', 'str', 'bool', 'bytes', 'list', 'dict', 'set', 'tuple', 'object'],
+    lineComments: ['#'],
+    multiLineConstructs: [
+        { ...TRIPLE_QUOTED_STRING, begin: '[rRbBuUfF]{0,2}("""|\'\'\')' }
+    ],
+    numberPattern: PYTHON_NUMBER,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*',
+    extraPatterns: [DECORATOR_PATTERN]
+});
+
+const JAVA_DEFINITION = define({
+    keywords: [
+        'abstract', 'assert', 'break', 'case', 'catch', 'class', 'continue', 'default', 'do',
+        'else', 'enum', 'extends', 'final', 'finally', 'for', 'if', 'implements', 'import',
+        'instanceof', 'interface', 'native', 'new', 'package', 'permits', 'private',
+        'protected', 'public', 'record', 'return', 'sealed', 'static', 'super', 'switch',
+        'synchronized', 'this', 'throw', 'throws', 'transient', 'try', 'var', 'volatile',
+        'while', 'yield'
+    ],
+    constants: ['true', 'false', 'null'],
+    types: ['boolean', 'byte', 'char', 'double', 'float', 'int', 'long', 'short', 'void', 'String'],
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    multiLineConstructs: [{ begin: '"""', end: '"""', type: 'string', escape: true }],
+    numberPattern: C_LIKE_NUMBER,
+    extraPatterns: [DECORATOR_PATTERN]
+});
+
+const C_DEFINITION = define({
+    keywords: [
+        'auto', 'break', 'case', 'const', 'continue', 'default', 'do', 'else', 'enum', 'extern',
+        'for', 'goto', 'if', 'inline', 'register', 'restrict', 'return', 'sizeof', 'static',
+        'struct', 'switch', 'typedef', 'union', 'volatile', 'while'
+    ],
+    constants: ['NULL', 'true', 'false'],
+    types: [
+        'char', 'double', 'float', 'int', 'long', 'short', 'signed', 'unsigned', 'void',
+        'bool', 'size_t', 'int8_t', 'int16_t', 'int32_t', 'int64_t', 'uint8_t', 'uint16_t',
+        'uint32_t', 'uint64_t'
+    ],
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    numberPattern: C_LIKE_NUMBER,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*',
+    extraPatterns: [{ regex: '#\\s*[a-zA-Z_]+', type: 'keyword' }]
+});
+
+const CPP_DEFINITION = define({
+    ...C_DEFINITION,
+    keywords: [
+        ...C_DEFINITION.keywords,
+        'alignas', 'catch', 'class', 'constexpr', 'consteval', 'const_cast', 'decltype',
+        'delete', 'dynamic_cast', 'explicit', 'export', 'final', 'friend', 'mutable',
+        'namespace', 'new', 'noexcept', 'operator', 'override', 'private', 'protected',
+        'public', 'reinterpret_cast', 'static_assert', 'static_cast', 'template', 'this',
+        'throw', 'try', 'typename', 'using', 'virtual'
+    ],
+    constants: ['nullptr', 'true', 'false', 'NULL'],
+    multiLineConstructs: [{ begin: '(?:u8|[uUL])?R"([^(\\s\\\\]{0,16})\\(', end: '\\)$1"', type: 'string' }],
+    types: [...C_DEFINITION.types, 'auto', 'std', 'string', 'wchar_t']
+});
+
+const CSHARP_DEFINITION = define({
+    keywords: [
+        'abstract', 'as', 'async', 'await', 'base', 'break', 'case', 'catch', 'checked', 'class',
+        'const', 'continue', 'default', 'delegate', 'do', 'else', 'enum', 'event', 'explicit',
+        'extern', 'finally', 'fixed', 'for', 'foreach', 'get', 'goto', 'if', 'implicit', 'in',
+        'init', 'interface', 'internal', 'is', 'lock', 'namespace', 'new', 'operator', 'out',
+        'override', 'params', 'partial', 'private', 'protected', 'public', 'readonly', 'record',
+        'ref', 'return', 'sealed', 'set', 'sizeof', 'stackalloc', 'static', 'struct', 'switch',
+        'this', 'throw', 'try', 'typeof', 'unchecked', 'unsafe', 'using', 'var', 'virtual',
+        'volatile', 'when', 'where', 'while', 'yield'
+    ],
+    constants: ['true', 'false', 'null'],
+    types: [
+        'bool', 'byte', 'char', 'decimal', 'double', 'dynamic', 'float', 'int', 'long',
+        'object', 'sbyte', 'short', 'string', 'uint', 'ulong', 'ushort', 'void'
+    ],
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    multiLineConstructs: [
+        { begin: '\\$?("{3,})', end: '$1', type: 'string' },
+        { begin: '\\$?@"|@\\$"', end: '"(?!")', type: 'string' }
+    ],
+    numberPattern: C_LIKE_NUMBER,
+    identifierPattern: '@?[a-zA-Z_][a-zA-Z0-9_]*',
+    extraPatterns: [{ regex: '#\\s*[a-zA-Z]+', type: 'keyword' }]
+});
+
+const GO_DEFINITION = define({
+    keywords: [
+        'break', 'case', 'chan', 'const', 'continue', 'default', 'defer', 'else', 'fallthrough',
+        'for', 'func', 'go', 'goto', 'if', 'import', 'interface', 'map', 'package', 'range',
+        'return', 'select', 'struct', 'switch', 'type', 'var'
+    ],
+    constants: ['true', 'false', 'nil', 'iota'],
+    types: [
+        'bool', 'byte', 'complex64', 'complex128', 'error', 'float32', 'float64', 'int', 'int8',
+        'int16', 'int32', 'int64', 'rune', 'string', 'uint', 'uint8', 'uint16', 'uint32',
+        'uint64', 'uintptr', 'any'
+    ],
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    multiLineConstructs: [{ begin: '`', end: '`', type: 'string' }],
+    stringDelimiters: ['"', "'", '`'],
+    numberPattern: GO_NUMBER,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*'
+});
+
+const RUST_DEFINITION = define({
+    keywords: [
+        'as', 'async', 'await', 'break', 'const', 'continue', 'crate', 'dyn', 'else', 'enum',
+        'extern', 'fn', 'for', 'if', 'impl', 'in', 'let', 'loop', 'match', 'mod', 'move', 'mut',
+        'pub', 'ref', 'return', 'self', 'Self', 'static', 'struct', 'super', 'trait', 'type',
+        'unsafe', 'use', 'where', 'while'
+    ],
+    constants: ['true', 'false', 'None', 'Some', 'Ok', 'Err'],
+    types: [
+        'bool', 'char', 'f32', 'f64', 'i8', 'i16', 'i32', 'i64', 'i128', 'isize', 'str', 'u8',
+        'u16', 'u32', 'u64', 'u128', 'usize', 'String', 'Vec', 'Option', 'Result', 'Box'
+    ],
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    multiLineConstructs: [
+        { begin: 'b?r(#*)"', end: '"$1', type: 'string' },
+        { begin: 'b?"', end: '"', type: 'string', escape: true }
+    ],
+    stringDelimiters: ['"'],
+    numberPattern: RUST_NUMBER,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*',
+    extraPatterns: [
+        { regex: "'[a-zA-Z_][a-zA-Z0-9_]*\\b(?!')", type: 'type' },
+        { regex: "'(?:[^'\\\\]|\\\\.)'", type: 'string' },
+        { regex: '[a-zA-Z_][a-zA-Z0-9_]*!', type: 'function' },
+        { regex: '#!?\\[[^\\]]*\\]', type: 'function' }
+    ]
+});
+
+const RUBY_DEFINITION = define({
+    keywords: [
+        'alias', 'and', 'begin', 'break', 'case', 'class', 'def', 'defined?', 'do', 'else',
+        'elsif', 'end', 'ensure', 'for', 'if', 'in', 'module', 'next', 'not', 'or', 'redo',
+        'rescue', 'retry', 'return', 'self', 'super', 'then', 'undef', 'unless', 'until',
+        'when', 'while', 'yield', 'require', 'include', 'attr_accessor', 'attr_reader'
+    ],
+    constants: ['true', 'false', 'nil'],
+    lineComments: ['#'],
+    blockComments: [['=begin', '=end']],
+    multiLineConstructs: [{
+        begin: '<<[~-]?([\'"]?)([A-Z_][A-Z0-9_]*)\\1',
+        end: '^\\s*$2\\s*$',
+        type: 'string',
+        bodyStartsNextLine: true
+    }],
+    stringDelimiters: ['"', "'", '`'],
+    numberPattern: C_LIKE_NUMBER,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*[?!]?',
+    extraPatterns: [
+        { regex: ':[a-zA-Z_][a-zA-Z0-9_]*[?!]?', type: 'constant' },
+        { regex: '@{1,2}[a-zA-Z_][a-zA-Z0-9_]*', type: 'variable' }
+    ]
+});
+
+const PHP_DEFINITION = define({
+    keywords: [
+        'abstract', 'and', 'as', 'break', 'case', 'catch', 'class', 'clone', 'const', 'continue',
+        'declare', 'default', 'do', 'echo', 'else', 'elseif', 'enum', 'extends', 'final',
+        'finally', 'fn', 'for', 'foreach', 'function', 'global', 'if', 'implements', 'include',
+        'include_once', 'instanceof', 'interface', 'match', 'namespace', 'new', 'or', 'print',
+        'private', 'protected', 'public', 'readonly', 'require', 'require_once', 'return',
+        'static', 'switch', 'throw', 'trait', 'try', 'use', 'while', 'yield'
+    ],
+    constants: ['true', 'false', 'null', 'TRUE', 'FALSE', 'NULL'],
+    types: ['array', 'bool', 'callable', 'float', 'int', 'iterable', 'mixed', 'object', 'string', 'void'],
+    lineComments: ['//', '#'],
+    blockComments: [['/*', '*/']],
+    multiLineConstructs: [{
+        begin: '<<<\\s*([\'"]?)([a-zA-Z_][a-zA-Z0-9_]*)\\1',
+        end: '^\\s*$2\\b',
+        type: 'string',
+        bodyStartsNextLine: true
+    }],
+    numberPattern: C_LIKE_NUMBER,
+    extraPatterns: [
+        { regex: '\\$[a-zA-Z_][a-zA-Z0-9_]*', type: 'variable' },
+        { regex: '<\\?php|\\?>', type: 'keyword' }
+    ]
+});
+
+const SWIFT_DEFINITION = define({
+    keywords: [
+        'actor', 'as', 'associatedtype', 'async', 'await', 'break', 'case', 'catch', 'class',
+        'continue', 'default', 'defer', 'deinit', 'do', 'else', 'enum', 'extension',
+        'fallthrough', 'fileprivate', 'for', 'func', 'guard', 'if', 'import', 'in', 'init',
+        'inout', 'internal', 'is', 'let', 'mutating', 'open', 'operator', 'override', 'private',
+        'protocol', 'public', 'repeat', 'rethrows', 'return', 'self', 'Self', 'some', 'static',
+        'struct', 'subscript', 'super', 'switch', 'throw', 'throws', 'try', 'typealias', 'var',
+        'where', 'while'
+    ],
+    constants: ['true', 'false', 'nil'],
+    types: ['Any', 'Bool', 'Character', 'Double', 'Float', 'Int', 'String', 'Void'],
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    multiLineConstructs: [{ begin: '(#*)"""', end: '"""$1', type: 'string', escape: true }],
+    stringDelimiters: ['"'],
+    numberPattern: C_LIKE_NUMBER,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*',
+    extraPatterns: [DECORATOR_PATTERN, { regex: '#[a-zA-Z]+', type: 'keyword' }]
+});
+
+const KOTLIN_DEFINITION = define({
+    keywords: [
+        'abstract', 'annotation', 'as', 'break', 'by', 'catch', 'class', 'companion', 'const',
+        'constructor', 'continue', 'data', 'do', 'else', 'enum', 'external', 'final', 'finally',
+        'for', 'fun', 'if', 'import', 'in', 'infix', 'init', 'inline', 'inner', 'interface',
+        'internal', 'is', 'lateinit', 'object', 'open', 'operator', 'out', 'override',
+        'package', 'private', 'protected', 'public', 'reified', 'return', 'sealed', 'super',
+        'suspend', 'this', 'throw', 'try', 'typealias', 'val', 'var', 'vararg', 'when', 'where',
+        'while'
+    ],
+    constants: ['true', 'false', 'null'],
+    types: ['Any', 'Boolean', 'Byte', 'Char', 'Double', 'Float', 'Int', 'Long', 'Nothing', 'Short', 'String', 'Unit'],
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    multiLineConstructs: [{ begin: '"""', end: '"""', type: 'string' }],
+    stringDelimiters: ['"', "'"],
+    numberPattern: C_LIKE_NUMBER,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*',
+    extraPatterns: [DECORATOR_PATTERN]
+});
+
+const SHELL_DEFINITION = define({
+    keywords: [
+        'if', 'then', 'else', 'elif', 'fi', 'for', 'while', 'until', 'do', 'done', 'case',
+        'esac', 'in', 'function', 'return', 'exit', 'local', 'export', 'readonly', 'declare',
+        'source', 'alias', 'unset', 'shift', 'break', 'continue', 'select', 'time'
+    ],
+    constants: ['true', 'false'],
+    types: [
+        'echo', 'printf', 'read', 'cd', 'pwd', 'test', 'eval', 'exec', 'set', 'trap', 'wait',
+        'kill', 'sudo'
+    ],
+    lineComments: ['#'],
+    multiLineConstructs: [
+        SHELL_HEREDOC,
+        { begin: '"', end: '"', type: 'string', escape: true },
+        { begin: "'", end: "'", type: 'string' }
+    ],
+    stringDelimiters: ['"', "'", '`'],
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_-]*',
+    extraPatterns: [
+        { regex: '\\$\\{[^}]*\\}', type: 'variable' },
+        { regex: '\\$(?:[a-zA-Z_][a-zA-Z0-9_]*|[0-9@#?$!*-])', type: 'variable' },
+        { regex: '(?<=\\s|^)--?[a-zA-Z][\\w-]*', type: 'parameter' }
+    ]
+});
+
+const POWERSHELL_DEFINITION = define({
+    keywords: [
+        'begin', 'break', 'catch', 'class', 'continue', 'data', 'do', 'dynamicparam', 'else',
+        'elseif', 'end', 'enum', 'exit', 'filter', 'finally', 'for', 'foreach', 'function', 'if',
+        'in', 'param', 'process', 'return', 'switch', 'throw', 'trap', 'try', 'until', 'using',
+        'while'
+    ],
+    constants: ['$true', '$false', '$null'],
+    lineComments: ['#'],
+    blockComments: [['<#', '#>']],
+    multiLineConstructs: [{ begin: '@(["\'])$', end: '^$1@', type: 'string' }],
+    stringEscape: 'backtick',
+    caseInsensitive: true,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*',
+    extraPatterns: [
+        { regex: '\\$(?:true|false|null)\\b', type: 'constant' },
+        { regex: '\\$[a-zA-Z_][a-zA-Z0-9_:]*', type: 'variable' },
+        { regex: '\\b[A-Z][a-zA-Z]+-[A-Z][a-zA-Z]+\\b', type: 'function' },
+        { regex: '-[a-zA-Z][a-zA-Z]*', type: 'parameter' }
+    ]
+});
+
+const SQL_DEFINITION = define({
+    keywords: [
+        'add', 'all', 'alter', 'and', 'as', 'asc', 'begin', 'between', 'by', 'case', 'check',
+        'column', 'commit', 'constraint', 'create', 'cross', 'database', 'default', 'delete',
+        'desc', 'distinct', 'drop', 'else', 'end', 'exists', 'foreign', 'from', 'full', 'group',
+        'having', 'if', 'in', 'index', 'inner', 'insert', 'into', 'is', 'join', 'key', 'left',
+        'like', 'limit', 'not', 'offset', 'on', 'or', 'order', 'outer', 'primary', 'references',
+        'returning', 'right', 'rollback', 'select', 'set', 'table', 'then', 'transaction',
+        'union', 'unique', 'update', 'values', 'view', 'when', 'where', 'with'
+    ],
+    constants: ['null', 'true', 'false'],
+    types: [
+        'bigint', 'bit', 'blob', 'boolean', 'char', 'date', 'datetime', 'decimal', 'float',
+        'int', 'integer', 'json', 'numeric', 'real', 'serial', 'smallint', 'text', 'time',
+        'timestamp', 'uuid', 'varchar'
+    ],
+    lineComments: ['--'],
+    blockComments: [['/*', '*/']],
+    stringDelimiters: ["'"],
+    stringEscape: 'doubled',
+    caseInsensitive: true,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*',
+    extraPatterns: [
+        { regex: '"(?:[^"]|"")*"', type: 'variable' },
+        { regex: '`[^`]*`', type: 'variable' },
+        { regex: '[:@$][a-zA-Z_][a-zA-Z0-9_]*|\\$\\d+', type: 'parameter' }
+    ]
+});
+
+const YAML_DEFINITION = define({
+    keywords: [],
+    constants: ['true', 'false', 'null', 'yes', 'no', 'on', 'off', '~'],
+    lineComments: ['#'],
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_-]*',
+    extraPatterns: [
+        { regex: '[^\\s#:\'"][^#:]*?(?=\\s*:(?:\\s|$))', type: 'property' },
+        { regex: '[&*][a-zA-Z0-9_-]+', type: 'variable' },
+        { regex: '!{1,2}[a-zA-Z0-9_/:-]*', type: 'type' },
+        { regex: '^(?:---|\\.\\.\\.)$', type: 'punctuation' }
+    ]
+});
+
+const JSON_DEFINITION = define({
+    keywords: [],
+    constants: ['true', 'false', 'null'],
+    lineComments: ['//'],
+    blockComments: [['/*', '*/']],
+    stringDelimiters: [],
+    numberPattern: '-?\\b\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?\\b',
+    extraPatterns: [
+        { regex: '"(?:[^"\\\\]|\\\\.)*"(?=\\s*:)', type: 'property' },
+        { regex: '"(?:[^"\\\\]|\\\\.)*"', type: 'string' }
+    ]
+});
+
+const CSS_DEFINITION = define({
+    keywords: ['important', 'from', 'to', 'and', 'not', 'only'],
+    lineComments: [],
+    blockComments: [['/*', '*/']],
+    numberPattern: '-?(?:\\d+\\.?\\d*|\\.\\d+)(?:px|em|rem|%|vh|vw|vmin|vmax|ch|ex|pt|pc|cm|mm|in|s|ms|deg|rad|turn|fr|dpi|dppx)?\\b',
+    identifierPattern: '-?[a-zA-Z_][a-zA-Z0-9_-]*',
+    extraPatterns: [
+        { regex: '@[a-zA-Z-]+', type: 'keyword' },
+        { regex: '#[0-9a-fA-F]{3,8}\\b', type: 'number' },
+        { regex: '--[a-zA-Z0-9_-]+', type: 'variable' },
+        { regex: '[a-zA-Z-]+(?=\\s*:[^:])', type: 'property' },
+        { regex: '[.#][a-zA-Z_-][a-zA-Z0-9_-]*', type: 'class' },
+        { regex: '::?[a-zA-Z-]+', type: 'function' }
+    ]
+});
+
+const SCSS_DEFINITION = define({
+    ...CSS_DEFINITION,
+    keywords: [...CSS_DEFINITION.keywords, 'if', 'else', 'each', 'for', 'while', 'in', 'through'],
+    lineComments: ['//'],
+    extraPatterns: [
+        { regex: '\\$[a-zA-Z_][a-zA-Z0-9_-]*', type: 'variable' },
+        ...CSS_DEFINITION.extraPatterns
+    ]
+});
+
+const HTML_DEFINITION = define({
+    keywords: [],
+    blockComments: [['<!--', '-->']],
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_:-]*',
+    extraPatterns: [
+        { regex: '<!DOCTYPE[^>]*>', type: 'keyword' },
+        { regex: '</?[a-zA-Z][a-zA-Z0-9:-]*', type: 'tag' },
+        { regex: '/?>', type: 'tag' },
+        { regex: '[a-zA-Z_:][a-zA-Z0-9_:.-]*(?=\\s*=)', type: 'attribute' },
+        { regex: '&[a-zA-Z0-9#]+;', type: 'constant' }
+    ]
+});
+
+const JINJA_DEFINITION = define({
+    keywords: [
+        'if', 'elif', 'else', 'endif', 'for', 'endfor', 'in', 'block', 'endblock', 'extends',
+        'include', 'import', 'from', 'as', 'macro', 'endmacro', 'call', 'endcall', 'set',
+        'endset', 'with', 'endwith', 'filter', 'endfilter', 'raw', 'endraw', 'not', 'and',
+        'or', 'is', 'recursive'
+    ],
+    constants: ['true', 'false', 'none', 'True', 'False', 'None', 'loop', 'super'],
+    numberPattern: PYTHON_NUMBER,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*',
+    extraPatterns: [{ regex: '\\|\\s*[a-zA-Z_][a-zA-Z0-9_]*', type: 'function' }]
+});
+
+const HANDLEBARS_DEFINITION = define({
+    keywords: ['if', 'unless', 'each', 'with', 'else', 'lookup', 'log', 'as'],
+    constants: ['true', 'false', 'null', 'undefined', 'this'],
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_-]*',
+    extraPatterns: [
+        { regex: '[#/^>]', type: 'keyword' },
+        { regex: '@[a-zA-Z_]+', type: 'variable' },
+        { regex: '[a-zA-Z_][a-zA-Z0-9_-]*(?==)', type: 'parameter' }
+    ]
+});
+
+const LUA_DEFINITION = define({
+    keywords: [
+        'and', 'break', 'do', 'else', 'elseif', 'end', 'for', 'function', 'goto', 'if', 'in',
+        'local', 'not', 'or', 'repeat', 'return', 'then', 'until', 'while'
+    ],
+    constants: ['true', 'false', 'nil', 'self'],
+    lineComments: ['--'],
+    multiLineConstructs: [
+        { begin: '--\\[(=*)\\[', end: '\\]$1\\]', type: 'comment' },
+        { begin: '\\[(=*)\\[', end: '\\]$1\\]', type: 'string' }
+    ],
+    numberPattern: C_LIKE_NUMBER,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*'
+});
+
+const PERL_DEFINITION = define({
+    keywords: [
+        'if', 'elsif', 'else', 'unless', 'while', 'until', 'for', 'foreach', 'do', 'last',
+        'next', 'redo', 'return', 'sub', 'my', 'our', 'local', 'use', 'require', 'package',
+        'and', 'or', 'not', 'eq', 'ne', 'lt', 'gt', 'le', 'ge'
+    ],
+    constants: ['undef'],
+    lineComments: ['#'],
+    multiLineConstructs: [{ ...SHELL_HEREDOC, begin: '<<[~]?([\'"]?)([a-zA-Z_][a-zA-Z0-9_]*)\\1' }],
+    stringDelimiters: ['"', "'", '`'],
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_]*',
+    extraPatterns: [{ regex: '[$@%][a-zA-Z_][a-zA-Z0-9_]*', type: 'variable' }]
+});
+
+const R_DEFINITION = define({
+    keywords: ['if', 'else', 'repeat', 'while', 'function', 'for', 'in', 'next', 'break', 'return', 'library'],
+    constants: ['TRUE', 'FALSE', 'NULL', 'NA', 'NaN', 'Inf'],
+    lineComments: ['#'],
+    numberPattern: '\\b\\d+(?:\\.\\d+)?(?:[eE][+-]?\\d+)?L?\\b',
+    identifierPattern: '[a-zA-Z.][a-zA-Z0-9._]*',
+    extraPatterns: [{ regex: '<<?-|->>?', type: 'operator' }]
+});
+
+const DOCKERFILE_DEFINITION = define({
+    keywords: [
+        'from', 'as', 'run', 'cmd', 'label', 'maintainer', 'expose', 'env', 'add', 'copy',
+        'entrypoint', 'volume', 'user', 'workdir', 'arg', 'onbuild', 'stopsignal',
+        'healthcheck', 'shell'
+    ],
+    lineComments: ['#'],
+    caseInsensitive: true,
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_.-]*',
+    extraPatterns: [
+        { regex: '\\$\\{[^}]*\\}|\\$[a-zA-Z_][a-zA-Z0-9_]*', type: 'variable' },
+        { regex: '--[a-zA-Z-]+', type: 'parameter' }
+    ]
+});
+
+const TOML_DEFINITION = define({
+    keywords: [],
+    constants: ['true', 'false'],
+    lineComments: ['#'],
+    numberPattern: '[+-]?\\b(?:0[xob][0-9a-fA-F_]+|\\d[\\d_]*(?:\\.\\d[\\d_]*)?(?:[eE][+-]?\\d+)?)\\b',
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_-]*',
+    extraPatterns: [
+        { regex: '^\\s*\\[\\[?[^\\]]+\\]\\]?', type: 'type' },
+        { regex: '[a-zA-Z0-9_.-]+(?=\\s*=)', type: 'property' }
+    ]
+});
+
+const INI_DEFINITION = define({
+    keywords: [],
+    constants: ['true', 'false', 'yes', 'no', 'on', 'off'],
+    lineComments: [';', '#'],
+    caseInsensitive: true,
+    extraPatterns: [
+        { regex: '^\\s*\\[[^\\]]+\\]', type: 'type' },
+        { regex: '[a-zA-Z0-9_.-]+(?=\\s*=)', type: 'property' }
+    ]
+});
+
+const MAKEFILE_DEFINITION = define({
+    keywords: [
+        'ifeq', 'ifneq', 'ifdef', 'ifndef', 'else', 'endif', 'include', 'define', 'endef',
+        'export', 'unexport', 'override', 'vpath'
+    ],
+    lineComments: ['#'],
+    identifierPattern: '[a-zA-Z_][a-zA-Z0-9_.-]*',
+    extraPatterns: [
+        { regex: '\\$[({][^)}]*[)}]|\\$[@<^?*%]', type: 'variable' },
+        { regex: '^[a-zA-Z0-9_./%-]+(?=\\s*::?(?!=))', type: 'function' }
+    ]
+});
+
+/**
+ * Registry of language definitions keyed by VS Code language id
+ */
+const LANGUAGE_DEFINITIONS: { [languageId: string]: LanguageDefinition } = {
+    'javascript': JAVASCRIPT_DEFINITION,
+    'javascriptreact': JAVASCRIPT_DEFINITION,
+    'typescript': TYPESCRIPT_DEFINITION,
+    'typescriptreact': TYPESCRIPT_DEFINITION,
+    'python': PYTHON_DEFINITION,
+    'java': JAVA_DEFINITION,
+    'c': C_DEFINITION,
+    'cpp': CPP_DEFINITION,
+    'csharp': CSHARP_DEFINITION,
+    'go': GO_DEFINITION,
+    'rust': RUST_DEFINITION,
+    'ruby': RUBY_DEFINITION,
+    'php': PHP_DEFINITION,
+    'swift': SWIFT_DEFINITION,
+    'kotlin': KOTLIN_DEFINITION,
+    'shellscript': SHELL_DEFINITION,
+    'powershell': POWERSHELL_DEFINITION,
+    'sql': SQL_DEFINITION,
+    'yaml': YAML_DEFINITION,
+    'json': JSON_DEFINITION,
+    'jsonc': JSON_DEFINITION,
+    'css': CSS_DEFINITION,
+    'scss': SCSS_DEFINITION,
+    'less': SCSS_DEFINITION,
+    'html': HTML_DEFINITION,
+    'xml': HTML_DEFINITION,
+    'jinja': JINJA_DEFINITION,
+    'handlebars': HANDLEBARS_DEFINITION,
+    'lua': LUA_DEFINITION,
+    'perl': PERL_DEFINITION,
+    'r': R_DEFINITION,
+    'dockerfile': DOCKERFILE_DEFINITION,
+    'docker': DOCKERFILE_DEFINITION,
+    'toml': TOML_DEFINITION,
+    'ini': INI_DEFINITION,
+    'makefile': MAKEFILE_DEFINITION
+};
+
+/**
+ * Get the language definition for a language id
+ * Falls back to the generic definition for unknown languages
+ */
+export function getLanguageDefinition(languageId: string): LanguageDefinition {
+    return hasLanguageDefinition(languageId) ? LANGUAGE_DEFINITIONS[languageId.toLowerCase()] : GENERIC_DEFINITION;
+}
+
+/**
+ * Check if a language has a specific (non-generic) definition
+ * Only the registry's own keys count, so fence ids like `constructor` are not mistaken for languages
+ */
+export function hasLanguageDefinition(languageId: string): boolean {
+    return Object.prototype.hasOwnProperty.call(LANGUAGE_DEFINITIONS, languageId.toLowerCase());
+}
+
+/**
+ * Escape a string for literal use inside a regular expression
+ */
+export function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Build a whole-word regex source matching any of the given words
+ */
+export function buildWordPattern(words: string[]): string {
+    const escaped = words
+        .slice()
+        .sort((a, b) => b.length - a.length)
+        .map(escapeRegex);
+
+    // Words like `$true` or `defined?` do not start or end on a word boundary
+    return `(?<![\\w$])(?:${escaped.join('|')})(?![\\w$])`;
+}
+
+/**
+ * Build the regex source for a string literal delimited by a quote character
+ */
+export function buildStringPattern(delimiter: string, escape: LanguageDefinition['stringEscape']): string {
+    const quote = escapeRegex(delimiter);
+
+    switch (escape) {
+        case 'doubled':
+            return `${quote}(?:[^${quote}]|${quote}${quote})*${quote}`;
+        case 'backtick':
+            return `${quote}(?:[^${quote}\`]|\`.)*${quote}`;
+        default:
+            return `${quote}(?:[^${quote}\\\\]|\\\\.)*${quote}`;
+    }
+}
@@ -0,0 +1,294 @@
+/**
+ * Language guessed for an unlabeled code block
+ * `confidence` runs from 0 (no evidence) to 1 (unambiguous, e.g. a shebang)
+ */
+export interface LanguageGuess {
+    language: string;
+    confidence: number;
+}
+
+/**
+ * Syntax feature hinting at a language, weighted 1 (weak) to 3 (distinctive)
+ */
+interface LanguageFeature {
+    pattern: RegExp;
+    weight: number;
+}
+
+/**
+ * Interpreters named by shebang lines
+ */
+const SHEBANG_LANGUAGES: Array<{ pattern: RegExp; language: string }> = [
+    { pattern: /\bpython[\d.]*\b/, language: 'python' },
+    { pattern: /\b(node|deno|bun)\b/, language: 'javascript' },
+    { pattern: /\b(ba|z|k|da)?sh\b/, language: 'bash' },
+    { pattern: /\bruby\b/, language: 'ruby' },
+    { pattern: /\bperl\b/, language: 'perl' },
+    { pattern: /\bphp\b/, language: 'php' }
+];
+
+/**
+ * Distinctive keywords and syntax features per language
+ * The features of a `parent` (JavaScript for TypeScript, C for C++) also count for the child
+ * once the child has evidence of its own, and the parent is not the child's rival
+ */
+const LANGUAGE_FEATURES: { [language: string]: { parent?: string; features: LanguageFeature[] } } = {
+    python: {
+        features: [
+            { pattern: /^\s*def \w+\s*\(.*\)\s*(->\s*[^:\n]+)?:\s*$/m, weight: 3 },
+            { pattern: /^\s*class \w+(\([^)]*\))?:\s*$/m, weight: 3 },
+            { pattern: /\b(elif|lambda|__init__|__name__)\b/, weight: 3 },
+            { pattern: /^\s*((el)?if|for|while|with)\b.*:\s*$|^\s*(else|try|finally):\s*$/m, weight: 2 },
+            { pattern: /\bself\.\w+/, weight: 2 },
+            { pattern: /^\s*(from\s+[\w.]+\s+)?import\s+[\w.]+(\s+as\s+\w+)?(\s*,\s*[\w.]+)*\s*$/m, weight: 1 },
+            { pattern: /\b(None|True|False)\b/, weight: 1 },
+            { pattern: /\bprint\(/, weight: 1 }
+        ]
+    },
+    javascript: {
+        features: [
+            { pattern: /\bconsole\.\w+\(/, weight: 3 },
+            { pattern: /\brequire\(\s*['"]/, weight: 2 },
+            { pattern: /^\s*import\s+.*\s+from\s+['"]/m, weight: 2 },
+            { pattern: /^\s*export\s+(default|const|function|class|async)\b/m, weight: 2 },
+            { pattern: /\b(document|window)\.\w+/, weight: 2 },
+            { pattern: /\b(const|let|var)\s+[\w${}[\], ]+\s*=/, weight: 1 },
+            { pattern: /=>/, weight: 1 },
+            { pattern: /\bfunction\s*\*?\s*[\w$]*\s*\(/, weight: 1 },
+            { pattern: /[!=]==/, weight: 1 },
+            { pattern: /\b(undefined|await)\b/, weight: 1 }
+        ]
+    },
+    typescript: {
+        parent: 'javascript',
+        features: [
+            { pattern: /\b\w+\??\s*:\s*(string|number|boolean|any|unknown|void|never)(\[\])?\s*[,;)=|{]/, weight: 3 },
+            { pattern: /^\s*(export\s+)?(interface|type)\s+\w+(<[^>]*>)?\s*(=|\{|extends)/m, weight: 3 },
+            { pattern: /\bas\s+(const|string|number|any|unknown)\b/, weight: 2 },
+            { pattern: /^\s*(export\s+)?(enum|namespace|declare)\s+\w+/m, weight: 2 },
+            { pattern: /\b(public|private|protected|readonly)\s+\w+\s*[:(]/, weight: 1 }
+        ]
+    },
+    java: {
+        features: [
+            { pattern: /\bSystem\.out\.print(ln)?\(/, weight: 3 },
+            { pattern: /^\s*package\s+[\w.]+\s*;/m, weight: 3 },
+            { pattern: /@Override\b/, weight: 3 },
+            { pattern: /^\s*import\s+(static\s+)?[\w.]+(\.\*)?\s*;/m, weight: 2 },
+            { pattern: /\bpublic\s+(static\s+)?(final\s+)?(class|void|interface)\b/, weight: 2 },
+            { pattern: /\bString\[\]\s+\w+/, weight: 2 },
+            { pattern: /\b(extends|implements)\s+\w+/, weight: 1 }
+        ]
+    },
+    csharp: {
+        features: [
+            { pattern: /^\s*using\s+System(\.\w+)*\s*;/m, weight: 3 },
+            { pattern: /\bConsole\.Write(Line)?\(/, weight: 3 },
+            { pattern: /\{\s*get;/, weight: 3 },
+            { pattern: /^\s*namespace\s+[\w.]+\s*[{;]?\s*$/m, weight: 2 },
+            { pattern: /\bpublic\s+(static\s+)?(class|void)\b/, weight: 2 },
+            { pattern: /\b(string|bool|Task)\s+\w+\s*[(=;]/, weight: 1 }
+        ]
+    },
+    c: {
+        features: [
+            { pattern: /^\s*#include\s*[<"][\w./]+[>"]/m, weight: 3 },
+            { pattern: /\b(printf|scanf|malloc|free|sizeof)\s*\(/, weight: 2 },
+            { pattern: /\bint\s+main\s*\(/, weight: 2 },
+            { pattern: /^\s*#(define|ifdef|ifndef|endif|pragma)\b/m, weight: 2 },
+            { pattern: /\b(struct|typedef)\s+\w+/, weight: 1 }
+        ]
+    },
+    cpp: {
+        parent: 'c',
+        features: [
+            { pattern: /\bstd::\w+/, weight: 3 },
+            { pattern: /\b(cout|cin|cerr)\s*(<<|>>)/, weight: 3 },
+            { pattern: /\btemplate\s*</, weight: 3 },
+            { pattern: /#include\s*<(iostream|vector|string|map|memory|algorithm)>/, weight: 3 },
+            { pattern: /\b(nullptr|constexpr)\b/, weight: 2 }
+        ]
+    },
+    go: {
+        features: [
+            { pattern: /^\s*package\s+\w+\s*$/m, weight: 3 },
+            { pattern: /\bfunc\s+(\([^)]*\)\s*)?\w+\s*\(/, weight: 3 },
+            { pattern: /\bfmt\.\w+\(/, weight: 3 },
+            { pattern: /^\s*import\s*\(\s*$/m, weight: 2 },
+            { pattern: /\bdefer\s+\w+/, weight: 2 },
+            { pattern: /\b\w+\s*:=/, weight: 1 }
+        ]
+    },
+    rust: {
+        features: [
+            { pattern: /\bfn\s+\w+\s*(<[^>]*>)?\s*\(/, weight: 3 },
+            { pattern: /\blet\s+mut\s+\w+/, weight: 3 },
+            { pattern: /\b(println|print|format|vec|panic|assert_eq|assert)!\s*[(\[]/, weight: 3 },
+            { pattern: /^\s*use\s+[\w:]+(::\{[^}]*\}|::\*)?\s*;/m, weight: 2 },
+            { pattern: /\bimpl(<[^>]*>)?\s+\w+/, weight: 2 },
+            { pattern: /\bpub\s+(fn|struct|enum|mod)\b|&mut\s|\b(Option|Result)</, weight: 2 }
+        ]
+    },
+    ruby: {
+        features: [
+            { pattern: /\battr_(accessor|reader|writer)\b/, weight: 3 },
+            { pattern: /\bdo\s*\|[\w\s,]+\|/, weight: 3 },
+            { pattern: /^\s*def\s+(self\.)?\w+[?!=]?(\s*\(.*\))?\s*$/m, weight: 2 },
+            { pattern: /^\s*end\s*$/m, weight: 2 },
+            { pattern: /\bputs\s/, weight: 2 },
+            { pattern: /^\s*require(_relative)?\s+['"]/m, weight: 2 },
+            { pattern: /\.each\s*(do\b|\{)/, weight: 2 },
+            { pattern: /^\s*module\s+[A-Z]\w*\s*$/m, weight: 2 }
+        ]
+    },
+    php: {
+        features: [
+            { pattern: /<\?php/, weight: 3 },
+            { pattern: /\$this->\w+/, weight: 3 },
+            { pattern: /\bpublic\s+function\b/, weight: 3 },
+            { pattern: /^\s*(namespace|use)\s+\w+(\\\w+)+;/m, weight: 2 },
+            { pattern: /\$\w+\s*=[^=]/, weight: 1 }
+        ]
+    },
+    bash: {
+        features: [
+            { pattern: /^\s*(if\s+\[\[?|fi$|then$|done$|esac$)/m, weight: 3 },
+            { pattern: /^\s*(sudo|npm|npx|yarn|pnpm|pip3?|git|cd|ls|mkdir|rm|cp|mv|chmod|export|apt(-get)?|brew|docker|kubectl|curl|wget|cat|source)\s/m, weight: 2 },
+            { pattern: /\$\{\w+\}|\$\(\w[^)]*\)/, weight: 2 },
+            { pattern: /\|\s*(grep|awk|sed|xargs|sort|uniq|head|tail|wc)\b/, weight: 2 },
+            { pattern: /^\s*\w+=("[^"]*"|'[^']*'|\S+)\s*$/m, weight: 1 },
+            { pattern: /\becho\s+["$]/, weight: 1 }
+        ]
+    },
+    sql: {
+        features: [
+            { pattern: /^\s*(SELECT|INSERT\s+INTO|UPDATE|DELETE\s+FROM|CREATE\s+(TABLE|INDEX|VIEW)|ALTER\s+TABLE|DROP\s+TABLE)\b/im, weight: 2 },
+            { pattern: /\b(WHERE|GROUP BY|ORDER BY|JOIN|VALUES|PRIMARY KEY)\b/, weight: 2 },
+            { pattern: /\bFROM\s+[\w.]+/i, weight: 1 }
+        ]
+    },
+    html: {
+        features: [
+            { pattern: /<!DOCTYPE\s+html/i, weight: 3 },
+            { pattern: /<\/(html|head|body|div|span|p|ul|ol|li|table|tr|td|a|button|form|section|nav|header|footer)>/, weight: 2 },
+            { pattern: /<(meta|link|img|br|input)\b[^>]*\/?>/, weight: 1 },
+            { pattern: /\b(class|id|href|src)="[^"]*"/, weight: 1 }
+        ]
+    },
+    xml: {
+        features: [
+            { pattern: /^\s*<\?xml\b/, weight: 3 },
+            { pattern: /<\w+:\w+[\s>]/, weight: 1 }
+        ]
+    },
+    css: {
+        features: [
+            { pattern: /@(media|import|keyframes|font-face|supports)\b/, weight: 3 },
+            { pattern: /^\s*(color|background(-color)?|margin|padding|display|font(-size|-family|-weight)?|border(-radius)?|width|height|position|text-align|z-index|opacity)\s*:/m, weight: 2 },
+            { pattern: /\b\d+(\.\d+)?(px|rem|em|vh|vw)\b/, weight: 2 },
+            { pattern: /^[ \t]*[.#]?[\w-]+([ \t]*[,>+~][ \t]*[.#:]?[\w-]+|[ \t]+[.#:]?[\w-]+|[.#:][\w-]+)*[ \t]*\{[ \t]*$/m, weight: 1 }
+        ]
+    },
+    yaml: {
+        features: [
+            { pattern: /^[\w-]+:\s*$/m, weight: 2 },
+            { pattern: /^\s*-\s+[\w"'][^:\n]*:\s/m, weight: 2 },
+            { pattern: /^\s*[\w-]+:\s+[^\s{(].*$/m, weight: 1 },
+            { pattern: /^---\s*$/m, weight: 1 }
+        ]
+    },
+    dockerfile: {
+        features: [
+            { pattern: /^\s*(RUN|CMD|ENTRYPOINT|COPY|ADD|WORKDIR|EXPOSE|ENV|ARG|LABEL|VOLUME|USER)\s/m, weight: 3 },
+            { pattern: /^\s*FROM\s+[\w./:-]+(\s+AS\s+\w+)?\s*$/m, weight: 2 }
+        ]
+    },
+    diff: {
+        features: [
+            { pattern: /^@@ -\d+(,\d+)? \+\d+(,\d+)? @@/m, weight: 3 },
+            { pattern: /^(\+\+\+|---) [ab]\//m, weight: 3 },
+            { pattern: /^diff --git /m, weight: 3 }
+        ]
+    }
+};
+
+// Score at which a language counts as fully evidenced
+const FULL_EVIDENCE_SCORE = 4;
+
+// Only the start of very large blocks is classified
+const DETECTION_SAMPLE_SIZE = 20000;
+
+/**
+ * Guess the language of an unlabeled code block
+ * Shebangs and JSON that parses are taken as certain; otherwise every language scores the weights
+ * of its features found in the code. Confidence grows with the winner's score and shrinks with the
+ * score of its strongest rival. Returns null when no language has any evidence, or when the
+ * confidence stays below `threshold`
+ */
+export function detectLanguage(code: string, threshold = 0): LanguageGuess | null {
+    const guess = guessLanguage(code);
+    return guess && guess.confidence >= threshold ? guess : null;
+}
+
+/**
+ * Score the evidence for every language in a code sample
+ * Children with evidence of their own also get their parent's score
+ */
+export function scoreLanguages(sample: string): { [language: string]: number } {
+    const scores: { [language: string]: number } = {};
+    for (const [language, { features }] of Object.entries(LANGUAGE_FEATURES)) {
+        scores[language] = features.reduce(
+            (score, feature) => score + (feature.pattern.test(sample) ? feature.weight : 0),
+            0
+        );
+    }
+    for (const [language, { parent }] of Object.entries(LANGUAGE_FEATURES)) {
+        if (parent && scores[language] > 0) {
+            scores[language] += scores[parent];
+        }
+    }
+    return scores;
+}
+
+function guessLanguage(code: string): LanguageGuess | null {
+    const sample = code.substring(0, DETECTION_SAMPLE_SIZE);
+    const firstLine = sample.split('\n', 1)[0];
+
+    if (firstLine.startsWith('#!')) {
+        const shebang = SHEBANG_LANGUAGES.find(entry => entry.pattern.test(firstLine));
+        if (shebang) {
+            return { language: shebang.language, confidence: 1 };
+        }
+    }
+
+    const trimmed = code.trim();
+    if (trimmed.length <= DETECTION_SAMPLE_SIZE && /^[[{][\s\S]*[\]}]$/.test(trimmed)) {
+        try {
+            JSON.parse(trimmed);
+            return { language: 'json', confidence: 1 };
+        } catch {
+            // Not JSON; fall through to the feature scores
+        }
+    }
+
+    const scores = scoreLanguages(sample);
+    const ranked = Object.keys(scores)
+        .filter(language => scores[language] > 0)
+        .sort((a, b) => scores[b] - scores[a]);
+    if (ranked.length === 0) {
+        return null;
+    }
+
+    const best = ranked[0];
+    const rival = ranked.find(language =>
+        language !== best &&
+        language !== LANGUAGE_FEATURES[best].parent &&
+        LANGUAGE_FEATURES[language].parent !== best
+    );
+    const bestScore = scores[best];
+    const rivalScore = rival ? scores[rival] : 0;
+
+    const strength = Math.min(1, bestScore / FULL_EVIDENCE_SCORE);
+    const margin = bestScore / (bestScore + rivalScore);
+    return { language: best, confidence: Math.round(strength * margin * 100) / 100 };
+}
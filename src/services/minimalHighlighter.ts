@@ -0,0 +1,133 @@
+import { Token } from './tokenizationService';
+import { getLanguageDefinition, escapeRegex, buildWordPattern, buildStringPattern } from './languageDefinitions';
+
+/**
+ * Tokenize code with the minimal highlighting patterns (Tier 4 fallback)
+ * Highlights only comments, strings, keywords and numbers, one line at a time.
+ * Has no dependency on the VS Code API; tokens are returned without colors.
+ */
+export function minimalTokenize(code: string, language: string): Token[] {
+    const tokens: Token[] = [];
+    const definition = getLanguageDefinition(language);
+
+    const commentSources = [
+        ...definition.lineComments.map(marker => `${escapeRegex(marker)}.*$`),
+        ...definition.blockComments.map(([open, close]) => `${escapeRegex(open)}[\\s\\S]*?${escapeRegex(close)}`)
+    ];
+    const stringSources = definition.stringDelimiters.map(
+        delimiter => buildStringPattern(delimiter, definition.stringEscape)
+    );
+
+    const keywords = [...definition.keywords, ...definition.constants];
+
+    // Languages without keywords, comments or strings use patterns that never match
+    const keywordPattern = new RegExp(
+        keywords.length > 0 ? buildWordPattern(keywords) : '(?!)',
+        definition.caseInsensitive ? 'gi' : 'g'
+    );
+    const stringPattern = new RegExp(stringSources.join('|') || '(?!)', 'g');
+    const commentPattern = new RegExp(commentSources.join('|') || '(?!)', 'gm');
+    const numberPattern = new RegExp(definition.numberPattern, 'g');
+
+    let position = 0;
+    const lines = code.split('\n');
+
+    for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+        const line = lines[lineIndex];
+        const matches: Array<{ start: number; end: number; type: string }> = [];
+
+        // Find all matches
+        let match;
+        
+        // Comments
+        commentPattern.lastIndex = 0;
+        while ((match = commentPattern.exec(line)) !== null) {
+            matches.push({ start: match.index, end: match.index + match[0].length, type: 'comment' });
+        }
+
+        // Strings
+        stringPattern.lastIndex = 0;
+        while ((match = stringPattern.exec(line)) !== null) {
+            matches.push({ start: match.index, end: match.index + match[0].length, type: 'string' });
+        }
+
+        // Keywords
+        keywordPattern.lastIndex = 0;
+        while ((match = keywordPattern.exec(line)) !== null) {
+            matches.push({ start: match.index, end: match.index + match[0].length, type: 'keyword' });
+        }
+
+        // Numbers
+        numberPattern.lastIndex = 0;
+        while ((match = numberPattern.exec(line)) !== null) {
+            matches.push({ start: match.index, end: match.index + match[0].length, type: 'number' });
+        }
+
+        // Sort matches by position
+        matches.sort((a, b) => a.start - b.start);
+
+        // Remove overlapping matches (prioritize first match)
+        const filteredMatches: typeof matches = [];
+        let lastEnd = -1;
+        for (const m of matches) {
+            if (m.start >= lastEnd) {
+                filteredMatches.push(m);
+                lastEnd = m.end;
+            }
+        }
+
+        // Create tokens
+        let linePosition = 0;
+        for (const m of filteredMatches) {
+            // Add plain text before match
+            if (m.start > linePosition) {
+                tokens.push({
+                    text: line.substring(linePosition, m.start),
+                    scopes: ['text'],
+                    startIndex: position + linePosition,
+                    endIndex: position + m.start
+                });
+            }
+
+            // Add matched token
+            tokens.push({
+                text: line.substring(m.start, m.end),
+                scopes: [m.type],
+                startIndex: position + m.start,
+                endIndex: position + m.end
+            });
+
+            linePosition = m.end;
+        }
+
+        // Add remaining text
+        if (linePosition < line.length) {
+            tokens.push({
+                text: line.substring(linePosition),
+                scopes: ['text'],
+                startIndex: position + linePosition,
+                endIndex: position + line.length
+            });
+        }
+
+        position += line.length;
+
+        // Add newline
+        if (lineIndex < lines.length - 1) {
+            tokens.push({
+                text: '\n',
+                scopes: ['text'],
+                startIndex: position,
+                endIndex: position + 1
+            });
+            position += 1;
+        }
+    }
+
+    return tokens.length > 0 ? tokens : [{
+        text: code,
+        scopes: ['text'],
+        startIndex: 0,
+        endIndex: code.length
+    }];
+}
@@ -0,0 +1,325 @@
+import { Token } from './tokenizationService';
+import {
+    LanguageDefinition,
+    MultiLineConstruct,
+    getLanguageDefinition,
+    escapeRegex,
+    buildWordPattern,
+    buildStringPattern
+} from './languageDefinitions';
+
+/**
+ * A multi-line construct that is still open at the end of a line
+ * Holds the resolved end pattern so the state can be carried across calls
+ */
+export interface OpenConstruct {
+    type: string;
+    end: string;
+    escape: boolean;
+}
+
+/**
+ * State of the pattern tokenizer between lines
+ * `open` is the construct the next line starts in; `pending` holds heredoc bodies
+ * that begin on the following lines, in the order their markers appeared
+ */
+export interface PatternTokenizerState {
+    open: OpenConstruct | null;
+    pending: OpenConstruct[];
+}
+
+/**
+ * Result of tokenizing a piece of code with the pattern tokenizer
+ */
+export interface PatternTokenizeResult {
+    tokens: Token[];
+    state: PatternTokenizerState;
+}
+
+/**
+ * Compiled single-line pattern
+ */
+interface CompiledPattern {
+    regex: RegExp;
+    type: string;
+}
+
+/**
+ * Compiled multi-line construct
+ */
+interface CompiledConstruct {
+    begin: RegExp;
+    construct: MultiLineConstruct;
+}
+
+/**
+ * Compiled pattern set of a language
+ */
+interface CompiledLanguage {
+    constructs: CompiledConstruct[];
+    patterns: CompiledPattern[];
+}
+
+/**
+ * PatternTokenizer - Regex tokenizer driven by the language definitions
+ * Tracks multi-line constructs (block comments, template literals, triple-quoted strings,
+ * heredocs, raw strings) so that state can be carried from one line, or one call, to the next.
+ * Has no dependency on the VS Code API; tokens are returned without colors.
+ */
+export class PatternTokenizer {
+    private compiledLanguages: Map<string, CompiledLanguage> = new Map();
+    private endPatterns: Map<string, RegExp> = new Map();
+
+    /**
+     * Create the state for the start of a code block
+     */
+    public static createInitialState(): PatternTokenizerState {
+        return { open: null, pending: [] };
+    }
+
+    /**
+     * Tokenize code, optionally continuing from the state returned by a previous call
+     */
+    public tokenize(
+        text: string,
+        language: string,
+        initialState: PatternTokenizerState = PatternTokenizer.createInitialState()
+    ): PatternTokenizeResult {
+        const compiled = this.getCompiledLanguage(language);
+        const tokens: Token[] = [];
+        const state: PatternTokenizerState = {
+            open: initialState.open,
+            pending: [...initialState.pending]
+        };
+
+        let position = 0;
+        const lines = text.split('\n');
+
+        for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+            const line = lines[lineIndex];
+            let linePosition = 0;
+
+            // Continue a construct left open by a previous line
+            if (state.open) {
+                const endIndex = this.findConstructEnd(state.open, line, 0);
+                const closeAt = endIndex === -1 ? line.length : endIndex;
+
+                if (closeAt > 0) {
+                    tokens.push(this.createToken(line.substring(0, closeAt), state.open.type, position));
+                }
+                if (endIndex !== -1) {
+                    state.open = null;
+                }
+                linePosition = closeAt;
+            }
+
+            while (linePosition < line.length) {
+                const constructLength = this.matchConstruct(compiled, line, linePosition, position, tokens, state);
+                if (constructLength > 0) {
+                    linePosition += constructLength;
+                    continue;
+                }
+
+                let matched = false;
+
+                for (const pattern of compiled.patterns) {
+                    pattern.regex.lastIndex = linePosition;
+                    const match = pattern.regex.exec(line);
+
+                    if (match && match[0].length > 0) {
+                        tokens.push(this.createToken(match[0], pattern.type, position + linePosition));
+                        linePosition += match[0].length;
+                        matched = true;
+                        break;
+                    }
+                }
+
+                if (!matched) {
+                    tokens.push(this.createToken(line[linePosition], 'text', position + linePosition));
+                    linePosition++;
+                }
+            }
+
+            // Heredoc bodies start once the line holding their markers is done
+            if (!state.open && state.pending.length > 0) {
+                state.open = state.pending.shift() || null;
+            }
+
+            if (lineIndex < lines.length - 1) {
+                tokens.push(this.createToken('\n', 'text', position + line.length));
+                position += line.length + 1;
+            } else {
+                position += line.length;
+            }
+        }
+
+        return { tokens, state };
+    }
+
+    /**
+     * Try to start a multi-line construct at a line position
+     * Emits its token(s), updates the state and returns the number of characters consumed
+     */
+    private matchConstruct(
+        compiled: CompiledLanguage,
+        line: string,
+        linePosition: number,
+        position: number,
+        tokens: Token[],
+        state: PatternTokenizerState
+    ): number {
+        for (const { begin, construct } of compiled.constructs) {
+            begin.lastIndex = linePosition;
+            const match = begin.exec(line);
+            if (!match || match[0].length === 0) {
+                continue;
+            }
+
+            const open: OpenConstruct = {
+                type: construct.type,
+                end: construct.end.replace(/\$(\d)/g, (_, group) => escapeRegex(match[Number(group)] || '')),
+                escape: construct.escape === true
+            };
+
+            if (construct.bodyStartsNextLine) {
+                tokens.push(this.createToken(match[0], construct.type, position + linePosition));
+                state.pending.push(open);
+                return match[0].length;
+            }
+
+            const endIndex = this.findConstructEnd(open, line, linePosition + match[0].length);
+            const closeAt = endIndex === -1 ? line.length : endIndex;
+
+            tokens.push(this.createToken(line.substring(linePosition, closeAt), construct.type, position + linePosition));
+            if (endIndex === -1) {
+                state.open = open;
+            }
+            return closeAt - linePosition;
+        }
+
+        return 0;
+    }
+
+    /**
+     * Find where an open construct ends on a line
+     * Returns the index just past the end delimiter, or -1 if the construct stays open
+     */
+    private findConstructEnd(open: OpenConstruct, line: string, fromIndex: number): number {
+        const key = `${open.escape ? 'e' : 'r'}:${open.end}`;
+        let regex = this.endPatterns.get(key);
+        if (!regex) {
+            const body = open.escape ? '(?:\\\\[\\s\\S]|[^\\\\])*?' : '[\\s\\S]*?';
+            regex = new RegExp(`${body}(?:${open.end})`, 'y');
+            this.endPatterns.set(key, regex);
+        }
+
+        regex.lastIndex = fromIndex;
+        const match = regex.exec(line);
+        return match ? fromIndex + match[0].length : -1;
+    }
+
+    /**
+     * Create an uncolored token
+     */
+    private createToken(text: string, type: string, startIndex: number): Token {
+        return {
+            text,
+            scopes: [type],
+            startIndex,
+            endIndex: startIndex + text.length
+        };
+    }
+
+    /**
+     * Get (and cache) the compiled pattern set of a language
+     */
+    private getCompiledLanguage(language: string): CompiledLanguage {
+        let compiled = this.compiledLanguages.get(language);
+        if (!compiled) {
+            const definition = getLanguageDefinition(language);
+            compiled = {
+                constructs: this.getMultiLineConstructs(definition).map(construct => ({
+                    begin: new RegExp(construct.begin, 'y'),
+                    construct
+                })),
+                patterns: this.getLanguagePatterns(definition).map(pattern => ({
+                    type: pattern.type,
+                    regex: new RegExp(pattern.regex, pattern.flags ? `y${pattern.flags}` : 'y')
+                }))
+            };
+            this.compiledLanguages.set(language, compiled);
+        }
+
+        return compiled;
+    }
+
+    /**
+     * Get the multi-line constructs of a language, block comments first
+     */
+    private getMultiLineConstructs(definition: LanguageDefinition): MultiLineConstruct[] {
+        return [
+            ...definition.blockComments.map(([open, close]) => ({
+                begin: escapeRegex(open),
+                end: escapeRegex(close),
+                type: 'comment'
+            })),
+            ...definition.multiLineConstructs
+        ];
+    }
+
+    /**
+     * Get language-specific single-line tokenization patterns
+     * Built from the language definition registry, in priority order
+     */
+    private getLanguagePatterns(definition: LanguageDefinition): Array<{ regex: string; type: string; flags?: string }> {
+        const identifier = definition.identifierPattern;
+        const wordFlags = definition.caseInsensitive ? 'i' : undefined;
+        const patterns: Array<{ regex: string; type: string; flags?: string }> = [];
+
+        // Comments
+        for (const marker of definition.lineComments) {
+            patterns.push({ regex: `${escapeRegex(marker)}.*$`, type: 'comment' });
+        }
+
+        // Language-specific constructs (decorators, variables, tags, ...)
+        patterns.push(...definition.extraPatterns);
+
+        // Strings
+        for (const delimiter of definition.stringDelimiters) {
+            patterns.push({ regex: buildStringPattern(delimiter, definition.stringEscape), type: 'string' });
+        }
+
+        // Numbers
+        patterns.push({ regex: definition.numberPattern, type: 'number' });
+
+        // Keywords, constants and built-in types
+        if (definition.keywords.length > 0) {
+            patterns.push({ regex: buildWordPattern(definition.keywords), type: 'keyword', flags: wordFlags });
+        }
+        if (definition.constants.length > 0) {
+            patterns.push({ regex: buildWordPattern(definition.constants), type: 'constant', flags: wordFlags });
+        }
+        if (definition.types.length > 0) {
+            patterns.push({ regex: buildWordPattern(definition.types), type: 'type', flags: wordFlags });
+        }
+
+        patterns.push(
+            // Functions
+            { regex: `(?<![\\w$])${identifier}(?=\\s*\\()`, type: 'function' },
+
+            // Types/Classes
+            { regex: '\\b[A-Z][a-zA-Z0-9_$]*\\b', type: 'class' },
+
+            // Variables
+            { regex: `(?<![\\w$])${identifier}`, type: 'variable' },
+
+            // Operators
+            { regex: '[+\\-*/%=<>!&|^~?:]+', type: 'operator' },
+
+            // Punctuation
+            { regex: '[\\(\\)\\[\\]\\{\\};,.]', type: 'punctuation' }
+        );
+
+        return patterns;
+    }
+}
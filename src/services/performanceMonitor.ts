@@ -52,6 +52,29 @@ export class PerformanceMonitor {
         return elapsed;
     }
 
+    /**
+     * Stop a timer for work that was cancelled
+     * The elapsed time is recorded under the `cancelled` metric instead of the timer's label
+     * @param id - Timer ID from startTimer
+     * @returns Elapsed time in milliseconds
+     */
+    public cancelTimer(id: string): number {
+        if (!this.enabled || !id) {
+            return 0;
+        }
+
+        const startTime = this.timers.get(id);
+        if (startTime === undefined) {
+            return 0;
+        }
+
+        const elapsed = performance.now() - startTime;
+        this.timers.delete(id);
+        this.recordMetric('cancelled', elapsed);
+
+        return elapsed;
+    }
+
     /**
      * Record a metric value
      * @param name - Metric name
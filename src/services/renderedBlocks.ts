@@ -0,0 +1,135 @@
+import { getFenceAttributeText } from './fenceAttributes';
+import { ThemeData } from './themeManager';
+
+/**
+ * A code block as the markdown-it plugin sees it while a document is rendered
+ * `id` names the block by its document and position, and is empty when the rendered text has
+ * no document; `language` is empty for unlabeled fences and indented blocks
+ */
+export interface RenderedBlock {
+    id: string;
+    code: string;
+    language: string;
+    attributes: string;
+}
+
+/**
+ * Gives the data attributes to set on a rendered block, by attribute name
+ */
+export type BlockDataProvider = (block: RenderedBlock) => { [name: string]: string };
+
+/**
+ * Attribute holding the tokens the extension host computed for a block, as JSON
+ */
+export const TOKENS_ATTRIBUTE = 'data-mcbh-tokens';
+
+/**
+ * Attribute holding the language the extension host guessed for an unlabeled block, as JSON
+ */
+export const DETECTED_LANGUAGE_ATTRIBUTE = 'data-mcbh-detected';
+
+/**
+ * Attribute holding the theme of the preview, as JSON PreviewTheme
+ */
+export const PREVIEW_THEME_ATTRIBUTE = 'data-mcbh-theme';
+
+/**
+ * Attribute holding the theme a block names with its `theme=` attribute, as JSON PreviewTheme
+ */
+export const BLOCK_THEME_ATTRIBUTE = 'data-mcbh-block-theme';
+
+/**
+ * The part of the theme data the preview script uses
+ */
+export type PreviewTheme = Pick<ThemeData,
+    | 'kind'
+    | 'colors'
+    | 'background'
+    | 'foreground'
+    | 'borderColor'
+    | 'borderColorSubtle'
+    | 'buttonBackground'
+    | 'buttonForeground'
+    | 'buttonHoverBackground'
+    | 'accentColor'
+    | 'diffColors'
+    | 'ansiColors'
+>;
+
+/**
+ * Shape of the markdown-it instance passed to `extendMarkdownIt`, as far as the plugin uses it
+ */
+interface MarkdownIt {
+    core: {
+        ruler: {
+            push(name: string, rule: (state: RenderState) => void): void;
+        };
+    };
+}
+
+/**
+ * Rendering state; VS Code puts the URI of the document being rendered in the environment
+ */
+interface RenderState {
+    tokens: BlockToken[];
+    env?: { currentDocument?: { toString(): string } };
+}
+
+interface BlockToken {
+    type: string;
+    info: string;
+    content: string;
+    attrSet(name: string, value: string): void;
+}
+
+/**
+ * Pick the colors the preview script uses from theme data, leaving out theme rules and
+ * semantic token colors that only the extension host needs
+ */
+export function createPreviewTheme(themeData: ThemeData): PreviewTheme {
+    return {
+        kind: themeData.kind,
+        colors: themeData.colors,
+        background: themeData.background,
+        foreground: themeData.foreground,
+        borderColor: themeData.borderColor,
+        borderColorSubtle: themeData.borderColorSubtle,
+        buttonBackground: themeData.buttonBackground,
+        buttonForeground: themeData.buttonForeground,
+        buttonHoverBackground: themeData.buttonHoverBackground,
+        accentColor: themeData.accentColor,
+        diffColors: themeData.diffColors,
+        ansiColors: themeData.ansiColors
+    };
+}
+
+/**
+ * markdown-it plugin setting data from the extension host on code blocks while they are rendered,
+ * the only way that data reaches the preview script
+ * Fences keep the attributes on their code element, indented blocks on their pre element
+ */
+export function blockDataPlugin(md: MarkdownIt, provider: BlockDataProvider): void {
+    md.core.ruler.push('mcbh_block_data', state => {
+        const document = state.env?.currentDocument?.toString() ?? '';
+        let index = 0;
+
+        for (const token of state.tokens) {
+            if (token.type !== 'fence' && token.type !== 'code_block') {
+                continue;
+            }
+
+            const fence = token.type === 'fence';
+            const data = provider({
+                id: document ? `${document}#${index}` : '',
+                code: token.content,
+                language: fence ? token.info.trim().split(/\s+/)[0] : '',
+                attributes: fence ? getFenceAttributeText(token.info) : ''
+            });
+            index++;
+
+            for (const name of Object.keys(data)) {
+                token.attrSet(name, data[name]);
+            }
+        }
+    });
+}
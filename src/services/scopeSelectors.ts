@@ -0,0 +1,320 @@
+/**
+ * Settings of a `tokenColors` rule
+ */
+export interface TokenColorSettings {
+    foreground?: string;
+    background?: string;
+    fontStyle?: string;
+}
+
+/**
+ * A `tokenColors` rule of a color theme
+ * `scope` holds one or more scope selectors, as an array or a comma separated string
+ */
+export interface TokenColorRule {
+    name?: string;
+    scope?: string | string[];
+    settings: TokenColorSettings;
+}
+
+/**
+ * Foreground and font style the rules of a theme give a scope stack
+ * `fontStyle` uses the TextMate form (`bold italic underline strikethrough`); an empty string
+ * means a rule reset it to normal
+ */
+export interface ScopeStyle {
+    foreground?: string;
+    fontStyle?: string;
+}
+
+const FONT_STYLES = ['italic', 'bold', 'underline', 'strikethrough'];
+
+/**
+ * A rule in the selector trie; undefined attributes are not set by the rule
+ * `parentScopes` run from the innermost parent outwards and may hold `>` for a direct parent
+ */
+class TrieRule {
+    constructor(
+        public scopeDepth: number,
+        public readonly parentScopes: string[],
+        public fontStyle: string | undefined,
+        public foreground: string | undefined
+    ) { }
+
+    public clone(): TrieRule {
+        return new TrieRule(this.scopeDepth, this.parentScopes, this.fontStyle, this.foreground);
+    }
+
+    public acceptOverwrite(scopeDepth: number, fontStyle: string | undefined, foreground: string | undefined): void {
+        this.scopeDepth = Math.max(this.scopeDepth, scopeDepth);
+        if (fontStyle !== undefined) {
+            this.fontStyle = fontStyle;
+        }
+        if (foreground !== undefined) {
+            this.foreground = foreground;
+        }
+    }
+}
+
+/**
+ * A node of the selector trie, one per dot-separated scope segment
+ * Children start from a copy of their parent's rules, so `keyword.control` inherits
+ * what `keyword` sets unless a rule for `keyword.control` overrides it
+ */
+class TrieNode {
+    private readonly children = new Map<string, TrieNode>();
+    private matches: TrieRule[] | null = null;
+
+    constructor(
+        private readonly mainRule: TrieRule,
+        private readonly rulesWithParentScopes: TrieRule[] = []
+    ) { }
+
+    public insert(
+        scopeDepth: number,
+        segments: string[],
+        parentScopes: string[],
+        fontStyle: string | undefined,
+        foreground: string | undefined
+    ): void {
+        if (segments.length === 0) {
+            this.insertHere(scopeDepth, parentScopes, fontStyle, foreground);
+            return;
+        }
+
+        let child = this.children.get(segments[0]);
+        if (!child) {
+            child = new TrieNode(this.mainRule.clone(), this.rulesWithParentScopes.map(rule => rule.clone()));
+            this.children.set(segments[0], child);
+        }
+        child.insert(scopeDepth + 1, segments.slice(1), parentScopes, fontStyle, foreground);
+    }
+
+    /**
+     * Get the rules of the deepest node matching a scope, most specific first
+     */
+    public match(segments: string[]): TrieRule[] {
+        const child = segments.length > 0 ? this.children.get(segments[0]) : undefined;
+        if (child) {
+            return child.match(segments.slice(1));
+        }
+
+        if (!this.matches) {
+            this.matches = [...this.rulesWithParentScopes, this.mainRule].sort(compareBySpecificity);
+        }
+        return this.matches;
+    }
+
+    private insertHere(scopeDepth: number, parentScopes: string[], fontStyle: string | undefined, foreground: string | undefined): void {
+        if (parentScopes.length === 0) {
+            this.mainRule.acceptOverwrite(scopeDepth, fontStyle, foreground);
+            return;
+        }
+
+        const existing = this.rulesWithParentScopes.find(rule => compareStringArrays(rule.parentScopes, parentScopes) === 0);
+        if (existing) {
+            existing.acceptOverwrite(scopeDepth, fontStyle, foreground);
+            return;
+        }
+
+        // A new rule with parents starts from what the selector's own scope already gets
+        this.rulesWithParentScopes.push(new TrieRule(
+            scopeDepth,
+            parentScopes,
+            fontStyle ?? this.mainRule.fontStyle,
+            foreground ?? this.mainRule.foreground
+        ));
+    }
+}
+
+/**
+ * ScopeStyleResolver - Resolves TextMate scope stacks against the `tokenColors` rules of a theme
+ * Follows the editor's theme matching: the rule for the longest prefix of a scope wins, ties go to
+ * the rule whose parent selectors are longer, then to the later rule; attributes a scope's rule
+ * does not set are inherited from the scopes around it.
+ */
+export class ScopeStyleResolver {
+    private readonly root = new TrieNode(new TrieRule(0, [], undefined, undefined));
+    private readonly cache = new Map<string, ScopeStyle>();
+
+    constructor(rules: TokenColorRule[]) {
+        const parsed: Array<{ scope: string; parentScopes: string[]; index: number; fontStyle?: string; foreground?: string }> = [];
+
+        rules.forEach((rule, index) => {
+            if (!rule || !rule.settings) {
+                return;
+            }
+            const fontStyle = normalizeFontStyle(rule.settings.fontStyle);
+            const foreground = normalizeThemeColor(rule.settings.foreground);
+
+            for (const selector of getRuleSelectors(rule)) {
+                const segments = selector.split(/\s+/);
+                parsed.push({
+                    scope: segments[segments.length - 1],
+                    parentScopes: segments.slice(0, -1).reverse(),
+                    index,
+                    fontStyle,
+                    foreground
+                });
+            }
+        });
+
+        parsed.sort((a, b) => compareStrings(a.scope, b.scope)
+            || compareStringArrays(a.parentScopes, b.parentScopes)
+            || a.index - b.index);
+
+        for (const rule of parsed) {
+            this.root.insert(0, rule.scope.split('.'), rule.parentScopes, rule.fontStyle, rule.foreground);
+        }
+    }
+
+    /**
+     * Resolve a scope stack, ordered from the outermost scope to the innermost
+     */
+    public resolve(scopes: string[]): ScopeStyle {
+        const key = scopes.join(' ');
+        const cached = this.cache.get(key);
+        if (cached) {
+            return cached;
+        }
+
+        const style: ScopeStyle = {};
+        for (let level = 0; level < scopes.length; level++) {
+            const parents = scopes.slice(0, level).reverse();
+            const rule = this.root.match(scopes[level].split('.'))
+                .find(candidate => matchesParentScopes(parents, candidate.parentScopes));
+
+            if (rule?.foreground !== undefined) {
+                style.foreground = rule.foreground;
+            }
+            if (rule?.fontStyle !== undefined) {
+                style.fontStyle = rule.fontStyle;
+            }
+        }
+
+        this.cache.set(key, style);
+        return style;
+    }
+}
+
+/**
+ * Get the selectors of a rule; an empty list for the global settings entry of tmThemes
+ */
+export function getRuleSelectors(rule: TokenColorRule): string[] {
+    const selectors = Array.isArray(rule.scope) ? rule.scope : (rule.scope || '').split(',');
+    return selectors.map(selector => selector.trim()).filter(selector => selector.length > 0);
+}
+
+/**
+ * Normalize a theme color to lowercase `#rrggbb` or `#rrggbbaa`
+ * Returns undefined for values that are not hex colors
+ */
+export function normalizeThemeColor(value: unknown): string | undefined {
+    if (typeof value !== 'string' || !/^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/i.test(value)) {
+        return undefined;
+    }
+
+    const hex = value.substring(1).toLowerCase();
+    return hex.length <= 4
+        ? '#' + Array.from(hex, char => char + char).join('')
+        : '#' + hex;
+}
+
+/**
+ * Normalize a font style to its known styles in a fixed order
+ * Returns undefined when no font style is given
+ */
+export function normalizeFontStyle(value: unknown): string | undefined {
+    if (typeof value !== 'string') {
+        return undefined;
+    }
+    const styles = value.split(/\s+/);
+    return FONT_STYLES.filter(style => styles.includes(style)).join(' ');
+}
+
+/**
+ * Check if the parents of a scope match a rule's parent selectors
+ * Parents and selectors both run from the innermost outwards; a selector may skip parents unless
+ * it follows `>`
+ */
+function matchesParentScopes(parents: string[], parentScopes: string[]): boolean {
+    let position = 0;
+
+    for (let index = 0; index < parentScopes.length; index++) {
+        let selector = parentScopes[index];
+        let direct = false;
+        if (selector === '>') {
+            if (index === parentScopes.length - 1) {
+                return false;
+            }
+            selector = parentScopes[++index];
+            direct = true;
+        }
+
+        while (position < parents.length && !matchesScope(parents[position], selector)) {
+            if (direct) {
+                return false;
+            }
+            position++;
+        }
+        if (position >= parents.length) {
+            return false;
+        }
+        position++;
+    }
+
+    return true;
+}
+
+/**
+ * Check if a selector is a scope or one of its dot-separated prefixes
+ */
+function matchesScope(scope: string, selector: string): boolean {
+    return scope === selector || (scope.startsWith(selector) && scope.charAt(selector.length) === '.');
+}
+
+/**
+ * Order rules from the most specific: deeper scope first, then longer parent selectors
+ */
+function compareBySpecificity(a: TrieRule, b: TrieRule): number {
+    if (a.scopeDepth !== b.scopeDepth) {
+        return b.scopeDepth - a.scopeDepth;
+    }
+
+    let aIndex = 0;
+    let bIndex = 0;
+    while (true) {
+        if (a.parentScopes[aIndex] === '>') {
+            aIndex++;
+        }
+        if (b.parentScopes[bIndex] === '>') {
+            bIndex++;
+        }
+        if (aIndex >= a.parentScopes.length || bIndex >= b.parentScopes.length) {
+            break;
+        }
+
+        const lengthDifference = b.parentScopes[bIndex].length - a.parentScopes[aIndex].length;
+        if (lengthDifference !== 0) {
+            return lengthDifference;
+        }
+        aIndex++;
+        bIndex++;
+    }
+
+    return b.parentScopes.length - a.parentScopes.length;
+}
+
+function compareStrings(a: string, b: string): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareStringArrays(a: string[], b: string[]): number {
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        const result = compareStrings(a[i], b[i]);
+        if (result !== 0) {
+            return result;
+        }
+    }
+    return a.length - b.length;
+}
@@ -0,0 +1,274 @@
+import { Token } from './tokenizationService';
+import { normalizeFontStyle } from './scopeSelectors';
+
+/**
+ * Legend describing how token types and modifiers of a semantic tokens provider are encoded
+ * Structurally compatible with vscode.SemanticTokensLegend
+ */
+export interface SemanticTokensLegendData {
+    readonly tokenTypes: readonly string[];
+    readonly tokenModifiers: readonly string[];
+}
+
+/**
+ * Colors keyed by semantic token selector, as in VS Code's `semanticTokenColors`
+ * Selectors have the form `type.modifier1.modifier2:language`, where the type may be `*`
+ * and the modifiers and language are optional
+ */
+export interface SemanticTokenColors {
+    [selector: string]: string;
+}
+
+/**
+ * Decode a token modifier bit set into modifier names using a legend
+ */
+export function decodeTokenModifiers(bitSet: number, legend: SemanticTokensLegendData): string[] {
+    const modifiers: string[] = [];
+
+    for (let bit = 0; bitSet !== 0 && bit < legend.tokenModifiers.length; bit++) {
+        if (bitSet & 1) {
+            modifiers.push(legend.tokenModifiers[bit]);
+        }
+        bitSet = bitSet >>> 1;
+    }
+
+    return modifiers;
+}
+
+/**
+ * A semantic token decoded to an absolute position in the document text
+ */
+export interface DecodedSemanticToken {
+    startIndex: number;
+    length: number;
+    type: string;
+    modifiers: string[];
+}
+
+/**
+ * Compute the offset of the first character of every line
+ */
+export function computeLineOffsets(text: string): number[] {
+    const offsets = [0];
+
+    for (let index = text.indexOf('\n'); index !== -1; index = text.indexOf('\n', index + 1)) {
+        offsets.push(index + 1);
+    }
+
+    return offsets;
+}
+
+/**
+ * Decode relative semantic token data into absolute tokens in a single pass
+ * Data is encoded as [deltaLine, deltaStartChar, length, tokenType, tokenModifiers] per token;
+ * positions are resolved through a line-offset table so decoding is linear in text and token count
+ */
+export function decodeSemanticTokens(
+    text: string,
+    data: ArrayLike<number>,
+    legend: SemanticTokensLegendData
+): DecodedSemanticToken[] {
+    const lineOffsets = computeLineOffsets(text);
+    const modifierCache: Map<number, string[]> = new Map();
+    const tokens: DecodedSemanticToken[] = [];
+
+    let currentLine = 0;
+    let currentChar = 0;
+
+    for (let i = 0; i + 4 < data.length; i += 5) {
+        const deltaLine = data[i];
+
+        currentLine += deltaLine;
+        currentChar = deltaLine === 0 ? currentChar + data[i + 1] : data[i + 1];
+
+        // Providers may report tokens past the end of the text
+        if (currentLine >= lineOffsets.length) {
+            break;
+        }
+
+        const modifierBits = data[i + 4];
+        let modifiers = modifierCache.get(modifierBits);
+        if (!modifiers) {
+            modifiers = decodeTokenModifiers(modifierBits, legend);
+            modifierCache.set(modifierBits, modifiers);
+        }
+
+        tokens.push({
+            startIndex: lineOffsets[currentLine] + currentChar,
+            length: data[i + 2],
+            type: legend.tokenTypes[data[i + 3]] || 'unknown',
+            modifiers
+        });
+    }
+
+    return tokens;
+}
+
+/**
+ * Color and font style of a semantic token, given its type, modifiers and scopes
+ */
+export interface SemanticTokenStyle {
+    color: string;
+    fontStyle?: string;
+}
+
+/**
+ * Decode semantic token data into styled tokens
+ * Deprecated symbols are struck through on top of their font style, like in the editor;
+ * the text between semantic tokens is left uncovered
+ */
+export function parseSemanticTokens(
+    text: string,
+    data: ArrayLike<number>,
+    legend: SemanticTokensLegendData,
+    getStyle: (type: string, modifiers: string[], scopes: string[]) => SemanticTokenStyle
+): Token[] {
+    return decodeSemanticTokens(text, data, legend).map(decoded => {
+        const scopes = getSemanticTokenScopes(decoded.type, decoded.modifiers);
+        const style = getStyle(decoded.type, decoded.modifiers, scopes);
+        const token: Token = {
+            text: text.substring(decoded.startIndex, decoded.startIndex + decoded.length),
+            scopes,
+            startIndex: decoded.startIndex,
+            endIndex: decoded.startIndex + decoded.length,
+            color: style.color
+        };
+
+        const baseFontStyle = style.fontStyle || '';
+        const fontStyle = normalizeFontStyle(
+            decoded.modifiers.includes('deprecated') ? `${baseFontStyle} strikethrough` : baseFontStyle
+        );
+        if (fontStyle) {
+            token.fontStyle = fontStyle;
+        }
+        return token;
+    });
+}
+
+/**
+ * Layer semantic tokens over the tokens of a grammar, as the editor does
+ * Grammar tokens are split where semantic tokens start and end; the parts a semantic token covers
+ * add its scopes and take its color, and its font style when it has one. Both lists are sorted
+ * by offset and free of overlaps
+ */
+export function overlaySemanticTokens(base: Token[], semantic: Token[]): Token[] {
+    const tokens: Token[] = [];
+    let next = 0;
+
+    for (const token of base) {
+        let position = token.startIndex;
+
+        while (position < token.endIndex) {
+            while (next < semantic.length && semantic[next].endIndex <= position) {
+                next++;
+            }
+
+            const overlay = semantic[next];
+            if (!overlay || overlay.startIndex >= token.endIndex) {
+                tokens.push(sliceToken(token, position, token.endIndex));
+                break;
+            }
+            if (overlay.startIndex > position) {
+                tokens.push(sliceToken(token, position, overlay.startIndex));
+                position = overlay.startIndex;
+            }
+
+            const end = Math.min(overlay.endIndex, token.endIndex);
+            const layered = sliceToken(token, position, end);
+            layered.scopes = [...token.scopes, ...overlay.scopes];
+            layered.color = overlay.color;
+            if (overlay.fontStyle) {
+                layered.fontStyle = overlay.fontStyle;
+            }
+            tokens.push(layered);
+            position = end;
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Get the part of a token between two offsets into the text
+ */
+function sliceToken(token: Token, start: number, end: number): Token {
+    if (start === token.startIndex && end === token.endIndex) {
+        return { ...token };
+    }
+    return {
+        ...token,
+        text: token.text.substring(start - token.startIndex, end - token.startIndex),
+        startIndex: start,
+        endIndex: end
+    };
+}
+
+/**
+ * Build the scopes of a semantic token
+ * The type comes first, followed by one `type.modifier` scope per modifier
+ */
+export function getSemanticTokenScopes(type: string, modifiers: string[]): string[] {
+    return [type, ...modifiers.map(modifier => `${type}.${modifier}`)];
+}
+
+/**
+ * Score how well a selector matches a token; -1 when it does not match
+ * An explicit type outweighs any number of modifiers, as does an explicit language
+ */
+export function scoreSemanticSelector(
+    selector: string,
+    type: string,
+    modifiers: string[],
+    language?: string
+): number {
+    const [selectorBody, selectorLanguage] = selector.split(':');
+    const [selectorType, ...selectorModifiers] = selectorBody.trim().split('.');
+
+    let score = 0;
+
+    if (selectorLanguage !== undefined) {
+        if (selectorLanguage.trim() !== language) {
+            return -1;
+        }
+        score += 1000;
+    }
+
+    if (selectorType !== '*') {
+        if (selectorType !== type) {
+            return -1;
+        }
+        score += 100;
+    }
+
+    for (const modifier of selectorModifiers) {
+        if (!modifiers.includes(modifier)) {
+            return -1;
+        }
+        score += 1;
+    }
+
+    return score;
+}
+
+/**
+ * Find the color of the best matching selector for a semantic token
+ */
+export function resolveSemanticTokenColor(
+    colors: SemanticTokenColors,
+    type: string,
+    modifiers: string[],
+    language?: string
+): string | undefined {
+    let bestScore = -1;
+    let bestColor: string | undefined;
+
+    for (const [selector, color] of Object.entries(colors)) {
+        const score = scoreSemanticSelector(selector, type, modifiers, language);
+        if (score > bestScore) {
+            bestScore = score;
+            bestColor = color;
+        }
+    }
+
+    return bestColor;
+}
@@ -0,0 +1,291 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import * as oniguruma from 'vscode-oniguruma';
+import * as vsctm from 'vscode-textmate';
+import { Token } from './tokenizationService';
+
+/**
+ * A TextMate grammar contributed by an installed extension
+ */
+export interface GrammarContribution {
+    scopeName: string;
+    path: string;
+    language?: string;
+    embeddedLanguages?: { [scopeName: string]: string };
+    injectTo?: string[];
+}
+
+/**
+ * Resolves grammar contributions by language id or scope name
+ */
+export interface GrammarLocator {
+    getGrammarForLanguage(languageId: string): GrammarContribution | undefined;
+    getGrammarForScope(scopeName: string): GrammarContribution | undefined;
+    getInjections(scopeName: string): string[];
+}
+
+/**
+ * Serializable copy of the grammar index, used to locate grammars in worker threads
+ */
+export interface GrammarSnapshot {
+    grammars: GrammarContribution[];
+    languages: { [languageId: string]: string };
+    injections: { [scopeName: string]: string[] };
+}
+
+/**
+ * GrammarLocator backed by a grammar snapshot
+ */
+export class StaticGrammarLocator implements GrammarLocator {
+    private grammarsByScope: Map<string, GrammarContribution> = new Map();
+    private snapshot: GrammarSnapshot;
+
+    constructor(snapshot: GrammarSnapshot) {
+        this.snapshot = snapshot;
+        for (const grammar of snapshot.grammars) {
+            this.grammarsByScope.set(grammar.scopeName, grammar);
+        }
+    }
+
+    /**
+     * Get the grammar contributed for a language id
+     */
+    public getGrammarForLanguage(languageId: string): GrammarContribution | undefined {
+        const scopeName = this.snapshot.languages[languageId];
+        return scopeName ? this.grammarsByScope.get(scopeName) : undefined;
+    }
+
+    /**
+     * Get the grammar contributed for a scope name
+     */
+    public getGrammarForScope(scopeName: string): GrammarContribution | undefined {
+        return this.grammarsByScope.get(scopeName);
+    }
+
+    /**
+     * Get the scope names of grammars injected into a scope
+     */
+    public getInjections(scopeName: string): string[] {
+        return this.snapshot.injections[scopeName] || [];
+    }
+}
+
+/**
+ * Cancellation signal checked between lines
+ * Structurally compatible with vscode.CancellationToken
+ */
+export interface CancellationSignal {
+    readonly isCancellationRequested: boolean;
+}
+
+/**
+ * Grammar rule stack at the end of a line, used to continue tokenization
+ */
+export type GrammarState = vsctm.StateStack;
+
+/**
+ * Result of tokenizing a piece of code with a grammar
+ */
+export interface GrammarTokenizeResult {
+    tokens: Token[];
+    state: GrammarState;
+}
+
+/**
+ * TextMateEngine - Tokenizes code with the real TextMate grammars via vscode-textmate
+ * Uses the oniguruma WASM build bundled with vscode-oniguruma, so it has no dependency
+ * on the VS Code API and produces tokens carrying their full scope stacks
+ */
+export class TextMateEngine {
+    private static onigLibPromise: Promise<vsctm.IOnigLib> | null = null;
+
+    private locator: GrammarLocator;
+    private registry: vsctm.Registry;
+    private grammarCache: Map<string, Promise<vsctm.IGrammar | null>> = new Map();
+    private readonly LINE_TIME_LIMIT = 500; // Per-line budget in milliseconds
+    private readonly LINES_PER_SLICE = 100; // Lines tokenized between checks for a cancellation
+
+    constructor(locator: GrammarLocator) {
+        this.locator = locator;
+        this.registry = this.createRegistry();
+    }
+
+    /**
+     * Check if a grammar is available for a language
+     */
+    public hasGrammar(languageId: string): boolean {
+        return this.locator.getGrammarForLanguage(languageId) !== undefined;
+    }
+
+    /**
+     * Tokenize code with the grammar registered for a language
+     * Returns null when no grammar is available for the language
+     */
+    public async tokenize(code: string, languageId: string): Promise<Token[] | null> {
+        const result = await this.tokenizeWithState(code, languageId);
+        return result ? result.tokens : null;
+    }
+
+    /**
+     * Tokenize code starting from a previous grammar state and return the state at the end
+     * Lets callers that split a block into chunks keep multi-line constructs intact.
+     * Returns null when no grammar is available or the cancellation signal fired.
+     * With a cancellation signal, yields to the event loop between slices of lines so that
+     * a cancellation request can arrive while a long block is being tokenized.
+     */
+    public async tokenizeWithState(
+        code: string,
+        languageId: string,
+        initialState: GrammarState = vsctm.INITIAL,
+        cancellation?: CancellationSignal
+    ): Promise<GrammarTokenizeResult | null> {
+        const grammar = await this.loadGrammarForLanguage(languageId);
+        if (!grammar) {
+            return null;
+        }
+
+        const tokens: Token[] = [];
+        const lines = code.split('\n');
+        let ruleStack: vsctm.StateStack = initialState;
+        let position = 0;
+
+        for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
+            if (cancellation && lineIndex > 0 && lineIndex % this.LINES_PER_SLICE === 0) {
+                await yieldToEventLoop();
+            }
+            if (cancellation?.isCancellationRequested) {
+                return null;
+            }
+
+            const line = lines[lineIndex];
+            const result = grammar.tokenizeLine(line, ruleStack, this.LINE_TIME_LIMIT);
+
+            for (const token of result.tokens) {
+                // Grammars report a single empty token for empty lines
+                const endIndex = Math.min(token.endIndex, line.length);
+                if (endIndex <= token.startIndex) {
+                    continue;
+                }
+
+                tokens.push({
+                    text: line.substring(token.startIndex, endIndex),
+                    scopes: token.scopes,
+                    startIndex: position + token.startIndex,
+                    endIndex: position + endIndex
+                });
+            }
+
+            ruleStack = result.ruleStack;
+            position += line.length;
+
+            if (lineIndex < lines.length - 1) {
+                tokens.push({
+                    text: '\n',
+                    scopes: ['text'],
+                    startIndex: position,
+                    endIndex: position + 1
+                });
+                position += 1;
+            }
+        }
+
+        return { tokens, state: ruleStack };
+    }
+
+    /**
+     * Drop loaded grammars (e.g. after extensions were installed or removed)
+     */
+    public reset(): void {
+        this.registry.dispose();
+        this.grammarCache.clear();
+        this.registry = this.createRegistry();
+    }
+
+    /**
+     * Load (and cache) the grammar for a language
+     */
+    private loadGrammarForLanguage(languageId: string): Promise<vsctm.IGrammar | null> {
+        const contribution = this.locator.getGrammarForLanguage(languageId);
+        if (!contribution) {
+            return Promise.resolve(null);
+        }
+
+        let grammarPromise = this.grammarCache.get(contribution.scopeName);
+        if (!grammarPromise) {
+            grammarPromise = this.registry
+                .loadGrammarWithConfiguration(contribution.scopeName, 1, {
+                    embeddedLanguages: this.mapEmbeddedLanguages(contribution)
+                })
+                .catch(() => null);
+            this.grammarCache.set(contribution.scopeName, grammarPromise);
+        }
+
+        return grammarPromise;
+    }
+
+    /**
+     * Map embedded language scopes to numeric ids as vscode-textmate expects
+     */
+    private mapEmbeddedLanguages(contribution: GrammarContribution): vsctm.IEmbeddedLanguagesMap {
+        const embedded: vsctm.IEmbeddedLanguagesMap = {};
+        let nextId = 2;
+
+        for (const scopeName of Object.keys(contribution.embeddedLanguages || {})) {
+            embedded[scopeName] = nextId++;
+        }
+
+        return embedded;
+    }
+
+    /**
+     * Create a vscode-textmate registry backed by the grammar locator
+     */
+    private createRegistry(): vsctm.Registry {
+        return new vsctm.Registry({
+            onigLib: TextMateEngine.loadOnigLib(),
+            loadGrammar: async (scopeName: string) => {
+                const contribution = this.locator.getGrammarForScope(scopeName);
+                if (!contribution) {
+                    return null;
+                }
+
+                const content = await fs.promises.readFile(contribution.path, 'utf8');
+                return vsctm.parseRawGrammar(content, contribution.path);
+            },
+            getInjections: (scopeName: string) => this.locator.getInjections(scopeName)
+        });
+    }
+
+    /**
+     * Load the oniguruma WASM module once per process
+     */
+    private static loadOnigLib(): Promise<vsctm.IOnigLib> {
+        if (!TextMateEngine.onigLibPromise) {
+            const wasmPath = path.join(path.dirname(require.resolve('vscode-oniguruma')), 'onig.wasm');
+
+            TextMateEngine.onigLibPromise = fs.promises.readFile(wasmPath)
+                .then(wasm => oniguruma.loadWASM(wasm))
+                .then(() => ({
+                    createOnigScanner: (patterns: string[]) => oniguruma.createOnigScanner(patterns),
+                    createOnigString: (str: string) => oniguruma.createOnigString(str)
+                }));
+        }
+
+        return TextMateEngine.onigLibPromise;
+    }
+
+    /**
+     * Dispose resources
+     */
+    public dispose(): void {
+        this.registry.dispose();
+        this.grammarCache.clear();
+    }
+}
+
+/**
+ * Let pending events (e.g. cancellation requests) run before continuing
+ */
+export function yieldToEventLoop(): Promise<void> {
+    return new Promise(resolve => setImmediate(resolve));
+}
@@ -0,0 +1,208 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as jsonc from 'jsonc-parser';
+import * as vsctm from 'vscode-textmate';
+import { TokenColorRule } from './scopeSelectors';
+
+/**
+ * Everything read from a color theme file and the files it includes
+ * Rules of included files come first, so later rules win like in the editor
+ */
+export interface LoadedTheme {
+    name?: string;
+    colors: { [colorId: string]: string };
+    tokenColors: TokenColorRule[];
+    semanticTokenColors: { [selector: string]: string };
+}
+
+/**
+ * A `contributes.themes` entry resolved against its extension
+ */
+export interface ThemeContribution {
+    id?: string;
+    label: string;
+    uiTheme: string;
+    path: string;
+}
+
+/**
+ * Shape of a `contributes.themes` entry in an extension manifest
+ */
+interface ThemeManifestEntry {
+    id?: string;
+    label?: string;
+    uiTheme?: string;
+    path?: string;
+}
+
+/**
+ * Shape of a tmTheme file once read from its plist
+ * The entry without a scope holds the editor colors
+ */
+interface TmThemeFile {
+    name?: string;
+    settings?: Array<{ name?: string; scope?: string | string[]; settings?: { [key: string]: string } }>;
+}
+
+/**
+ * Editor colors of a tmTheme's global settings entry, by their color id in JSON themes
+ */
+const TM_THEME_COLOR_IDS: { [setting: string]: string } = {
+    background: 'editor.background',
+    foreground: 'editor.foreground',
+    caret: 'editorCursor.foreground',
+    lineHighlight: 'editor.lineHighlightBackground',
+    selection: 'editor.selectionBackground'
+};
+
+/**
+ * Find the contribution of an installed color theme
+ * `workbench.colorTheme` holds the theme's id, or its label for themes without one
+ */
+export function findThemeContribution(themeName: string): ThemeContribution | null {
+    for (const extension of vscode.extensions.all) {
+        const themes: ThemeManifestEntry[] = extension.packageJSON?.contributes?.themes;
+        if (!Array.isArray(themes)) {
+            continue;
+        }
+
+        for (const entry of themes) {
+            if (!entry.path || !entry.label) {
+                continue;
+            }
+            if (entry.id === themeName || entry.label === themeName) {
+                return {
+                    id: entry.id,
+                    label: entry.label,
+                    uiTheme: entry.uiTheme || 'vs-dark',
+                    path: path.join(extension.extensionPath, entry.path)
+                };
+            }
+        }
+    }
+
+    return null;
+}
+
+/**
+ * Read a JSON or tmTheme color theme file, following `include` chains and
+ * `tokenColors` that point to another file
+ * Files already being read are skipped, so include cycles end
+ */
+export async function loadThemeFile(filePath: string, visited: Set<string> = new Set()): Promise<LoadedTheme> {
+    const resolvedPath = path.resolve(filePath);
+    if (visited.has(resolvedPath)) {
+        return { colors: {}, tokenColors: [], semanticTokenColors: {} };
+    }
+    visited.add(resolvedPath);
+
+    const content = await fs.promises.readFile(resolvedPath, 'utf8');
+    if (path.extname(resolvedPath).toLowerCase() !== '.json') {
+        return readTmTheme(content, resolvedPath);
+    }
+
+    const errors: jsonc.ParseError[] = [];
+    const json = jsonc.parse(content, errors, { allowTrailingComma: true });
+    if (!json || typeof json !== 'object' || Array.isArray(json)) {
+        throw new Error(`Invalid color theme file: ${resolvedPath}`);
+    }
+
+    const directory = path.dirname(resolvedPath);
+    const theme: LoadedTheme = typeof json.include === 'string'
+        ? await loadThemeFile(path.join(directory, json.include), visited)
+        : { colors: {}, tokenColors: [], semanticTokenColors: {} };
+
+    if (typeof json.name === 'string') {
+        theme.name = json.name;
+    }
+    Object.assign(theme.colors, readStringMap(json.colors));
+    Object.assign(theme.semanticTokenColors, readSemanticTokenColors(json.semanticTokenColors));
+
+    if (typeof json.tokenColors === 'string') {
+        const tokenColorsTheme = await loadThemeFile(path.join(directory, json.tokenColors), visited);
+        theme.tokenColors.push(...tokenColorsTheme.tokenColors);
+    } else if (Array.isArray(json.tokenColors)) {
+        theme.tokenColors.push(...json.tokenColors.filter(isTokenColorRule));
+    }
+
+    return theme;
+}
+
+/**
+ * Read the rules and editor colors of a tmTheme plist
+ * vscode-textmate reads plists when the file is not JSON
+ */
+function readTmTheme(content: string, filePath: string): LoadedTheme {
+    const file = vsctm.parseRawGrammar(content, filePath) as unknown as TmThemeFile;
+    const theme: LoadedTheme = { colors: {}, tokenColors: [], semanticTokenColors: {} };
+    if (typeof file.name === 'string') {
+        theme.name = file.name;
+    }
+
+    for (const entry of Array.isArray(file.settings) ? file.settings : []) {
+        if (!entry || !entry.settings) {
+            continue;
+        }
+
+        if (!entry.scope) {
+            for (const [setting, colorId] of Object.entries(TM_THEME_COLOR_IDS)) {
+                if (typeof entry.settings[setting] === 'string') {
+                    theme.colors[colorId] = entry.settings[setting];
+                }
+            }
+            continue;
+        }
+
+        theme.tokenColors.push({
+            name: entry.name,
+            scope: entry.scope,
+            settings: {
+                foreground: entry.settings.foreground,
+                background: entry.settings.background,
+                fontStyle: entry.settings.fontStyle
+            }
+        });
+    }
+
+    return theme;
+}
+
+/**
+ * Check if a `tokenColors` entry has settings to apply
+ */
+function isTokenColorRule(value: unknown): value is TokenColorRule {
+    return !!value && typeof value === 'object' && typeof (value as TokenColorRule).settings === 'object';
+}
+
+/**
+ * Keep the string values of a JSON object
+ */
+function readStringMap(value: unknown): { [key: string]: string } {
+    const map: { [key: string]: string } = {};
+    if (value && typeof value === 'object') {
+        for (const [key, entry] of Object.entries(value)) {
+            if (typeof entry === 'string') {
+                map[key] = entry;
+            }
+        }
+    }
+    return map;
+}
+
+/**
+ * Read the foregrounds of a theme's `semanticTokenColors`
+ * Values are either a color or an object with a `foreground`
+ */
+function readSemanticTokenColors(value: unknown): { [selector: string]: string } {
+    const colors: { [selector: string]: string } = {};
+    if (value && typeof value === 'object') {
+        for (const [selector, entry] of Object.entries(value)) {
+            const foreground = typeof entry === 'string' ? entry : entry?.foreground;
+            if (typeof foreground === 'string') {
+                colors[selector] = foreground;
+            }
+        }
+    }
+    return colors;
+}
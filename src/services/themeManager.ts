@@ -1,13 +1,37 @@
 import * as vscode from 'vscode';
+import { SemanticTokenColors } from './semanticTokens';
+import { ANSI_COLOR_NAMES, AnsiColors } from './ansiMode';
+import { LoadedTheme, findThemeContribution, loadThemeFile } from './themeLoader';
+import { ScopeStyleResolver, TokenColorRule, normalizeThemeColor } from './scopeSelectors';
+import { getSemanticTokenColorCustomizations, getTokenColorCustomizationRules } from './colorCustomizations';
+import { findBundledTheme } from './bundledThemes';
+import { CONTRAST_LEVELS, ContrastLevel, enforceContrast, ensureContrast } from './contrast';
+import { ColorVisionMode, createColorVisionRemap, isColorVisionMode } from './colorVision';
+
+/**
+ * Line backgrounds of diff blocks
+ */
+export interface DiffColors {
+    insertedLineBackground: string;
+    removedLineBackground: string;
+    hunkLineBackground: string;
+}
 
 /**
  * Theme data structure for serialization to webview
+ * `fontStyles` holds the TextMate font style of token types that are not normal, e.g. `italic`;
+ * `adjustedTokenTypes` lists the token types and semantic selectors whose colors were changed to
+ * reach the `minimumContrast` level
  */
 export interface ThemeData {
     kind: 'light' | 'dark' | 'highContrast';
     colors: {
         [tokenType: string]: string;
     };
+    fontStyles?: {
+        [tokenType: string]: string;
+    };
+    semanticTokenColors?: SemanticTokenColors;
     background: string;
     foreground: string;
     borderColor: string;
@@ -16,8 +40,70 @@ export interface ThemeData {
     buttonForeground: string;
     buttonHoverBackground: string;
     accentColor: string;
+    diffColors?: DiffColors;
+    ansiColors?: AnsiColors;
+    tokenColors?: TokenColorRule[];
+    adjustedTokenTypes?: string[];
+}
+
+/**
+ * Scope each token type takes its color from when a theme file is loaded
+ */
+const TOKEN_TYPE_SCOPES: { [tokenType: string]: string } = {
+    'comment': 'comment',
+    'string': 'string',
+    'keyword': 'keyword.control',
+    'number': 'constant.numeric',
+    'function': 'entity.name.function',
+    'class': 'entity.name.type.class',
+    'variable': 'variable',
+    'constant': 'constant.language',
+    'operator': 'keyword.operator',
+    'type': 'entity.name.type',
+    'parameter': 'variable.parameter',
+    'property': 'variable.other.property',
+    'punctuation': 'punctuation',
+    'regexp': 'string.regexp',
+    'storage': 'storage.type',
+    'support': 'support.class',
+    'entity': 'entity.name',
+    'tag': 'entity.name.tag',
+    'attribute': 'entity.other.attribute-name',
+    'markup.heading': 'markup.heading',
+    'markup.bold': 'markup.bold',
+    'markup.italic': 'markup.italic',
+    'markup.underline': 'markup.underline',
+    'markup.strikethrough': 'markup.strikethrough',
+    'markup.inserted': 'markup.inserted',
+    'markup.deleted': 'markup.deleted',
+    'markup.changed': 'markup.changed',
+    'invalid': 'invalid',
+    'namespace': 'entity.name.namespace',
+    'enumMember': 'variable.other.enummember',
+    'decorator': 'meta.decorator',
+    'label': 'entity.name.label'
+};
+
+/**
+ * A theme shown in previews instead of the editor's, with the names customization blocks match it by
+ */
+interface PreviewTheme {
+    names: string[];
+    kind: 'light' | 'dark' | 'highContrast';
+    theme: LoadedTheme;
 }
 
+/**
+ * Font styles of the built-in palettes, as in the editor's default themes
+ */
+const DEFAULT_FONT_STYLES: { [tokenType: string]: string } = {
+    'markup.heading': 'bold',
+    'markup.bold': 'bold',
+    'markup.italic': 'italic',
+    'markup.underline': 'underline',
+    'markup.strikethrough': 'strikethrough'
+};
+
 /**
  * ThemeManager - Manages VS Code color theme detection and synchronization
  * Extracts theme colors for syntax tokens and provides theme change notifications
@@ -30,11 +116,29 @@ export class ThemeManager {
     private currentThemeData: ThemeData | null = null;
     private disposables: vscode.Disposable[] = [];
     private customThemeOverrides: { [key: string]: string } = {};
+    private loadedTheme: LoadedTheme | null = null;
+    private previewTheme: PreviewTheme | null = null;
+    private namedThemeData = new Map<string, Promise<ThemeData | null>>();
+    private themeLoadId = 0;
 
     constructor() {
-        // Listen for theme changes
+        // Listen for theme changes; the new theme's file is read before listeners are notified
+        this.disposables.push(
+            vscode.window.onDidChangeActiveColorTheme(() => this.refreshActiveTheme(false))
+        );
+
+        // Color customizations in the user's settings apply on top of the theme
         this.disposables.push(
-            vscode.window.onDidChangeActiveColorTheme(this.handleThemeChange.bind(this))
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('markdownCodeBlockHighlighter.previewTheme')) {
+                    this.refreshActiveTheme(false);
+                } else if (event.affectsConfiguration('editor.tokenColorCustomizations')
+                    || event.affectsConfiguration('editor.semanticTokenColorCustomizations')
+                    || event.affectsConfiguration('markdownCodeBlockHighlighter.minimumContrast')
+                    || event.affectsConfiguration('markdownCodeBlockHighlighter.colorVisionMode')) {
+                    this.handleThemeChange(vscode.window.activeColorTheme);
+                }
+            })
         );
         
         // Initialize with current theme
@@ -42,6 +146,9 @@ export class ThemeManager {
         
         // Load custom theme overrides from settings
         this.loadCustomThemeOverrides();
+
+        // Replace the built-in palettes with the active theme's colors once its file is read
+        this.refreshActiveTheme(true);
     }
 
     /**
@@ -54,6 +161,43 @@ export class ThemeManager {
         return this.currentThemeData!;
     }
 
+    /**
+     * Get the theme data of a theme given by name, such as the `theme=` attribute of a block,
+     * resolved like the `previewTheme` setting
+     * Returns null when the theme cannot be found; results are kept until the theme or settings change
+     */
+    public getThemeDataForTheme(name: string): Promise<ThemeData | null> {
+        const key = name.trim().toLowerCase();
+        let themeData = this.namedThemeData.get(key);
+        if (!themeData) {
+            themeData = this.loadPreviewTheme(name).then(previewTheme => {
+                if (!previewTheme) {
+                    return null;
+                }
+                const data = this.extractThemeData(vscode.window.activeColorTheme, previewTheme.theme, previewTheme);
+                return this.validateThemeData(data) ? data : null;
+            });
+            this.namedThemeData.set(key, themeData);
+        }
+        return themeData;
+    }
+
+    /**
+     * Get the active theme's data with a color vision mode applied, or none for the theme's own colors,
+     * whatever the `colorVisionMode` setting is
+     */
+    public getThemeDataForColorVisionMode(mode: ColorVisionMode | null): ThemeData {
+        return this.extractThemeData(vscode.window.activeColorTheme, this.loadedTheme, this.previewTheme, mode);
+    }
+
+    /**
+     * Read the `colorVisionMode` setting; null when the palette is not remapped
+     */
+    public getColorVisionMode(): ColorVisionMode | null {
+        const mode = vscode.workspace.getConfiguration('markdownCodeBlockHighlighter').get<string>('colorVisionMode', 'off');
+        return isColorVisionMode(mode) ? mode : null;
+    }
+
     /**
      * Validate theme data completeness
      * Ensures all required fields are present and valid
@@ -101,6 +245,7 @@ export class ThemeManager {
      */
     private handleThemeChange(theme: vscode.ColorTheme): void {
         console.log(`Theme changed to: ${theme.kind}`);
+        this.namedThemeData.clear();
         this.updateThemeData();
         
         // Validate before firing event
@@ -114,6 +259,98 @@ export class ThemeManager {
         }
     }
 
+    /**
+     * Read the preview theme, or the active theme's file when previews follow the editor, then
+     * rebuild the theme data and notify listeners
+     * A load finished after a later theme change is dropped; at startup listeners are only
+     * notified when a theme file was found
+     */
+    private async refreshActiveTheme(initial: boolean): Promise<void> {
+        const loadId = ++this.themeLoadId;
+        const previewThemeName = vscode.workspace.getConfiguration('markdownCodeBlockHighlighter').get<string>('previewTheme', '');
+        const previewTheme = await this.loadPreviewTheme(previewThemeName);
+        const loadedTheme = previewTheme ? previewTheme.theme : await this.loadActiveThemeFile();
+        if (loadId !== this.themeLoadId || (initial && !loadedTheme)) {
+            return;
+        }
+
+        this.previewTheme = previewTheme;
+        this.loadedTheme = loadedTheme;
+        this.handleThemeChange(vscode.window.activeColorTheme);
+    }
+
+    /**
+     * Read a theme named like in the `previewTheme` setting: a bundled theme, or an installed theme
+     * by label or id
+     * Returns null for an empty name, which follows the editor, or when the theme cannot be found or read
+     */
+    private async loadPreviewTheme(themeName: string): Promise<PreviewTheme | null> {
+        const name = themeName.trim();
+        if (!name) {
+            return null;
+        }
+
+        try {
+            const bundled = findBundledTheme(name);
+            if (bundled) {
+                return { names: [bundled.name], kind: bundled.kind, theme: bundled };
+            }
+
+            const contribution = findThemeContribution(name);
+            if (!contribution) {
+                console.warn(`Preview theme not found, following the editor theme: ${name}`);
+                return null;
+            }
+
+            const names = [contribution.label, contribution.id].filter((id): id is string => !!id);
+            return {
+                names,
+                kind: this.mapUiTheme(contribution.uiTheme),
+                theme: await loadThemeFile(contribution.path)
+            };
+        } catch (error) {
+            console.warn(`Failed to load preview theme ${name}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Locate and read the file of the active color theme
+     * Returns null when the theme is not contributed by an installed extension or cannot be read
+     */
+    private async loadActiveThemeFile(): Promise<LoadedTheme | null> {
+        try {
+            const themeName = this.getActiveThemeName();
+            const contribution = themeName ? findThemeContribution(themeName) : null;
+            if (!contribution) {
+                return null;
+            }
+
+            const loadedTheme = await loadThemeFile(contribution.path);
+            console.log(`Loaded color theme ${contribution.label}: ${loadedTheme.tokenColors.length} token color rules`);
+            return loadedTheme;
+        } catch (error) {
+            console.warn('Failed to load color theme file:', error);
+            return null;
+        }
+    }
+
+    /**
+     * Get the id or label of the active color theme
+     * With `window.autoDetectColorScheme`, the preferred theme of the current kind is active
+     */
+    private getActiveThemeName(): string | undefined {
+        const workbench = vscode.workspace.getConfiguration('workbench');
+        if (vscode.workspace.getConfiguration('window').get<boolean>('autoDetectColorScheme', false)) {
+            const kind = this.mapThemeKind(vscode.window.activeColorTheme.kind);
+            const preferred = kind === 'light' ? 'preferredLightColorTheme'
+                : kind === 'dark' ? 'preferredDarkColorTheme'
+                    : 'preferredHighContrastColorTheme';
+            return workbench.get<string>(preferred);
+        }
+        return workbench.get<string>('colorTheme');
+    }
+
     /**
      * Update theme data from current active theme
      */
@@ -130,12 +367,30 @@ export class ThemeManager {
 
     /**
      * Extract theme data from VS Code ColorTheme
+     * The loaded theme file, preview theme and color vision mode default to the active ones
      */
-    private extractThemeData(theme: vscode.ColorTheme): ThemeData {
-        const kind = this.mapThemeKind(theme.kind);
+    private extractThemeData(
+        theme: vscode.ColorTheme,
+        loadedTheme: LoadedTheme | null = this.loadedTheme,
+        previewTheme: PreviewTheme | null = this.previewTheme,
+        colorVisionMode: ColorVisionMode | null = this.getColorVisionMode()
+    ): ThemeData {
+        const kind = previewTheme?.kind ?? this.mapThemeKind(theme.kind);
         
-        // Extract token colors with fallback approach
+        // Extract token colors with fallback approach; the rules of a loaded theme file and of
+        // editor.tokenColorCustomizations win over the built-in palette
+        const themeNames = this.getActiveThemeNames(previewTheme);
+        const tokenColors = [
+            ...(loadedTheme?.tokenColors || []),
+            ...getTokenColorCustomizationRules(this.getEditorSetting('tokenColorCustomizations'), themeNames)
+        ];
         let colors = this.extractTokenColors(kind);
+        let fontStyles = { ...DEFAULT_FONT_STYLES };
+        if (tokenColors.length > 0) {
+            const ruleStyles = this.getRuleTokenStyles(tokenColors);
+            colors = { ...colors, ...ruleStyles.colors };
+            fontStyles = this.mergeFontStyles(fontStyles, ruleStyles.fontStyles);
+        }
         
         // Apply custom theme overrides
         colors = { ...colors, ...this.customThemeOverrides };
@@ -143,29 +398,246 @@ export class ThemeManager {
         // Ensure all colors are valid
         colors = this.validateAndFixColors(colors, kind);
         
-        return {
+        const themeData: ThemeData = {
             kind,
             colors,
-            background: this.getBackgroundColor(kind),
-            foreground: this.getForegroundColor(kind),
+            fontStyles,
+            semanticTokenColors: this.getSemanticTokenColors(colors),
+            background: this.getLoadedColor(loadedTheme, 'editor.background') || this.getBackgroundColor(kind),
+            foreground: this.getLoadedColor(loadedTheme, 'editor.foreground') || this.getForegroundColor(kind),
             borderColor: this.getBorderColor(kind),
             borderColorSubtle: this.getBorderColorSubtle(kind),
             buttonBackground: this.getButtonBackground(kind),
             buttonForeground: this.getButtonForeground(kind),
             buttonHoverBackground: this.getButtonHoverBackground(kind),
-            accentColor: this.getAccentColor(kind)
+            accentColor: this.getAccentColor(kind),
+            diffColors: this.getDiffColors(kind),
+            ansiColors: this.getAnsiColors(kind)
         };
+
+        if (loadedTheme) {
+            this.applyLoadedTheme(themeData, loadedTheme);
+        }
+        if (tokenColors.length > 0) {
+            themeData.tokenColors = tokenColors;
+        }
+
+        const semanticCustomizations = getSemanticTokenColorCustomizations(
+            this.getEditorSetting('semanticTokenColorCustomizations'),
+            themeNames
+        );
+        for (const [selector, color] of Object.entries(semanticCustomizations)) {
+            const normalized = normalizeThemeColor(color);
+            if (normalized) {
+                themeData.semanticTokenColors![selector] = normalized;
+            }
+        }
+
+        if (colorVisionMode) {
+            this.applyColorVisionMode(themeData, colorVisionMode);
+        }
+        this.applyMinimumContrast(themeData);
+        return themeData;
+    }
+
+    /**
+     * Move the token colors to hues that stay distinguishable with a color vision deficiency
+     * One remap covers token types, semantic selectors and rules, so equal colors stay equal
+     */
+    private applyColorVisionMode(themeData: ThemeData, mode: ColorVisionMode): void {
+        const semanticTokenColors = themeData.semanticTokenColors || {};
+        const tokenColors = themeData.tokenColors || [];
+        const remap = createColorVisionRemap([
+            ...Object.values(themeData.colors),
+            ...Object.values(semanticTokenColors),
+            ...tokenColors.map(rule => rule.settings.foreground).filter((color): color is string => !!color)
+        ], mode);
+
+        themeData.colors = this.remapColors(themeData.colors, remap);
+        if (themeData.semanticTokenColors) {
+            themeData.semanticTokenColors = this.remapColors(semanticTokenColors, remap);
+        }
+        if (themeData.tokenColors) {
+            themeData.tokenColors = tokenColors.map(rule => rule.settings.foreground
+                ? { ...rule, settings: { ...rule.settings, foreground: remap(rule.settings.foreground) } }
+                : rule);
+        }
+    }
+
+    /**
+     * Apply a color remap to each color of a map
+     */
+    private remapColors(colors: { [key: string]: string }, remap: (color: string) => string): { [key: string]: string } {
+        const remapped: { [key: string]: string } = {};
+        for (const [key, color] of Object.entries(colors)) {
+            remapped[key] = remap(color);
+        }
+        return remapped;
+    }
+
+    /**
+     * Change the token colors that do not reach the `minimumContrast` level against the background
+     * The rules of a loaded theme are adjusted too; the adjusted token types are kept on the theme data
+     */
+    private applyMinimumContrast(themeData: ThemeData): void {
+        const level = this.getMinimumContrastLevel();
+        if (!level) {
+            return;
+        }
+
+        const minimumRatio = CONTRAST_LEVELS[level];
+        const colors = enforceContrast(themeData.colors, themeData.background, minimumRatio);
+        const adjusted = new Set(colors.adjusted);
+        themeData.colors = colors.colors;
+
+        if (themeData.semanticTokenColors) {
+            const semanticColors = enforceContrast(themeData.semanticTokenColors, themeData.background, minimumRatio);
+            semanticColors.adjusted.forEach(selector => adjusted.add(selector));
+            themeData.semanticTokenColors = semanticColors.colors;
+        }
+
+        if (themeData.tokenColors) {
+            themeData.tokenColors = themeData.tokenColors.map(rule => {
+                const foreground = rule.settings.foreground;
+                const adjustedForeground = foreground && ensureContrast(foreground, themeData.background, minimumRatio);
+                return adjustedForeground && adjustedForeground !== foreground
+                    ? { ...rule, settings: { ...rule.settings, foreground: adjustedForeground } }
+                    : rule;
+            });
+        }
+
+        if (adjusted.size > 0) {
+            themeData.adjustedTokenTypes = Array.from(adjusted);
+            console.log(`Adjusted token colors to reach contrast level ${level}: ${themeData.adjustedTokenTypes.join(', ')}`);
+        }
+    }
+
+    /**
+     * Read the `minimumContrast` setting; null when contrast is not enforced
+     */
+    private getMinimumContrastLevel(): ContrastLevel | null {
+        const level = vscode.workspace.getConfiguration('markdownCodeBlockHighlighter').get<string>('minimumContrast', 'off');
+        return level === 'AA' || level === 'AAA' ? level : null;
+    }
+
+    /**
+     * Get the names `[Theme Name]` customization blocks can refer to the active theme by:
+     * its settings value, label and id
+     * A preview theme is matched by its own names
+     */
+    private getActiveThemeNames(previewTheme: PreviewTheme | null): string[] {
+        if (previewTheme) {
+            return previewTheme.names;
+        }
+
+        const themeName = this.getActiveThemeName();
+        if (!themeName) {
+            return [];
+        }
+
+        const contribution = findThemeContribution(themeName);
+        const names = [themeName, contribution?.label, contribution?.id];
+        return names.filter((name, index): name is string => !!name && names.indexOf(name) === index);
+    }
+
+    /**
+     * Read an `editor.*` setting
+     */
+    private getEditorSetting(section: string): unknown {
+        try {
+            return vscode.workspace.getConfiguration('editor').get(section);
+        } catch (error) {
+            console.warn(`Failed to read editor.${section}:`, error);
+            return undefined;
+        }
+    }
+
+    /**
+     * Get the color and font style each token type takes from a set of theme rules
+     * Font styles are included when a rule sets one, so an empty style resets the default
+     */
+    private getRuleTokenStyles(tokenColors: TokenColorRule[]): {
+        colors: { [tokenType: string]: string };
+        fontStyles: { [tokenType: string]: string };
+    } {
+        const resolver = new ScopeStyleResolver(tokenColors);
+        const colors: { [tokenType: string]: string } = {};
+        const fontStyles: { [tokenType: string]: string } = {};
+        for (const [tokenType, scope] of Object.entries(TOKEN_TYPE_SCOPES)) {
+            const style = resolver.resolve([scope]);
+            if (style.foreground) {
+                colors[tokenType] = style.foreground;
+            }
+            if (style.fontStyle !== undefined) {
+                fontStyles[tokenType] = style.fontStyle;
+            }
+        }
+        return { colors, fontStyles };
+    }
+
+    /**
+     * Apply font styles over others, dropping the token types they reset to normal
+     */
+    private mergeFontStyles(
+        fontStyles: { [tokenType: string]: string },
+        overrides: { [tokenType: string]: string }
+    ): { [tokenType: string]: string } {
+        const merged = { ...fontStyles, ...overrides };
+        for (const [tokenType, fontStyle] of Object.entries(merged)) {
+            if (!fontStyle) {
+                delete merged[tokenType];
+            }
+        }
+        return merged;
+    }
+
+    /**
+     * Get a workbench color of the loaded theme, e.g. `editor.background`
+     */
+    private getLoadedColor(loadedTheme: LoadedTheme | null, colorId: string): string | undefined {
+        return normalizeThemeColor(loadedTheme?.colors[colorId]);
+    }
+
+    /**
+     * Add the semantic token colors, terminal colors and diff backgrounds of a loaded theme
+     */
+    private applyLoadedTheme(themeData: ThemeData, loadedTheme: LoadedTheme): void {
+        for (const [selector, color] of Object.entries(loadedTheme.semanticTokenColors)) {
+            const normalized = normalizeThemeColor(color);
+            if (normalized) {
+                themeData.semanticTokenColors![selector] = normalized;
+            }
+        }
+
+        for (const name of ANSI_COLOR_NAMES) {
+            const color = this.getLoadedColor(loadedTheme, `terminal.ansi${name.charAt(0).toUpperCase()}${name.substring(1)}`);
+            if (color) {
+                themeData.ansiColors![name] = color;
+            }
+        }
+
+        const inserted = this.getLoadedColor(loadedTheme, 'diffEditor.insertedLineBackground');
+        const removed = this.getLoadedColor(loadedTheme, 'diffEditor.removedLineBackground');
+        if (inserted) {
+            themeData.diffColors!.insertedLineBackground = inserted;
+        }
+        if (removed) {
+            themeData.diffColors!.removedLineBackground = removed;
+        }
     }
 
     /**
      * Create fallback theme for partially defined or corrupted themes
      */
     private createFallbackTheme(kind: vscode.ColorThemeKind): ThemeData {
-        const mappedKind = this.mapThemeKind(kind);
+        const mappedKind = this.previewTheme?.kind ?? this.mapThemeKind(kind);
+        const colors = this.extractTokenColors(mappedKind);
         
         return {
             kind: mappedKind,
-            colors: this.extractTokenColors(mappedKind),
+            colors,
+            fontStyles: { ...DEFAULT_FONT_STYLES },
+            semanticTokenColors: this.getSemanticTokenColors(colors),
             background: this.getBackgroundColor(mappedKind),
             foreground: this.getForegroundColor(mappedKind),
             borderColor: this.getBorderColor(mappedKind),
@@ -173,7 +645,9 @@ export class ThemeManager {
             buttonBackground: this.getButtonBackground(mappedKind),
             buttonForeground: this.getButtonForeground(mappedKind),
             buttonHoverBackground: this.getButtonHoverBackground(mappedKind),
-            accentColor: this.getAccentColor(mappedKind)
+            accentColor: this.getAccentColor(mappedKind),
+            diffColors: this.getDiffColors(mappedKind),
+            ansiColors: this.getAnsiColors(mappedKind)
         };
     }
 
@@ -247,6 +721,21 @@ export class ThemeManager {
         }
     }
 
+    /**
+     * Map the `uiTheme` of a theme contribution to our simplified theme kind
+     */
+    private mapUiTheme(uiTheme: string): 'light' | 'dark' | 'highContrast' {
+        switch (uiTheme) {
+            case 'vs':
+                return 'light';
+            case 'hc-black':
+            case 'hc-light':
+                return 'highContrast';
+            default:
+                return 'dark';
+        }
+    }
+
     /**
      * Extract token colors based on theme kind with enhanced fallbacks
      * These are representative colors that work well across most themes
@@ -277,6 +766,10 @@ export class ThemeManager {
                 'markup.heading': '#0000ff',    // Blue
                 'markup.bold': '#000000',       // Black
                 'markup.italic': '#000000',     // Black
+                'markup.inserted': '#098658',   // Teal
+                'markup.deleted': '#a31515',    // Red
+                'markup.changed': '#0451a5',    // Blue
+                'output': '#767676',            // Gray
                 'invalid': '#cd3131',           // Red
                 'namespace': '#267f99',         // Cyan
                 'enumMember': '#0070c1',        // Blue
@@ -307,6 +800,10 @@ export class ThemeManager {
                 'markup.heading': '#569cd6',    // Light blue
                 'markup.bold': '#d4d4d4',       // Light gray
                 'markup.italic': '#d4d4d4',     // Light gray
+                'markup.inserted': '#b5cea8',   // Light green
+                'markup.deleted': '#ce9178',    // Orange
+                'markup.changed': '#569cd6',    // Light blue
+                'output': '#8b8b8b',            // Gray
                 'invalid': '#f44747',           // Red
                 'namespace': '#4ec9b0',         // Cyan
                 'enumMember': '#4fc1ff',        // Bright blue
@@ -337,6 +834,10 @@ export class ThemeManager {
                 'markup.heading': '#569cd6',    // Light blue
                 'markup.bold': '#ffffff',       // White
                 'markup.italic': '#ffffff',     // White
+                'markup.inserted': '#b5cea8',   // Light green
+                'markup.deleted': '#ce9178',    // Orange
+                'markup.changed': '#569cd6',    // Light blue
+                'output': '#c0c0c0',            // Light gray
                 'invalid': '#ff0000',           // Red
                 'namespace': '#4ec9b0',         // Cyan
                 'enumMember': '#4fc1ff',        // Bright blue
@@ -346,6 +847,21 @@ export class ThemeManager {
         }
     }
 
+    /**
+     * Get colors for semantic token type+modifier combinations
+     * Mirrors the semantic fallbacks of VS Code's default themes
+     */
+    private getSemanticTokenColors(colors: { [key: string]: string }): SemanticTokenColors {
+        return {
+            'variable.readonly': colors['constant'],
+            'property.readonly': colors['constant'],
+            'variable.readonly.defaultLibrary': colors['class'],
+            'enumMember': colors['enumMember'] || colors['constant'],
+            'namespace': colors['namespace'] || colors['type'],
+            'decorator': colors['decorator'] || colors['function']
+        };
+    }
+
     /**
      * Get background color for theme kind
      */
@@ -402,6 +918,63 @@ export class ThemeManager {
         }
     }
 
+    /**
+     * Get diff line backgrounds for theme kind
+     * Translucent so they tint the block background instead of replacing it
+     */
+    private getDiffColors(kind: 'light' | 'dark' | 'highContrast'): DiffColors {
+        switch (kind) {
+            case 'light':
+                return {
+                    insertedLineBackground: '#9bb95533',
+                    removedLineBackground: '#ff000033',
+                    hunkLineBackground: '#0451a514'
+                };
+            case 'dark':
+                return {
+                    insertedLineBackground: '#9bb95533',
+                    removedLineBackground: '#ff000033',
+                    hunkLineBackground: '#569cd61f'
+                };
+            case 'highContrast':
+                return {
+                    insertedLineBackground: '#33ff2e33',
+                    removedLineBackground: '#ff000066',
+                    hunkLineBackground: '#6fc3df33'
+                };
+        }
+    }
+
+    /**
+     * Get the 16 terminal colors for theme kind
+     * Defaults of the integrated terminal, used for the base colors of ```ansi blocks
+     */
+    private getAnsiColors(kind: 'light' | 'dark' | 'highContrast'): AnsiColors {
+        switch (kind) {
+            case 'light':
+                return {
+                    black: '#000000', red: '#cd3131', green: '#00bc00', yellow: '#949800',
+                    blue: '#0451a5', magenta: '#bc05bc', cyan: '#0598bc', white: '#555555',
+                    brightBlack: '#666666', brightRed: '#cd3131', brightGreen: '#14ce14', brightYellow: '#b5ba00',
+                    brightBlue: '#0451a5', brightMagenta: '#bc05bc', brightCyan: '#0598bc', brightWhite: '#a5a5a5'
+                };
+            case 'dark':
+                return {
+                    black: '#000000', red: '#cd3131', green: '#0dbc79', yellow: '#e5e510',
+                    blue: '#2472c8', magenta: '#bc3fbc', cyan: '#11a8cd', white: '#e5e5e5',
+                    brightBlack: '#666666', brightRed: '#f14c4c', brightGreen: '#23d18b', brightYellow: '#f5f543',
+                    brightBlue: '#3b8eea', brightMagenta: '#d670d6', brightCyan: '#29b8db', brightWhite: '#e5e5e5'
+                };
+            case 'highContrast':
+                return {
+                    black: '#000000', red: '#cd0000', green: '#00cd00', yellow: '#cdcd00',
+                    blue: '#0000ee', magenta: '#cd00cd', cyan: '#00cdcd', white: '#e5e5e5',
+                    brightBlack: '#7f7f7f', brightRed: '#ff0000', brightGreen: '#00ff00', brightYellow: '#ffff00',
+                    brightBlue: '#5c5cff', brightMagenta: '#ff00ff', brightCyan: '#00ffff', brightWhite: '#ffffff'
+                };
+        }
+    }
+
     /**
      * Get button background color for theme kind
      */
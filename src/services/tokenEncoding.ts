@@ -0,0 +1,276 @@
+import { Token, TokenizedCode } from './tokenizationService';
+import { DiffLineKind } from './diffMode';
+
+/**
+ * Number of Uint32 values per encoded token: start offset, end offset, style id
+ */
+export const ENCODED_TOKEN_SIZE = 3;
+
+/**
+ * Scopes, color and font style shared by all tokens with the same style id
+ * `fontStyle` uses the TextMate form, e.g. `bold underline`
+ */
+export interface TokenStyle {
+    scopes: string[];
+    color?: string;
+    fontStyle?: string;
+}
+
+/**
+ * Compact form of TokenizedCode
+ * `data` holds [startIndex, endIndex, styleId] per token; `text` is the tokenized source, stored once
+ */
+export interface EncodedTokens {
+    language: string;
+    text: string;
+    data: Uint32Array;
+    diffLines?: DiffLineKind[];
+}
+
+/**
+ * Encoded tokens as sent to the preview, which receives messages as JSON
+ * `data` is a plain array, since JSON turns a typed array into an object keyed by index
+ */
+export interface PreviewTokens {
+    // [startIndex, endIndex, styleId] per token
+    data: number[];
+    // Colors of the style ids used in `data`
+    styles: { [styleId: number]: string };
+    // Font styles of the style ids used in `data` that have one, e.g. `bold underline`
+    fontStyles?: { [styleId: number]: string };
+}
+
+/**
+ * TokenStyleTable - Interns token styles so encoded tokens can refer to them by id
+ * One table is shared by every encoding made against it. Encodings that are kept, such as
+ * cache entries, retain their styles; prune drops the styles no kept encoding uses and
+ * reuses their ids.
+ */
+export class TokenStyleTable {
+    private styles: Array<TokenStyle | undefined> = [];
+    private keys: string[] = [];
+    private references: number[] = [];
+    private freeIds: number[] = [];
+    private ids: Map<string, number> = new Map();
+
+    /**
+     * Get the id of a style, adding it to the table if needed
+     */
+    public intern(scopes: string[], color?: string, fontStyle?: string): number {
+        const key = `${color || ''}|${fontStyle || ''}|${scopes.join(' ')}`;
+        let id = this.ids.get(key);
+        if (id === undefined) {
+            id = this.freeIds.pop() ?? this.styles.length;
+            this.styles[id] = fontStyle ? { scopes: [...scopes], color, fontStyle } : { scopes: [...scopes], color };
+            this.keys[id] = key;
+            this.references[id] = 0;
+            this.ids.set(key, id);
+        }
+        return id;
+    }
+
+    /**
+     * Keep the styles used by encoded data until it is released
+     */
+    public retain(data: ArrayLike<number>): void {
+        for (let i = 2; i < data.length; i += ENCODED_TOKEN_SIZE) {
+            this.references[data[i]]++;
+        }
+    }
+
+    /**
+     * Release the styles retained for encoded data
+     */
+    public release(data: ArrayLike<number>): void {
+        for (let i = 2; i < data.length; i += ENCODED_TOKEN_SIZE) {
+            if (this.references[data[i]] > 0) {
+                this.references[data[i]]--;
+            }
+        }
+    }
+
+    /**
+     * Remove the styles no retained data uses
+     * Data encoded since and not retained refers to removed styles afterwards
+     */
+    public prune(): void {
+        for (let id = 0; id < this.styles.length; id++) {
+            if (this.styles[id] && this.references[id] === 0) {
+                this.ids.delete(this.keys[id]);
+                this.styles[id] = undefined;
+                this.freeIds.push(id);
+            }
+        }
+    }
+
+    /**
+     * Get the style with an id
+     */
+    public get(id: number): TokenStyle | undefined {
+        return this.styles[id];
+    }
+
+    /**
+     * Get the colors of the styles used by encoded data, keyed by style id
+     */
+    public getColors(data: ArrayLike<number>): { [styleId: number]: string } {
+        const colors: { [styleId: number]: string } = {};
+        for (let i = 2; i < data.length; i += ENCODED_TOKEN_SIZE) {
+            const color = this.styles[data[i]]?.color;
+            if (color) {
+                colors[data[i]] = color;
+            }
+        }
+        return colors;
+    }
+
+    /**
+     * Get the font styles of the styles used by encoded data, keyed by style id
+     */
+    public getFontStyles(data: ArrayLike<number>): { [styleId: number]: string } {
+        const fontStyles: { [styleId: number]: string } = {};
+        for (let i = 2; i < data.length; i += ENCODED_TOKEN_SIZE) {
+            const fontStyle = this.styles[data[i]]?.fontStyle;
+            if (fontStyle) {
+                fontStyles[data[i]] = fontStyle;
+            }
+        }
+        return fontStyles;
+    }
+
+    /**
+     * Get the number of styles in the table
+     */
+    public size(): number {
+        return this.ids.size;
+    }
+
+    /**
+     * Remove all styles; data encoded before is no longer valid
+     */
+    public clear(): void {
+        this.styles = [];
+        this.keys = [];
+        this.references = [];
+        this.freeIds = [];
+        this.ids.clear();
+    }
+}
+
+/**
+ * Encode tokens as offsets and style ids
+ * Adjacent tokens with the same style are merged into one
+ */
+export function encodeTokenArray(tokens: Token[], table: TokenStyleTable): Uint32Array {
+    const data = new Uint32Array(tokens.length * ENCODED_TOKEN_SIZE);
+    let length = 0;
+
+    for (const token of tokens) {
+        const styleId = table.intern(token.scopes, token.color, token.fontStyle);
+
+        if (length > 0 && data[length - 1] === styleId && data[length - 2] === token.startIndex) {
+            data[length - 2] = token.endIndex;
+            continue;
+        }
+
+        data[length++] = token.startIndex;
+        data[length++] = token.endIndex;
+        data[length++] = styleId;
+    }
+
+    return data.slice(0, length);
+}
+
+/**
+ * Decode tokens encoded by encodeTokenArray
+ * Token text is cut from the text the offsets refer to
+ */
+export function decodeTokenArray(data: ArrayLike<number>, text: string, table: TokenStyleTable): Token[] {
+    const tokens: Token[] = [];
+
+    for (let i = 0; i + 2 < data.length; i += ENCODED_TOKEN_SIZE) {
+        const style = table.get(data[i + 2]);
+        const token: Token = {
+            text: text.substring(data[i], data[i + 1]),
+            scopes: style ? [...style.scopes] : ['text'],
+            startIndex: data[i],
+            endIndex: data[i + 1]
+        };
+        if (style?.color) {
+            token.color = style.color;
+        }
+        if (style?.fontStyle) {
+            token.fontStyle = style.fontStyle;
+        }
+        tokens.push(token);
+    }
+
+    return tokens;
+}
+
+/**
+ * Get the form of encoded tokens sent to the preview, with the colors and font styles they use
+ */
+export function createPreviewTokens(data: ArrayLike<number>, table: TokenStyleTable): PreviewTokens {
+    const previewTokens: PreviewTokens = {
+        data: Array.from(data),
+        styles: table.getColors(data)
+    };
+
+    const fontStyles = table.getFontStyles(data);
+    if (Object.keys(fontStyles).length > 0) {
+        previewTokens.fontStyles = fontStyles;
+    }
+    return previewTokens;
+}
+
+/**
+ * Convert TokenizedCode to its compact form
+ */
+export function encodeTokens(tokenized: TokenizedCode, table: TokenStyleTable): EncodedTokens {
+    const encoded: EncodedTokens = {
+        language: tokenized.language,
+        text: getTokenizedText(tokenized.tokens),
+        data: encodeTokenArray(tokenized.tokens, table)
+    };
+    if (tokenized.diffLines) {
+        encoded.diffLines = tokenized.diffLines;
+    }
+    return encoded;
+}
+
+/**
+ * Convert compact tokens back to TokenizedCode
+ */
+export function decodeTokens(encoded: EncodedTokens, table: TokenStyleTable): TokenizedCode {
+    const tokenized: TokenizedCode = {
+        language: encoded.language,
+        tokens: decodeTokenArray(encoded.data, encoded.text, table)
+    };
+    if (encoded.diffLines) {
+        tokenized.diffLines = encoded.diffLines;
+    }
+    return tokenized;
+}
+
+/**
+ * Rebuild the source text covered by tokens
+ * Gaps between tokens are filled with spaces so offsets stay valid
+ */
+function getTokenizedText(tokens: Token[]): string {
+    const parts: string[] = [];
+    let position = 0;
+
+    for (const token of tokens) {
+        if (token.startIndex < position) {
+            continue;
+        }
+        if (token.startIndex > position) {
+            parts.push(' '.repeat(token.startIndex - position));
+        }
+        parts.push(token.text);
+        position = token.startIndex + token.text.length;
+    }
+
+    return parts.join('');
+}
@@ -0,0 +1,192 @@
+import { Token } from './tokenizationService';
+import {
+    CancellationSignal,
+    GrammarLocator,
+    GrammarSnapshot,
+    GrammarState,
+    TextMateEngine,
+    yieldToEventLoop
+} from './textMateEngine';
+import { PatternTokenizer, PatternTokenizerState } from './patternTokenizer';
+import { minimalTokenize } from './minimalHighlighter';
+
+/**
+ * Tokenization tiers that do not depend on the VS Code API
+ */
+export type PureTier = 'grammar' | 'pattern' | 'minimal';
+
+/**
+ * A unit of tokenization work for one of the pure tiers
+ * Jobs sharing a stream id continue from the tokenizer state the previous job of the stream left behind
+ */
+export interface TokenizationJob {
+    tier: PureTier;
+    code: string;
+    language: string;
+    streamId?: string;
+}
+
+/**
+ * Result of a tokenization job; tokens are uncolored, null when the tier does not apply
+ */
+export interface TokenizationJobResult {
+    tokens: Token[] | null;
+}
+
+/**
+ * Messages sent to a tokenization worker
+ */
+export type WorkerRequest =
+    | { type: 'job'; id: number; job: TokenizationJob }
+    | { type: 'grammars'; snapshot: GrammarSnapshot }
+    | { type: 'endStream'; streamId: string }
+    | { type: 'cancel'; id: number };
+
+/**
+ * Messages sent back by a tokenization worker
+ * A cancelled job is answered with a null result as soon as the worker stops it
+ */
+export type WorkerResponse =
+    | { type: 'result'; id: number; tokens: Token[] | null }
+    | { type: 'error'; id: number; message: string };
+
+/**
+ * Tokenizer state kept between the chunks of a stream
+ */
+interface StreamState {
+    grammar?: GrammarState;
+    pattern?: PatternTokenizerState;
+}
+
+/**
+ * TokenizationJobRunner - Runs jobs for the pure tiers
+ * Used both in-process and inside tokenization worker threads
+ */
+export class TokenizationJobRunner {
+    private textMateEngine: TextMateEngine;
+    private patternTokenizer: PatternTokenizer;
+    private streams: Map<string, StreamState> = new Map();
+    private readonly PATTERN_CHUNK_LINES = 200; // Lines tokenized between checks for a cancellation
+
+    constructor(locator: GrammarLocator) {
+        this.textMateEngine = new TextMateEngine(locator);
+        this.patternTokenizer = new PatternTokenizer();
+    }
+
+    /**
+     * Run a tokenization job
+     * The grammar and pattern tiers check the cancellation signal between slices of lines and
+     * return null tokens once it fired, leaving the stream state as it was.
+     */
+    public async run(job: TokenizationJob, cancellation?: CancellationSignal): Promise<TokenizationJobResult> {
+        const stream = job.streamId ? this.getStream(job.streamId) : undefined;
+
+        switch (job.tier) {
+            case 'grammar': {
+                if (!this.textMateEngine.hasGrammar(job.language)) {
+                    return { tokens: null };
+                }
+
+                const result = await this.textMateEngine.tokenizeWithState(
+                    job.code,
+                    job.language,
+                    stream?.grammar,
+                    cancellation
+                );
+                if (result && stream) {
+                    stream.grammar = result.state;
+                }
+                return { tokens: result ? result.tokens : null };
+            }
+            case 'pattern':
+                return { tokens: await this.runPattern(job, stream, cancellation) };
+            case 'minimal':
+                return { tokens: minimalTokenize(job.code, job.language) };
+        }
+    }
+
+    /**
+     * Run the pattern tier in chunks of lines, carrying the tokenizer state from chunk to chunk
+     * Without a cancellation signal the code is tokenized in one go.
+     */
+    private async runPattern(
+        job: TokenizationJob,
+        stream: StreamState | undefined,
+        cancellation?: CancellationSignal
+    ): Promise<Token[] | null> {
+        if (!cancellation) {
+            const result = this.patternTokenizer.tokenize(job.code, job.language, stream?.pattern);
+            if (stream) {
+                stream.pattern = result.state;
+            }
+            return result.tokens;
+        }
+
+        const lines = job.code.split('\n');
+        const tokens: Token[] = [];
+        let state = stream?.pattern;
+        let position = 0;
+
+        for (let start = 0; start < lines.length; start += this.PATTERN_CHUNK_LINES) {
+            if (start > 0) {
+                await yieldToEventLoop();
+                tokens.push({ text: '\n', scopes: ['text'], startIndex: position, endIndex: position + 1 });
+                position += 1;
+            }
+            if (cancellation.isCancellationRequested) {
+                return null;
+            }
+
+            const chunk = lines.slice(start, start + this.PATTERN_CHUNK_LINES).join('\n');
+            const result = this.patternTokenizer.tokenize(chunk, job.language, state);
+            for (const token of result.tokens) {
+                tokens.push({
+                    ...token,
+                    startIndex: token.startIndex + position,
+                    endIndex: token.endIndex + position
+                });
+            }
+            state = result.state;
+            position += chunk.length;
+        }
+
+        if (stream) {
+            stream.pattern = state;
+        }
+        return tokens;
+    }
+
+    /**
+     * Drop the tokenizer state of a finished stream
+     */
+    public endStream(streamId: string): void {
+        this.streams.delete(streamId);
+    }
+
+    /**
+     * Drop loaded grammars (e.g. after extensions were installed or removed)
+     */
+    public reset(): void {
+        this.textMateEngine.reset();
+    }
+
+    /**
+     * Get (or create) the state of a stream
+     */
+    private getStream(streamId: string): StreamState {
+        let stream = this.streams.get(streamId);
+        if (!stream) {
+            stream = {};
+            this.streams.set(streamId, stream);
+        }
+        return stream;
+    }
+
+    /**
+     * Dispose resources
+     */
+    public dispose(): void {
+        this.streams.clear();
+        this.textMateEngine.dispose();
+    }
+}
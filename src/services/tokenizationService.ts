@@ -1,5 +1,51 @@
 import * as vscode from 'vscode';
 import { ThemeData } from './themeManager';
+import { ScopeStyle, ScopeStyleResolver, TokenColorRule } from './scopeSelectors';
+import { GrammarRegistry } from './grammarRegistry';
+import { CodeBlockDocumentProvider, DocumentRequest } from './codeBlockDocumentProvider';
+import { TokenizationJob, TokenizationJobResult, TokenizationJobRunner } from './tokenizationJobs';
+import { TokenizationWorkerPool } from './tokenizationWorkerPool';
+import { minimalTokenize } from './minimalHighlighter';
+import {
+    EmbeddedLayout,
+    EmbeddedRegionTokens,
+    findEmbeddedRegions,
+    maskEmbeddedRegions,
+    mergeEmbeddedTokens
+} from './embeddedLanguages';
+import {
+    DIFF_LINE_SCOPES,
+    DiffLanguage,
+    DiffLineKind,
+    getDiffCode,
+    mapDiffCodeTokens,
+    parseDiffLanguage,
+    parseDiffLines
+} from './diffMode';
+import {
+    ANSI_ESCAPE_SCOPE,
+    ANSI_TEXT_SCOPE,
+    getAnsiFontStyle,
+    hasAnsiEscapes,
+    isAnsiBlock,
+    parseAnsiSegments,
+    resolveAnsiColor
+} from './ansiMode';
+import {
+    CONSOLE_OUTPUT_SCOPE,
+    CONSOLE_PROMPT_SCOPE,
+    getConsoleCommands,
+    getConsoleShell,
+    isConsoleLanguage,
+    mapConsoleCommandTokens,
+    parseConsoleLines
+} from './consoleMode';
+import {
+    SemanticTokensLegendData,
+    overlaySemanticTokens,
+    parseSemanticTokens,
+    resolveSemanticTokenColor
+} from './semanticTokens';
 
 /**
  * Token interface representing a single syntax token
@@ -10,14 +56,39 @@ export interface Token {
     startIndex: number;
     endIndex: number;
     color?: string;
+    fontStyle?: string;
 }
 
 /**
  * Tokenized code structure
+ * `diffLines` holds the kind of each line of diff blocks
  */
 export interface TokenizedCode {
     language: string;
     tokens: Token[];
+    diffLines?: DiffLineKind[];
+}
+
+/**
+ * Result of tokenizing one chunk of a large block
+ * Token offsets are relative to the whole block; `startIndex`/`endIndex` delimit the chunk
+ */
+export interface TokenizedChunk {
+    language: string;
+    tokens: Token[];
+    startIndex: number;
+    endIndex: number;
+    done: boolean;
+}
+
+/**
+ * Per-request context threaded through the tokenization tiers
+ */
+interface TokenizeContext {
+    blockId: string;
+    request: DocumentRequest;
+    streamId?: string;
+    token?: vscode.CancellationToken;
 }
 
 /**
@@ -27,11 +98,78 @@ export interface TokenizedCode {
  */
 export class TokenizationService {
     private outputChannel: vscode.OutputChannel;
+    private grammarRegistry: GrammarRegistry;
+    private jobRunner: TokenizationJobRunner;
+    private workerPool: TokenizationWorkerPool;
+    private documentProvider: CodeBlockDocumentProvider;
+    private disposables: vscode.Disposable[] = [];
+    private nextStreamId: number = 1;
+    private nextRequestId: number = 1;
+    private languageAliases: { [fenceId: string]: string } = {};
+    private defaultLanguage: string = '';
+    // Resolvers of the rule sets of loaded themes, built on first use
+    private scopeResolvers = new WeakMap<TokenColorRule[], ScopeStyleResolver>();
     private readonly STREAMING_CHUNK_SIZE = 500; // Process in chunks of 500 lines
     private readonly DEFAULT_TIMEOUT = 5000; // 5 seconds default timeout
 
     constructor() {
         this.outputChannel = vscode.window.createOutputChannel('Markdown Code Block Highlighter');
+        this.grammarRegistry = new GrammarRegistry();
+        this.jobRunner = new TokenizationJobRunner(this.grammarRegistry);
+        this.workerPool = new TokenizationWorkerPool(this.grammarRegistry.getSnapshot(), this.outputChannel);
+        this.documentProvider = new CodeBlockDocumentProvider();
+
+        // Drop loaded grammars when extensions contribute new or changed ones
+        this.disposables.push(
+            this.grammarRegistry.onDidChange(() => {
+                this.outputChannel.appendLine('Installed grammars changed, reloading grammar engine');
+                this.jobRunner.reset();
+                this.workerPool.updateGrammars(this.grammarRegistry.getSnapshot());
+            })
+        );
+    }
+
+    /**
+     * Set the number of worker threads used for the grammar, pattern and minimal tiers
+     * With no workers these tiers run on the extension host thread
+     */
+    public setWorkerCount(count: number): void {
+        this.workerPool.setSize(count);
+    }
+
+    /**
+     * Set the user's fence id aliases and the language of unlabeled blocks
+     * Returns true when either changed, so tokens tokenized before are stale
+     */
+    public setLanguageSettings(aliases: { [fenceId: string]: string }, defaultLanguage: string): boolean {
+        const changed = JSON.stringify(aliases) !== JSON.stringify(this.languageAliases)
+            || defaultLanguage !== this.defaultLanguage;
+
+        this.languageAliases = { ...aliases };
+        this.defaultLanguage = defaultLanguage;
+        return changed;
+    }
+
+    /**
+     * Release the virtual documents of a block's requests, e.g. when its request is cancelled
+     * Documents are otherwise released once their request ends
+     */
+    public releaseBlockDocuments(blockId: string): void {
+        this.documentProvider.releaseBlock(blockId);
+    }
+
+    /**
+     * Release the virtual documents of all blocks, e.g. when the last preview is closed
+     */
+    public releaseAllDocuments(): void {
+        this.documentProvider.releaseAll();
+    }
+
+    /**
+     * Event fired when installed languages or grammars change
+     */
+    public get onDidChangeGrammars(): vscode.Event<void> {
+        return this.grammarRegistry.onDidChange;
     }
 
     /**
@@ -41,153 +179,482 @@ export class TokenizationService {
         return code.length > maxBlockSize;
     }
 
+    /**
+     * Check if blocks of a language can be tokenized chunk by chunk
+     * Diffs and console transcripts are tokenized whole since their lines are classified first,
+     * and ANSI blocks since styles carry over from earlier escape sequences
+     */
+    public supportsStreaming(language: string, code: string): boolean {
+        const normalizedLanguage = this.normalizeLanguage(language);
+        return parseDiffLanguage(normalizedLanguage) === null
+            && !isConsoleLanguage(normalizedLanguage)
+            && !isAnsiBlock(normalizedLanguage, code);
+    }
+
     /**
      * Tokenize code block and apply theme colors with timeout protection
+     * The block id identifies the virtual document reused for the block; defaults to a content hash.
+     * Rejects with vscode.CancellationError when the cancellation token fires.
      */
     public async tokenize(
         code: string,
         language: string,
         themeData: ThemeData,
         maxBlockSize: number = 10000,
-        timeout: number = this.DEFAULT_TIMEOUT
+        timeout: number = this.DEFAULT_TIMEOUT,
+        blockId: string = this.createBlockId(code, language),
+        token?: vscode.CancellationToken
     ): Promise<TokenizedCode> {
+        const context: TokenizeContext = { blockId, request: this.createRequest(blockId), token };
+
         try {
+            // Diff blocks get per-line kinds; the code of ```diff-<lang> lines is tokenized on its own
+            const normalizedLanguage = this.normalizeLanguage(language);
+            const diff = parseDiffLanguage(normalizedLanguage);
+            if (diff) {
+                return await this.tokenizeDiff(code, language, diff, themeData, maxBlockSize, timeout, context);
+            }
+
+            // Console transcripts highlight the commands after their prompts and dim the output
+            if (isConsoleLanguage(normalizedLanguage)) {
+                return await this.tokenizeConsole(code, normalizedLanguage, themeData, maxBlockSize, timeout, context);
+            }
+
+            // Terminal output keeps the colors and emphasis of its escape sequences
+            if (isAnsiBlock(normalizedLanguage, code)) {
+                return { language: normalizedLanguage, tokens: this.tokenizeAnsi(code, 0, code.length, themeData) };
+            }
+
             // Check if block exceeds size limit
             if (this.isLargeBlock(code, maxBlockSize)) {
                 this.outputChannel.appendLine(
                     `Code block is large (${code.length} chars), using streaming tokenization`
                 );
-                return await this.tokenizeWithStreaming(code, language, themeData, timeout);
+                const tokens: Token[] = [];
+                for await (const chunk of this.tokenizeWithStreaming(code, language, themeData, timeout, blockId, token)) {
+                    tokens.push(...chunk.tokens);
+                }
+                return { language: this.normalizeLanguage(language), tokens };
+            }
+
+            // Blocks mixing languages (HTML with scripts, templates, nested fences) are split up
+            const embedded = this.findEmbeddedLayout(code, language);
+            if (embedded) {
+                return await this.tokenizeEmbedded(code, language, embedded, themeData, timeout, context);
             }
 
             // Normal tokenization with timeout
-            return await this.tokenizeWithTimeout(code, language, themeData, timeout);
+            return await this.tokenizeWithTimeout(code, language, themeData, timeout, context);
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             this.outputChannel.appendLine(`Error tokenizing code (${language}): ${error}`);
             // Return fallback with minimal highlighting
             return this.createMinimalHighlighting(code, language, themeData);
+        } finally {
+            this.documentProvider.releaseRequest(context.request);
         }
     }
 
     /**
      * Tokenize with timeout protection
+     * The tokenization that loses the race is cancelled instead of left running
      */
     private async tokenizeWithTimeout(
         code: string,
         language: string,
         themeData: ThemeData,
-        timeout: number
+        timeout: number,
+        context: TokenizeContext
     ): Promise<TokenizedCode> {
+        const source = new vscode.CancellationTokenSource();
+        const parentListener = context.token?.onCancellationRequested(() => source.cancel());
+        if (context.token?.isCancellationRequested) {
+            source.cancel();
+        }
+        let timer: NodeJS.Timeout | undefined;
+
         return Promise.race([
-            this.tokenizeInternal(code, language, themeData),
-            new Promise<TokenizedCode>((_, reject) => 
-                setTimeout(() => reject(new Error('Tokenization timeout')), timeout)
+            this.tokenizeInternal(code, language, themeData, { ...context, token: source.token }),
+            new Promise<TokenizedCode>((_, reject) => {
+                timer = setTimeout(() => reject(new Error('Tokenization timeout')), timeout);
+            }),
+            new Promise<TokenizedCode>((_, reject) =>
+                source.token.onCancellationRequested(() => reject(new vscode.CancellationError()))
             )
         ]).catch((error) => {
+            if (context.token?.isCancellationRequested) {
+                throw new vscode.CancellationError();
+            }
             this.outputChannel.appendLine(`Tokenization timeout or error: ${error}`);
             return this.createMinimalHighlighting(code, language, themeData);
+        }).finally(() => {
+            clearTimeout(timer);
+            source.cancel();
+            source.dispose();
+            parentListener?.dispose();
         });
     }
 
     /**
-     * Internal tokenization with three-tier fallback strategy
+     * Find the embedded-language regions of a block
+     * Languages with a TextMate grammar are left alone: their grammar embeds other languages itself
+     */
+    private findEmbeddedLayout(code: string, language: string): EmbeddedLayout | null {
+        const normalizedLanguage = this.normalizeLanguage(language);
+        if (this.grammarRegistry.getGrammarForLanguage(normalizedLanguage)) {
+            return null;
+        }
+
+        return findEmbeddedRegions(code, normalizedLanguage);
+    }
+
+    /**
+     * Tokenize the host language and every embedded region with its own language
+     * The results are merged into a single token list covering the whole block
+     */
+    private async tokenizeEmbedded(
+        code: string,
+        language: string,
+        layout: EmbeddedLayout,
+        themeData: ThemeData,
+        timeout: number,
+        context: TokenizeContext
+    ): Promise<TokenizedCode> {
+        const hostCode = maskEmbeddedRegions(code, layout.regions);
+        const host = await this.tokenizeWithTimeout(hostCode, layout.hostLanguage, themeData, timeout, context);
+        const embedded: EmbeddedRegionTokens[] = [];
+
+        for (let index = 0; index < layout.regions.length; index++) {
+            this.throwIfCancelled(context);
+            const region = layout.regions[index];
+            const text = code.substring(region.start, region.end);
+
+            if (region.language) {
+                const result = await this.tokenizeWithTimeout(text, region.language, themeData, timeout, {
+                    ...context,
+                    blockId: `${context.blockId}-${index}`
+                });
+                embedded.push({ region, tokens: result.tokens });
+            } else {
+                embedded.push({
+                    region,
+                    tokens: [this.styleToken({
+                        text,
+                        scopes: [region.scope || 'text'],
+                        startIndex: 0,
+                        endIndex: text.length
+                    }, themeData)]
+                });
+            }
+        }
+
+        return {
+            language: this.normalizeLanguage(language),
+            tokens: mergeEmbeddedTokens(code, host.tokens, embedded)
+        };
+    }
+
+    /**
+     * Tokenize a diff block line by line
+     * Markers and header lines are colored by line kind; with a code language the code after
+     * each marker is highlighted in that language, otherwise whole lines take the color of their kind
+     */
+    private async tokenizeDiff(
+        code: string,
+        language: string,
+        diff: DiffLanguage,
+        themeData: ThemeData,
+        maxBlockSize: number,
+        timeout: number,
+        context: TokenizeContext
+    ): Promise<TokenizedCode> {
+        const lines = parseDiffLines(code);
+        const tokens: Token[] = [];
+
+        for (const line of lines) {
+            const markerEnd = diff.codeLanguage ? line.contentStart : line.end;
+            if (markerEnd > line.start) {
+                tokens.push(this.createScopeToken(code, line.start, markerEnd, DIFF_LINE_SCOPES[line.kind], themeData));
+            }
+        }
+
+        if (diff.codeLanguage) {
+            const codeResult = await this.tokenize(
+                getDiffCode(code, lines),
+                diff.codeLanguage,
+                themeData,
+                maxBlockSize,
+                timeout,
+                `${context.blockId}-code`,
+                context.token
+            );
+            tokens.push(...mapDiffCodeTokens(code, lines, codeResult.tokens));
+            tokens.sort((a, b) => a.startIndex - b.startIndex);
+        }
+
+        return {
+            language: this.normalizeLanguage(language),
+            tokens: this.fillGapsWithPlainTokens(code, tokens, themeData),
+            diffLines: lines.map(line => line.kind)
+        };
+    }
+
+    /**
+     * Tokenize a console transcript
+     * Prompts and output lines are single tokens; the commands are joined and tokenized in their shell
+     */
+    private async tokenizeConsole(
+        code: string,
+        language: string,
+        themeData: ThemeData,
+        maxBlockSize: number,
+        timeout: number,
+        context: TokenizeContext
+    ): Promise<TokenizedCode> {
+        const lines = parseConsoleLines(code);
+        const tokens: Token[] = [];
+
+        for (const line of lines) {
+            if (line.kind === 'output' && hasAnsiEscapes(code.substring(line.start, line.end))) {
+                tokens.push(...this.tokenizeAnsi(code, line.start, line.end, themeData));
+            } else if (line.kind === 'output' && line.end > line.start) {
+                tokens.push(this.createScopeToken(code, line.start, line.end, CONSOLE_OUTPUT_SCOPE, themeData));
+            } else if (line.kind === 'command' && line.commandStart > line.start) {
+                tokens.push(this.createScopeToken(code, line.start, line.commandStart, CONSOLE_PROMPT_SCOPE, themeData));
+            }
+        }
+
+        if (lines.some(line => line.kind === 'command')) {
+            const commands = await this.tokenize(
+                getConsoleCommands(code, lines),
+                getConsoleShell(language, code, lines),
+                themeData,
+                maxBlockSize,
+                timeout,
+                `${context.blockId}-commands`,
+                context.token
+            );
+            tokens.push(...mapConsoleCommandTokens(code, lines, commands.tokens));
+            tokens.sort((a, b) => a.startIndex - b.startIndex);
+        }
+
+        return {
+            language,
+            tokens: this.fillGapsWithPlainTokens(code, tokens, themeData)
+        };
+    }
+
+    /**
+     * Tokenize a range of a block holding ANSI escape sequences
+     * Escape sequences become uncolored tokens the preview hides; text takes the color and
+     * emphasis set by the sequences before it, with the 16 base colors taken from the theme
+     */
+    private tokenizeAnsi(code: string, start: number, end: number, themeData: ThemeData): Token[] {
+        return parseAnsiSegments(code.substring(start, end)).map(segment => {
+            const token: Token = {
+                text: code.substring(start + segment.start, start + segment.end),
+                scopes: [segment.escape ? ANSI_ESCAPE_SCOPE : ANSI_TEXT_SCOPE],
+                startIndex: start + segment.start,
+                endIndex: start + segment.end
+            };
+            if (segment.escape) {
+                return token;
+            }
+
+            const color = segment.style.foreground !== undefined
+                ? resolveAnsiColor(segment.style.foreground, themeData.ansiColors)
+                : undefined;
+            token.color = color || themeData.foreground;
+
+            const fontStyle = getAnsiFontStyle(segment.style);
+            if (fontStyle) {
+                token.fontStyle = fontStyle;
+            }
+            return token;
+        });
+    }
+
+    /**
+     * Create a single token for a range of a block, styled by its scope
+     */
+    private createScopeToken(code: string, start: number, end: number, scope: string, themeData: ThemeData): Token {
+        return this.styleToken({
+            text: code.substring(start, end),
+            scopes: [scope],
+            startIndex: start,
+            endIndex: end
+        }, themeData);
+    }
+
+    /**
+     * Set the color and font style of a token from its TextMate scopes
+     */
+    private styleToken(token: Token, themeData: ThemeData): Token {
+        token.color = this.getColorForScopes(token.scopes, themeData);
+        const fontStyle = this.getFontStyleForScopes(token.scopes, themeData);
+        if (fontStyle) {
+            token.fontStyle = fontStyle;
+        }
+        return token;
+    }
+
+    /**
+     * Internal tokenization with four-tier fallback strategy
+     * Semantic tokens refine the grammar tokens when a language has both, and stand in for them otherwise.
+     * When the context carries a stream id, the stateful tiers continue from the stream's previous chunk
      */
     private async tokenizeInternal(
         code: string,
         language: string,
-        themeData: ThemeData
+        themeData: ThemeData,
+        context: TokenizeContext
     ): Promise<TokenizedCode> {
         // Normalize language identifier
         const normalizedLanguage = this.normalizeLanguage(language);
         
         // Validate language exists
         const validLanguage = await this.validateLanguage(normalizedLanguage);
-        
-        // Create temporary document for tokenization
-        const document = await vscode.workspace.openTextDocument({
-            content: code,
-            language: validLanguage
-        });
-
-        // Three-tier fallback strategy:
-        // 1. Try VS Code semantic tokens
+        this.throwIfCancelled(context);
+
+        // Four-tier fallback strategy:
+        // 1. Try the TextMate grammar contributed for the language
+        const grammarResult = await this.tryGrammarTokenization(code, validLanguage, themeData, context);
+        this.throwIfCancelled(context);
+
+        // Expose the block to language servers through its virtual document
+        const document = await this.documentProvider.openDocument(
+            context.blockId,
+            code,
+            validLanguage,
+            this.grammarRegistry.getFileExtension(validLanguage) || '.txt',
+            context.request
+        );
+        this.throwIfCancelled(context);
+
+        // 2. Try VS Code semantic tokens, layered over the grammar tokens like in the editor
         const semanticResult = await this.trySemanticTokens(document, themeData);
+        this.throwIfCancelled(context);
+        if (grammarResult) {
+            const tokens = semanticResult ? overlaySemanticTokens(grammarResult, semanticResult) : grammarResult;
+            return { language: validLanguage, tokens };
+        }
         if (semanticResult) {
-            return { language: validLanguage, tokens: semanticResult };
+            return { language: validLanguage, tokens: this.fillGapsWithPlainTokens(code, semanticResult, themeData) };
         }
 
-        // 2. Try pattern-based tokenization
-        const patternResult = this.tryPatternTokenization(code, validLanguage, themeData);
+        // 3. Try pattern-based tokenization
+        const patternResult = await this.tryPatternTokenization(code, validLanguage, themeData, context);
+        this.throwIfCancelled(context);
         if (patternResult && patternResult.length > 0) {
             return { language: validLanguage, tokens: patternResult };
         }
 
-        // 3. Fall back to minimal highlighting
-        return this.createMinimalHighlighting(code, validLanguage, themeData);
+        // 4. Fall back to minimal highlighting
+        return this.tryMinimalHighlighting(code, validLanguage, themeData, context);
     }
 
     /**
-     * Tokenize large blocks using streaming approach
+     * Tokenize large blocks chunk by chunk, yielding each chunk as soon as it is done
+     * Tokenizer state is carried across chunks so constructs spanning a chunk boundary stay intact.
+     * Throws vscode.CancellationError when the cancellation token fires.
      */
-    private async tokenizeWithStreaming(
+    public async *tokenizeWithStreaming(
         code: string,
         language: string,
         themeData: ThemeData,
-        timeout: number
-    ): Promise<TokenizedCode> {
+        timeout: number = this.DEFAULT_TIMEOUT,
+        blockId: string = this.createBlockId(code, language),
+        token?: vscode.CancellationToken
+    ): AsyncGenerator<TokenizedChunk> {
         const lines = code.split('\n');
-        const tokens: Token[] = [];
+        const normalizedLanguage = this.normalizeLanguage(language);
+        const streamId = `${blockId}#${this.nextStreamId++}`;
+        const context: TokenizeContext = { blockId, request: this.createRequest(blockId), streamId, token };
         let currentPosition = 0;
 
-        // Process in chunks
-        for (let i = 0; i < lines.length; i += this.STREAMING_CHUNK_SIZE) {
-            const chunk = lines.slice(i, i + this.STREAMING_CHUNK_SIZE).join('\n');
-            
-            try {
-                // Tokenize chunk with reduced timeout
+        try {
+            // Process in chunks
+            for (let i = 0; i < lines.length; i += this.STREAMING_CHUNK_SIZE) {
+                this.throwIfCancelled(context);
+                const chunk = lines.slice(i, i + this.STREAMING_CHUNK_SIZE).join('\n');
+                const done = i + this.STREAMING_CHUNK_SIZE >= lines.length;
+                const tokens: Token[] = [];
+
+                // Tokenize chunk with reduced timeout; a chunk that fails or times out falls back
+                // to minimal highlighting
                 const chunkResult = await this.tokenizeWithTimeout(
                     chunk,
                     language,
                     themeData,
-                    timeout / 10 // Reduced timeout per chunk
+                    timeout / 10, // Reduced timeout per chunk
+                    context
                 );
 
                 // Adjust token positions
-                for (const token of chunkResult.tokens) {
+                for (const chunkToken of chunkResult.tokens) {
                     tokens.push({
-                        ...token,
-                        startIndex: token.startIndex + currentPosition,
-                        endIndex: token.endIndex + currentPosition
+                        ...chunkToken,
+                        startIndex: chunkToken.startIndex + currentPosition,
+                        endIndex: chunkToken.endIndex + currentPosition
                     });
                 }
 
-                currentPosition += chunk.length;
-                
-                // Add newline if not last chunk
-                if (i + this.STREAMING_CHUNK_SIZE < lines.length) {
-                    currentPosition += 1;
+                // The newline between chunks belongs to the chunk before it
+                const chunkEnd = done ? currentPosition + chunk.length : currentPosition + chunk.length + 1;
+                if (!done) {
+                    tokens.push({
+                        text: '\n',
+                        scopes: ['text'],
+                        startIndex: chunkEnd - 1,
+                        endIndex: chunkEnd,
+                        color: themeData.foreground
+                    });
                 }
-            } catch (error) {
-                // On chunk error, add as plain text
-                tokens.push({
-                    text: chunk,
-                    scopes: ['text'],
-                    startIndex: currentPosition,
-                    endIndex: currentPosition + chunk.length,
-                    color: themeData.foreground
-                });
-                currentPosition += chunk.length + 1;
+
+                yield { language: normalizedLanguage, tokens, startIndex: currentPosition, endIndex: chunkEnd, done };
+                currentPosition = chunkEnd;
             }
+        } finally {
+            this.endStream(streamId);
+            this.documentProvider.releaseRequest(context.request);
         }
+    }
 
-        return {
-            language: this.normalizeLanguage(language),
-            tokens
-        };
+    /**
+     * Try to tokenize using the language's TextMate grammar (Tier 1)
+     */
+    private async tryGrammarTokenization(
+        code: string,
+        language: string,
+        themeData: ThemeData,
+        context: TokenizeContext
+    ): Promise<Token[] | null> {
+        if (!this.grammarRegistry.getGrammarForLanguage(language)) {
+            return null;
+        }
+
+        try {
+            const result = await this.runJob({ tier: 'grammar', code, language, streamId: context.streamId }, context);
+            if (result.tokens && result.tokens.length > 0) {
+                for (const token of result.tokens) {
+                    this.styleToken(token, themeData);
+                }
+                return result.tokens;
+            }
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
+            this.outputChannel.appendLine(`Grammar tokenization failed (${language}): ${error}`);
+        }
+
+        return null;
     }
 
     /**
-     * Try to tokenize using VS Code semantic tokens (Tier 1)
+     * Try to tokenize using VS Code semantic tokens (Tier 2)
      */
     private async trySemanticTokens(
         document: vscode.TextDocument,
@@ -200,8 +667,17 @@ export class TokenizationService {
             );
 
             if (semanticTokens && semanticTokens.data.length > 0) {
+                // Token types and modifiers are indices into the provider's own legend
+                const legend = await vscode.commands.executeCommand<vscode.SemanticTokensLegend>(
+                    'vscode.provideDocumentSemanticTokensLegend',
+                    document.uri
+                );
+                if (!legend) {
+                    return null;
+                }
+
                 const text = document.getText();
-                return this.parseSemanticTokens(text, semanticTokens, themeData);
+                return this.parseSemanticTokens(text, semanticTokens, legend, themeData, document.languageId);
             }
         } catch (error) {
             this.outputChannel.appendLine(`Semantic tokens not available: ${error}`);
@@ -211,153 +687,83 @@ export class TokenizationService {
     }
 
     /**
-     * Try pattern-based tokenization (Tier 2)
+     * Try pattern-based tokenization (Tier 3)
      */
-    private tryPatternTokenization(
-        text: string,
+    private async tryPatternTokenization(
+        code: string,
         language: string,
-        themeData: ThemeData
-    ): Token[] | null {
+        themeData: ThemeData,
+        context: TokenizeContext
+    ): Promise<Token[] | null> {
         try {
-            return this.simpleTokenize(text, language, themeData);
+            const result = await this.runJob({ tier: 'pattern', code, language, streamId: context.streamId }, context);
+            return result.tokens ? this.colorTypedTokens(result.tokens, themeData) : null;
         } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
+            }
             this.outputChannel.appendLine(`Pattern tokenization failed: ${error}`);
             return null;
         }
     }
 
     /**
-     * Create minimal highlighting for code (Tier 3 fallback)
-     * Highlights only basic keywords and common syntax elements
+     * Try minimal highlighting (Tier 4)
      */
-    public createMinimalHighlighting(code: string, language: string, themeData: ThemeData): TokenizedCode {
-        const tokens: Token[] = [];
-        
-        // Common keywords across languages
-        const keywords = [
-            'function', 'return', 'if', 'else', 'for', 'while', 'do', 'switch', 'case',
-            'break', 'continue', 'const', 'let', 'var', 'class', 'interface', 'enum',
-            'type', 'import', 'export', 'from', 'as', 'default', 'async', 'await',
-            'try', 'catch', 'finally', 'throw', 'new', 'this', 'super', 'extends',
-            'implements', 'public', 'private', 'protected', 'static', 'readonly',
-            'def', 'lambda', 'yield', 'raise', 'with', 'pass', 'assert', 'global',
-            'nonlocal', 'in', 'is', 'not', 'and', 'or', 'true', 'false', 'null',
-            'undefined', 'void', 'any', 'boolean', 'number', 'string', 'object'
-        ];
-
-        const keywordPattern = new RegExp(`\\b(${keywords.join('|')})\\b`, 'gi');
-        const stringPattern = /(["'`])(?:(?=(\\?))\2.)*?\1/g;
-        const commentPattern = /(\/\/.*$|\/\*[\s\S]*?\*\/|#.*$)/gm;
-        const numberPattern = /\b\d+\.?\d*\b/g;
-
-        let position = 0;
-        const lines = code.split('\n');
-
-        for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-            const line = lines[lineIndex];
-            const matches: Array<{ start: number; end: number; type: string }> = [];
-
-            // Find all matches
-            let match;
-            
-            // Comments
-            commentPattern.lastIndex = 0;
-            while ((match = commentPattern.exec(line)) !== null) {
-                matches.push({ start: match.index, end: match.index + match[0].length, type: 'comment' });
-            }
-
-            // Strings
-            stringPattern.lastIndex = 0;
-            while ((match = stringPattern.exec(line)) !== null) {
-                matches.push({ start: match.index, end: match.index + match[0].length, type: 'string' });
-            }
-
-            // Keywords
-            keywordPattern.lastIndex = 0;
-            while ((match = keywordPattern.exec(line)) !== null) {
-                matches.push({ start: match.index, end: match.index + match[0].length, type: 'keyword' });
-            }
-
-            // Numbers
-            numberPattern.lastIndex = 0;
-            while ((match = numberPattern.exec(line)) !== null) {
-                matches.push({ start: match.index, end: match.index + match[0].length, type: 'number' });
+    private async tryMinimalHighlighting(
+        code: string,
+        language: string,
+        themeData: ThemeData,
+        context: TokenizeContext
+    ): Promise<TokenizedCode> {
+        try {
+            const result = await this.runJob({ tier: 'minimal', code, language }, context);
+            if (result.tokens) {
+                return { language, tokens: this.colorTypedTokens(result.tokens, themeData) };
             }
-
-            // Sort matches by position
-            matches.sort((a, b) => a.start - b.start);
-
-            // Remove overlapping matches (prioritize first match)
-            const filteredMatches: typeof matches = [];
-            let lastEnd = -1;
-            for (const m of matches) {
-                if (m.start >= lastEnd) {
-                    filteredMatches.push(m);
-                    lastEnd = m.end;
-                }
+        } catch (error) {
+            if (error instanceof vscode.CancellationError) {
+                throw error;
             }
+            this.outputChannel.appendLine(`Minimal highlighting failed: ${error}`);
+        }
 
-            // Create tokens
-            let linePosition = 0;
-            for (const m of filteredMatches) {
-                // Add plain text before match
-                if (m.start > linePosition) {
-                    tokens.push({
-                        text: line.substring(linePosition, m.start),
-                        scopes: ['text'],
-                        startIndex: position + linePosition,
-                        endIndex: position + m.start,
-                        color: themeData.foreground
-                    });
-                }
-
-                // Add matched token
-                tokens.push({
-                    text: line.substring(m.start, m.end),
-                    scopes: [m.type],
-                    startIndex: position + m.start,
-                    endIndex: position + m.end,
-                    color: this.getColorForTokenType(m.type, themeData)
-                });
-
-                linePosition = m.end;
-            }
+        return this.createMinimalHighlighting(code, language, themeData);
+    }
 
-            // Add remaining text
-            if (linePosition < line.length) {
-                tokens.push({
-                    text: line.substring(linePosition),
-                    scopes: ['text'],
-                    startIndex: position + linePosition,
-                    endIndex: position + line.length,
-                    color: themeData.foreground
-                });
-            }
+    /**
+     * Run a pure-tier job on the worker pool, or on this thread when no workers are available
+     */
+    private runJob(job: TokenizationJob, context: TokenizeContext): Promise<TokenizationJobResult> {
+        if (this.workerPool.isAvailable()) {
+            return this.workerPool.run(job, context.token);
+        }
+        return this.jobRunner.run(job, context.token);
+    }
 
-            position += line.length;
+    /**
+     * Create the request the virtual documents of a tokenization are opened for
+     */
+    private createRequest(blockId: string): DocumentRequest {
+        return { blockId, requestId: this.nextRequestId++ };
+    }
 
-            // Add newline
-            if (lineIndex < lines.length - 1) {
-                tokens.push({
-                    text: '\n',
-                    scopes: ['text'],
-                    startIndex: position,
-                    endIndex: position + 1,
-                    color: themeData.foreground
-                });
-                position += 1;
-            }
-        }
+    /**
+     * Drop the tokenizer state of a finished stream
+     */
+    private endStream(streamId: string): void {
+        this.jobRunner.endStream(streamId);
+        this.workerPool.endStream(streamId);
+    }
 
+    /**
+     * Create minimal highlighting for code (Tier 4 fallback)
+     * Highlights only basic keywords and common syntax elements
+     */
+    public createMinimalHighlighting(code: string, language: string, themeData: ThemeData): TokenizedCode {
         return {
             language,
-            tokens: tokens.length > 0 ? tokens : [{
-                text: code,
-                scopes: ['text'],
-                startIndex: 0,
-                endIndex: code.length,
-                color: themeData.foreground
-            }]
+            tokens: this.colorTypedTokens(minimalTokenize(code, language), themeData)
         };
     }
 
@@ -366,6 +772,11 @@ export class TokenizationService {
      */
     private async validateLanguage(language: string): Promise<string> {
         try {
+            // Languages contributed by installed extensions
+            if (this.grammarRegistry.hasLanguage(language)) {
+                return language;
+            }
+
             // Get available languages
             const languages = await vscode.languages.getLanguages();
             
@@ -390,168 +801,70 @@ export class TokenizationService {
 
     /**
      * Parse semantic tokens from VS Code
+     * The text between them is left uncovered, for the grammar tokens or plain tokens to fill
      */
-    private parseSemanticTokens(text: string, semanticTokens: vscode.SemanticTokens, themeData: ThemeData): Token[] {
-        const tokens: Token[] = [];
-        const data = semanticTokens.data;
-        
-        let currentLine = 0;
-        let currentChar = 0;
-
-        // Semantic tokens are encoded as: [deltaLine, deltaStartChar, length, tokenType, tokenModifiers]
-        for (let i = 0; i < data.length; i += 5) {
-            const deltaLine = data[i];
-            const deltaStartChar = data[i + 1];
-            const length = data[i + 2];
-            const tokenType = data[i + 3];
-
-            currentLine += deltaLine;
-            if (deltaLine === 0) {
-                currentChar += deltaStartChar;
-            } else {
-                currentChar = deltaStartChar;
-            }
-
-            // Calculate absolute position
-            const lines = text.split('\n');
-            let absoluteStart = 0;
-            for (let l = 0; l < currentLine; l++) {
-                absoluteStart += lines[l].length + 1;
-            }
-            absoluteStart += currentChar;
-
-            const tokenText = text.substring(absoluteStart, absoluteStart + length);
-            const tokenTypeName = this.getSemanticTokenTypeName(tokenType);
-            
-            tokens.push({
-                text: tokenText,
-                scopes: [tokenTypeName],
-                startIndex: absoluteStart,
-                endIndex: absoluteStart + length,
-                color: this.getColorForTokenType(tokenTypeName, themeData)
-            });
-        }
+    private parseSemanticTokens(
+        text: string,
+        semanticTokens: vscode.SemanticTokens,
+        legend: SemanticTokensLegendData,
+        themeData: ThemeData,
+        language: string
+    ): Token[] {
+        return parseSemanticTokens(text, semanticTokens.data, legend, (type, modifiers, scopes) => ({
+            color: this.getSemanticTokenColor(type, modifiers, scopes, language, themeData),
+            fontStyle: this.getSemanticTokenFontStyle(type, scopes, themeData)
+        }));
+    }
 
-        return this.fillGapsWithPlainTokens(text, tokens, themeData);
+    /**
+     * Get color for a semantic token
+     * Prefers the theme's type+modifier selectors, then the theme's rules for the token's
+     * TextMate scopes, and falls back to the color of the type
+     */
+    private getSemanticTokenColor(
+        tokenType: string,
+        modifiers: string[],
+        scopes: string[],
+        language: string,
+        themeData: ThemeData
+    ): string {
+        const selectorColor = themeData.semanticTokenColors
+            ? resolveSemanticTokenColor(themeData.semanticTokenColors, tokenType, modifiers, language)
+            : undefined;
+
+        return selectorColor
+            || this.getScopeStyle(scopes, themeData)?.foreground
+            || this.getColorForTokenType(tokenType, themeData);
     }
 
     /**
-     * Get semantic token type name from index
+     * Get the font style of a semantic token
+     * Takes the theme's rules for the token's TextMate scopes, then the font style of the type
      */
-    private getSemanticTokenTypeName(tokenType: number): string {
-        const types = [
-            'namespace', 'type', 'class', 'enum', 'interface',
-            'struct', 'typeParameter', 'parameter', 'variable', 'property',
-            'enumMember', 'event', 'function', 'method', 'macro',
-            'keyword', 'modifier', 'comment', 'string', 'number',
-            'regexp', 'operator'
-        ];
-        return types[tokenType] || 'unknown';
+    private getSemanticTokenFontStyle(tokenType: string, scopes: string[], themeData: ThemeData): string {
+        const scopeFontStyle = this.getScopeStyle(scopes, themeData)?.fontStyle;
+        return scopeFontStyle !== undefined
+            ? scopeFontStyle
+            : themeData.fontStyles?.[this.mapTokenType(tokenType)] || '';
     }
 
     /**
-     * Simple pattern-based tokenization fallback
+     * Color tokens whose first scope is a token type (pattern and minimal tiers)
      */
-    private simpleTokenize(text: string, language: string, themeData: ThemeData): Token[] {
-        const tokens: Token[] = [];
-        const patterns = this.getLanguagePatterns(language);
-
-        let position = 0;
-        const lines = text.split('\n');
-
-        for (let lineIndex = 0; lineIndex < lines.length; lineIndex++) {
-            const line = lines[lineIndex];
-            let linePosition = 0;
-
-            while (linePosition < line.length) {
-                let matched = false;
-
-                for (const pattern of patterns) {
-                    const regex = new RegExp(pattern.regex, 'g');
-                    regex.lastIndex = linePosition;
-                    const match = regex.exec(line);
-
-                    if (match && match.index === linePosition) {
-                        tokens.push({
-                            text: match[0],
-                            scopes: [pattern.type],
-                            startIndex: position + linePosition,
-                            endIndex: position + linePosition + match[0].length,
-                            color: this.getColorForTokenType(pattern.type, themeData)
-                        });
-                        linePosition += match[0].length;
-                        matched = true;
-                        break;
-                    }
-                }
+    private colorTypedTokens(tokens: Token[], themeData: ThemeData): Token[] {
+        for (const token of tokens) {
+            const type = token.scopes[0];
+            token.color = type === 'text' ? themeData.foreground : this.getColorForTokenType(type, themeData);
 
-                if (!matched) {
-                    tokens.push({
-                        text: line[linePosition],
-                        scopes: ['text'],
-                        startIndex: position + linePosition,
-                        endIndex: position + linePosition + 1,
-                        color: themeData.foreground
-                    });
-                    linePosition++;
-                }
-            }
-
-            if (lineIndex < lines.length - 1) {
-                tokens.push({
-                    text: '\n',
-                    scopes: ['text'],
-                    startIndex: position + linePosition,
-                    endIndex: position + linePosition + 1,
-                    color: themeData.foreground
-                });
-                position += line.length + 1;
-            } else {
-                position += line.length;
+            const fontStyle = type === 'text' ? undefined : themeData.fontStyles?.[this.mapTokenType(type)];
+            if (fontStyle) {
+                token.fontStyle = fontStyle;
             }
         }
 
         return tokens;
     }
 
-    /**
-     * Get language-specific tokenization patterns
-     */
-    private getLanguagePatterns(_language: string): Array<{ regex: string; type: string }> {
-        return [
-            // Comments
-            { regex: '//.*$', type: 'comment' },
-            { regex: '/\\*[\\s\\S]*?\\*/', type: 'comment' },
-            { regex: '#.*$', type: 'comment' },
-            
-            // Strings
-            { regex: '"(?:[^"\\\\]|\\\\.)*"', type: 'string' },
-            { regex: "'(?:[^'\\\\]|\\\\.)*'", type: 'string' },
-            { regex: '`(?:[^`\\\\]|\\\\.)*`', type: 'string' },
-            
-            // Numbers
-            { regex: '\\b\\d+\\.?\\d*\\b', type: 'number' },
-            
-            // Keywords
-            { regex: '\\b(function|return|if|else|for|while|do|switch|case|break|continue|const|let|var|class|interface|enum|type|import|export|from|as|default|async|await|try|catch|finally|throw|new|this|super|extends|implements|public|private|protected|static|readonly)\\b', type: 'keyword' },
-            
-            // Functions
-            { regex: '\\b[a-zA-Z_$][a-zA-Z0-9_$]*(?=\\s*\\()', type: 'function' },
-            
-            // Types/Classes
-            { regex: '\\b[A-Z][a-zA-Z0-9_$]*\\b', type: 'class' },
-            
-            // Variables
-            { regex: '\\b[a-zA-Z_$][a-zA-Z0-9_$]*\\b', type: 'variable' },
-            
-            // Operators
-            { regex: '[+\\-*/%=<>!&|^~?:]+', type: 'operator' },
-            
-            // Punctuation
-            { regex: '[\\(\\)\\[\\]\\{\\};,.]', type: 'punctuation' }
-        ];
-    }
-
     /**
      * Fill gaps between tokens with plain text tokens
      */
@@ -600,6 +913,13 @@ export class TokenizationService {
      * Get color for token type from theme data
      */
     private getColorForTokenType(tokenType: string, themeData: ThemeData): string {
+        return themeData.colors[this.mapTokenType(tokenType)] || themeData.foreground;
+    }
+
+    /**
+     * Map a semantic or pattern token type to the token type of the theme palette
+     */
+    private mapTokenType(tokenType: string): string {
         const typeMapping: { [key: string]: string } = {
             'comment': 'comment',
             'string': 'string',
@@ -627,14 +947,131 @@ export class TokenizationService {
             'modifier': 'keyword'
         };
 
-        const mappedType = typeMapping[tokenType] || 'variable';
-        return themeData.colors[mappedType] || themeData.foreground;
+        return typeMapping[tokenType] || 'variable';
+    }
+
+    /**
+     * Resolve a scope stack against the rules of the loaded theme
+     * Returns undefined when no theme file was loaded
+     */
+    private getScopeStyle(scopes: string[], themeData: ThemeData): ScopeStyle | undefined {
+        if (!themeData.tokenColors) {
+            return undefined;
+        }
+
+        let resolver = this.scopeResolvers.get(themeData.tokenColors);
+        if (!resolver) {
+            resolver = new ScopeStyleResolver(themeData.tokenColors);
+            this.scopeResolvers.set(themeData.tokenColors, resolver);
+        }
+        return resolver.resolve(scopes);
+    }
+
+    /**
+     * Get color for a TextMate scope stack from theme data
+     * Uses the loaded theme's rules when they color the stack; otherwise walks from the innermost
+     * scope outwards and uses the first scope with a known token type
+     */
+    private getColorForScopes(scopes: string[], themeData: ThemeData): string {
+        const themeColor = this.getScopeStyle(scopes, themeData)?.foreground;
+        if (themeColor) {
+            return themeColor;
+        }
+
+        const type = this.getTokenTypeForScopes(scopes);
+        return type ? themeData.colors[type] || themeData.foreground : themeData.foreground;
+    }
+
+    /**
+     * Get the font style of a TextMate scope stack from theme data
+     * Uses the loaded theme's rules when they set one, an empty style included; otherwise the
+     * font style of the stack's token type
+     */
+    private getFontStyleForScopes(scopes: string[], themeData: ThemeData): string | undefined {
+        const themeFontStyle = this.getScopeStyle(scopes, themeData)?.fontStyle;
+        if (themeFontStyle !== undefined) {
+            return themeFontStyle || undefined;
+        }
+
+        const type = this.getTokenTypeForScopes(scopes);
+        return type ? themeData.fontStyles?.[type] : undefined;
+    }
+
+    /**
+     * Get the token type of a TextMate scope stack
+     * Walks from the innermost scope outwards and returns the first scope with a known token type
+     */
+    private getTokenTypeForScopes(scopes: string[]): string | undefined {
+        const scopeMapping: Array<{ prefix: string; type: string }> = [
+            { prefix: 'comment', type: 'comment' },
+            { prefix: 'string.regexp', type: 'regexp' },
+            { prefix: 'string', type: 'string' },
+            { prefix: 'constant.numeric', type: 'number' },
+            { prefix: 'constant.character.escape', type: 'regexp' },
+            { prefix: 'constant', type: 'constant' },
+            { prefix: 'keyword.operator', type: 'operator' },
+            { prefix: 'keyword', type: 'keyword' },
+            { prefix: 'storage.type', type: 'keyword' },
+            { prefix: 'storage.modifier', type: 'keyword' },
+            { prefix: 'entity.name.function', type: 'function' },
+            { prefix: 'support.function', type: 'function' },
+            { prefix: 'entity.name.type', type: 'type' },
+            { prefix: 'entity.name.class', type: 'class' },
+            { prefix: 'entity.other.inherited-class', type: 'class' },
+            { prefix: 'support.type', type: 'type' },
+            { prefix: 'support.class', type: 'class' },
+            { prefix: 'entity.name.tag', type: 'tag' },
+            { prefix: 'entity.other.attribute-name', type: 'attribute' },
+            { prefix: 'variable.parameter', type: 'parameter' },
+            { prefix: 'variable.other.property', type: 'property' },
+            { prefix: 'variable.other.constant', type: 'constant' },
+            { prefix: 'variable', type: 'variable' },
+            { prefix: 'punctuation', type: 'punctuation' },
+            { prefix: 'markup.heading', type: 'markup.heading' },
+            { prefix: 'markup.bold', type: 'markup.bold' },
+            { prefix: 'markup.italic', type: 'markup.italic' },
+            { prefix: 'markup.underline', type: 'markup.underline' },
+            { prefix: 'markup.strikethrough', type: 'markup.strikethrough' },
+            { prefix: 'markup.inserted', type: 'markup.inserted' },
+            { prefix: 'markup.deleted', type: 'markup.deleted' },
+            { prefix: 'markup.changed', type: 'markup.changed' },
+            { prefix: 'meta.diff.range', type: 'markup.changed' },
+            { prefix: 'meta.diff.header', type: 'markup.heading' },
+            { prefix: 'meta.output', type: 'output' },
+            { prefix: 'invalid', type: 'invalid' }
+        ];
+
+        for (let i = scopes.length - 1; i >= 0; i--) {
+            const scope = scopes[i];
+            for (const { prefix, type } of scopeMapping) {
+                if (scope === prefix || scope.startsWith(prefix + '.')) {
+                    return type;
+                }
+            }
+        }
+
+        return undefined;
     }
 
     /**
      * Normalize language identifier (handle aliases)
+     * Unlabeled blocks take the default language and user aliases apply first;
+     * then prefers the ids, aliases, extensions and filenames declared by installed extensions
      */
     private normalizeLanguage(language: string): string {
+        if (!language.trim()) {
+            language = this.defaultLanguage;
+        }
+        // Own keys only, so fences named like Object.prototype members are not aliases
+        if (Object.prototype.hasOwnProperty.call(this.languageAliases, language.toLowerCase())) {
+            language = this.languageAliases[language.toLowerCase()];
+        }
+
+        const contributed = this.grammarRegistry.resolveLanguage(language);
+        if (contributed) {
+            return contributed;
+        }
+
         const aliases: { [key: string]: string } = {
             'js': 'javascript',
             'ts': 'typescript',
@@ -664,13 +1101,40 @@ export class TokenizationService {
             'sql': 'sql'
         };
 
-        return aliases[language.toLowerCase()] || language.toLowerCase();
+        const languageId = language.toLowerCase();
+        return Object.prototype.hasOwnProperty.call(aliases, languageId) ? aliases[languageId] : languageId;
+    }
+
+    /**
+     * Stop tokenization once its cancellation token has fired
+     */
+    private throwIfCancelled(context: TokenizeContext): void {
+        if (context.token?.isCancellationRequested) {
+            throw new vscode.CancellationError();
+        }
+    }
+
+    /**
+     * Create a block id from the code and language when the caller does not provide one
+     */
+    private createBlockId(code: string, language: string): string {
+        let hash = 0;
+        for (let i = 0; i < code.length; i++) {
+            hash = ((hash << 5) - hash + code.charCodeAt(i)) | 0;
+        }
+        return `${language}-${(hash >>> 0).toString(36)}`;
     }
 
     /**
      * Dispose resources
      */
     public dispose(): void {
+        this.disposables.forEach(d => d.dispose());
+        this.disposables = [];
+        this.documentProvider.dispose();
+        this.workerPool.dispose();
+        this.jobRunner.dispose();
+        this.grammarRegistry.dispose();
         this.outputChannel.dispose();
     }
 }
@@ -0,0 +1,64 @@
+import { parentPort, workerData } from 'worker_threads';
+import { GrammarSnapshot, StaticGrammarLocator } from './textMateEngine';
+import { TokenizationJobRunner, WorkerRequest, WorkerResponse } from './tokenizationJobs';
+
+/**
+ * Tokenization worker thread entry point
+ * Runs pure-tier jobs posted by the TokenizationWorkerPool; must not import the VS Code API.
+ */
+
+let runner = new TokenizationJobRunner(new StaticGrammarLocator(workerData.snapshot as GrammarSnapshot));
+
+// Cancellation flags of the running jobs, set by cancel requests
+const runningJobs: Map<number, { isCancellationRequested: boolean }> = new Map();
+
+// Grammar index received while a job was running
+let pendingSnapshot: GrammarSnapshot | null = null;
+
+/**
+ * Replace the runner with one for the latest grammar index once no job is using it
+ * A runner is never disposed under a running job, which may be waiting between slices of lines.
+ */
+function replaceRunnerWhenIdle(): void {
+    if (pendingSnapshot && runningJobs.size === 0) {
+        runner.dispose();
+        runner = new TokenizationJobRunner(new StaticGrammarLocator(pendingSnapshot));
+        pendingSnapshot = null;
+    }
+}
+
+parentPort?.on('message', async (message: WorkerRequest) => {
+    switch (message.type) {
+        case 'job': {
+            const cancellation = { isCancellationRequested: false };
+            runningJobs.set(message.id, cancellation);
+
+            let response: WorkerResponse;
+            try {
+                const result = await runner.run(message.job, cancellation);
+                response = { type: 'result', id: message.id, tokens: result.tokens };
+            } catch (error) {
+                response = { type: 'error', id: message.id, message: String(error) };
+            } finally {
+                runningJobs.delete(message.id);
+            }
+            parentPort?.postMessage(response);
+            replaceRunnerWhenIdle();
+            break;
+        }
+        case 'grammars':
+            pendingSnapshot = message.snapshot;
+            replaceRunnerWhenIdle();
+            break;
+        case 'endStream':
+            runner.endStream(message.streamId);
+            break;
+        case 'cancel': {
+            const cancellation = runningJobs.get(message.id);
+            if (cancellation) {
+                cancellation.isCancellationRequested = true;
+            }
+            break;
+        }
+    }
+});
@@ -0,0 +1,372 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { Worker } from 'worker_threads';
+import { GrammarSnapshot } from './textMateEngine';
+import { TokenizationJob, TokenizationJobResult, WorkerRequest, WorkerResponse } from './tokenizationJobs';
+
+/**
+ * A job waiting for, or running on, a worker
+ */
+interface PendingJob {
+    id: number;
+    job: TokenizationJob;
+    resolve: (result: TokenizationJobResult) => void;
+    reject: (error: Error) => void;
+    cancelListener?: vscode.Disposable;
+    // Set once a running job is cancelled; its result is dropped when it arrives
+    cancelled?: boolean;
+    cancelTimer?: NodeJS.Timeout;
+}
+
+/**
+ * A worker thread and the job it is running
+ */
+interface WorkerSlot {
+    worker: Worker;
+    current: PendingJob | null;
+    retired: boolean;
+    terminating: boolean;
+}
+
+/**
+ * TokenizationWorkerPool - Runs pure-tier tokenization jobs on worker threads
+ * Jobs of a stream stay on the worker holding the stream's tokenizer state.
+ * Cancelling a running job rejects it right away and asks its worker to stop the job; the worker
+ * checks for the request between slices of lines and answers early, so it stays free for the next
+ * job with its loaded grammars kept. Only a worker that does not answer long after a cancellation
+ * (e.g. stuck on a single line) is terminated. Workers that crash or are terminated are replaced on demand.
+ */
+export class TokenizationWorkerPool {
+    private outputChannel: vscode.OutputChannel;
+    private snapshot: GrammarSnapshot;
+    private slots: WorkerSlot[] = [];
+    private queue: PendingJob[] = [];
+    private streamSlots: Map<string, WorkerSlot> = new Map();
+    private size: number = 0;
+    private nextJobId: number = 1;
+    private consecutiveCrashes: number = 0;
+    private disabled: boolean = false;
+    private readonly MAX_CONSECUTIVE_CRASHES = 5; // Give up on workers after 5 crashes without a result
+    private readonly CANCELLED_JOB_TIMEOUT = 5000; // Terminate workers still busy 5 seconds after a cancellation
+    private readonly workerScript: string;
+
+    constructor(
+        snapshot: GrammarSnapshot,
+        outputChannel: vscode.OutputChannel,
+        workerScript: string = path.join(__dirname, 'tokenizationWorker.js')
+    ) {
+        this.snapshot = snapshot;
+        this.outputChannel = outputChannel;
+        this.workerScript = workerScript;
+    }
+
+    /**
+     * Check if jobs can be run on the pool
+     */
+    public isAvailable(): boolean {
+        return this.size > 0 && !this.disabled;
+    }
+
+    /**
+     * Set the maximum number of worker threads
+     * Workers are started on demand; surplus workers stop once their current job is done
+     */
+    public setSize(size: number): void {
+        this.size = Math.max(0, Math.floor(size));
+
+        for (const slot of this.getActiveSlots().slice(this.size)) {
+            slot.retired = true;
+            this.forgetStreams(slot);
+            if (!slot.current) {
+                this.terminate(slot);
+            }
+        }
+
+        if (this.size === 0) {
+            this.rejectQueued(new Error('Tokenization worker pool is empty'));
+        } else {
+            this.dispatch();
+        }
+    }
+
+    /**
+     * Get the number of running worker threads
+     */
+    public getWorkerCount(): number {
+        return this.slots.length;
+    }
+
+    /**
+     * Run a job on a worker thread
+     * Rejects with vscode.CancellationError when the cancellation token fires
+     */
+    public run(job: TokenizationJob, token?: vscode.CancellationToken): Promise<TokenizationJobResult> {
+        if (!this.isAvailable()) {
+            return Promise.reject(new Error('Tokenization worker pool is not available'));
+        }
+        if (token?.isCancellationRequested) {
+            return Promise.reject(new vscode.CancellationError());
+        }
+
+        return new Promise<TokenizationJobResult>((resolve, reject) => {
+            const pending: PendingJob = { id: this.nextJobId++, job, resolve, reject };
+            pending.cancelListener = token?.onCancellationRequested(() => this.cancel(pending));
+            this.queue.push(pending);
+            this.dispatch();
+        });
+    }
+
+    /**
+     * Drop the tokenizer state of a finished stream
+     */
+    public endStream(streamId: string): void {
+        const slot = this.streamSlots.get(streamId);
+        if (slot) {
+            this.streamSlots.delete(streamId);
+            this.post(slot, { type: 'endStream', streamId });
+        }
+    }
+
+    /**
+     * Send an updated grammar index to all workers
+     */
+    public updateGrammars(snapshot: GrammarSnapshot): void {
+        this.snapshot = snapshot;
+        for (const slot of this.slots) {
+            this.post(slot, { type: 'grammars', snapshot });
+        }
+    }
+
+    /**
+     * Hand queued jobs to idle workers, starting workers as needed
+     */
+    private dispatch(): void {
+        for (let i = 0; i < this.queue.length && this.isAvailable(); ) {
+            const pending = this.queue[i];
+            const slot = this.findSlot(pending.job);
+            if (!slot) {
+                i++;
+                continue;
+            }
+
+            this.queue.splice(i, 1);
+            slot.current = pending;
+            if (pending.job.streamId) {
+                this.streamSlots.set(pending.job.streamId, slot);
+            }
+            this.post(slot, { type: 'job', id: pending.id, job: pending.job });
+        }
+    }
+
+    /**
+     * Find an idle worker for a job
+     * Jobs of a stream wait for the worker holding the stream's state
+     */
+    private findSlot(job: TokenizationJob): WorkerSlot | undefined {
+        const streamSlot = job.streamId ? this.streamSlots.get(job.streamId) : undefined;
+        if (streamSlot) {
+            return streamSlot.current ? undefined : streamSlot;
+        }
+
+        const idle = this.getActiveSlots().find(slot => !slot.current);
+        if (idle) {
+            return idle;
+        }
+
+        return this.getActiveSlots().length < this.size ? this.spawn() : undefined;
+    }
+
+    /**
+     * Get the workers that have not been retired by a smaller pool size
+     */
+    private getActiveSlots(): WorkerSlot[] {
+        return this.slots.filter(slot => !slot.retired);
+    }
+
+    /**
+     * Start a worker thread
+     */
+    private spawn(): WorkerSlot | undefined {
+        try {
+            const worker = new Worker(this.workerScript, { workerData: { snapshot: this.snapshot } });
+            const slot: WorkerSlot = { worker, current: null, retired: false, terminating: false };
+
+            worker.on('message', (message: WorkerResponse) => this.handleMessage(slot, message));
+            worker.on('error', error => this.outputChannel.appendLine(`Tokenization worker error: ${error}`));
+            worker.on('exit', code => this.handleExit(slot, code));
+
+            this.slots.push(slot);
+            return slot;
+        } catch (error) {
+            this.outputChannel.appendLine(`Failed to start tokenization worker: ${error}`);
+            this.recordCrash();
+            return undefined;
+        }
+    }
+
+    /**
+     * Handle a job result posted by a worker
+     */
+    private handleMessage(slot: WorkerSlot, message: WorkerResponse): void {
+        const pending = slot.current;
+        if (!pending || pending.id !== message.id) {
+            return;
+        }
+
+        slot.current = null;
+        this.consecutiveCrashes = 0;
+        pending.cancelListener?.dispose();
+
+        if (pending.cancelled) {
+            // Already rejected when it was cancelled
+            clearTimeout(pending.cancelTimer);
+        } else if (message.type === 'result') {
+            pending.resolve({ tokens: message.tokens });
+        } else {
+            pending.reject(new Error(message.message));
+        }
+
+        if (slot.retired) {
+            this.terminate(slot);
+        } else {
+            this.dispatch();
+        }
+    }
+
+    /**
+     * Handle a worker that stopped
+     * A worker that was not asked to stop has crashed; its job is rejected and it is replaced on demand
+     */
+    private handleExit(slot: WorkerSlot, code: number): void {
+        this.removeSlot(slot);
+
+        if (!slot.terminating) {
+            this.outputChannel.appendLine(`Tokenization worker exited unexpectedly (code ${code}), restarting`);
+            this.recordCrash();
+
+            const pending = slot.current;
+            slot.current = null;
+            if (pending) {
+                pending.cancelListener?.dispose();
+                clearTimeout(pending.cancelTimer);
+                pending.reject(new Error(`Tokenization worker exited with code ${code}`));
+            }
+        }
+
+        this.dispatch();
+    }
+
+    /**
+     * Cancel a queued or running job
+     */
+    private cancel(pending: PendingJob): void {
+        pending.cancelListener?.dispose();
+
+        const queueIndex = this.queue.indexOf(pending);
+        if (queueIndex !== -1) {
+            this.queue.splice(queueIndex, 1);
+            pending.reject(new vscode.CancellationError());
+            return;
+        }
+
+        // The worker stops the running job at its next check and its answer is dropped; a worker
+        // that does not answer in time is stuck and is replaced
+        const slot = this.slots.find(s => s.current === pending);
+        if (slot && !pending.cancelled) {
+            pending.cancelled = true;
+            pending.reject(new vscode.CancellationError());
+            this.post(slot, { type: 'cancel', id: pending.id });
+            pending.cancelTimer = setTimeout(() => {
+                if (slot.current === pending) {
+                    this.outputChannel.appendLine('Cancelled tokenization job did not finish, restarting its worker');
+                    slot.current = null;
+                    this.terminate(slot);
+                    this.dispatch();
+                }
+            }, this.CANCELLED_JOB_TIMEOUT);
+        }
+    }
+
+    /**
+     * Count a crash and disable the pool after too many in a row
+     */
+    private recordCrash(): void {
+        this.consecutiveCrashes++;
+        if (this.consecutiveCrashes >= this.MAX_CONSECUTIVE_CRASHES && !this.disabled) {
+            this.disabled = true;
+            this.outputChannel.appendLine('Tokenization workers keep crashing, tokenizing on the main thread');
+            this.rejectQueued(new Error('Tokenization worker pool disabled'));
+        }
+    }
+
+    /**
+     * Stop a worker thread
+     */
+    private terminate(slot: WorkerSlot): void {
+        slot.terminating = true;
+        this.removeSlot(slot);
+        slot.worker.terminate().catch(() => undefined);
+    }
+
+    /**
+     * Remove a worker from the pool, forgetting the streams it held
+     */
+    private removeSlot(slot: WorkerSlot): void {
+        const index = this.slots.indexOf(slot);
+        if (index !== -1) {
+            this.slots.splice(index, 1);
+        }
+        this.forgetStreams(slot);
+    }
+
+    /**
+     * Forget the streams held by a worker; their next chunks start from a fresh state
+     */
+    private forgetStreams(slot: WorkerSlot): void {
+        for (const [streamId, streamSlot] of Array.from(this.streamSlots.entries())) {
+            if (streamSlot === slot) {
+                this.streamSlots.delete(streamId);
+            }
+        }
+    }
+
+    /**
+     * Reject all queued jobs
+     */
+    private rejectQueued(error: Error): void {
+        const queued = this.queue;
+        this.queue = [];
+        for (const pending of queued) {
+            pending.cancelListener?.dispose();
+            pending.reject(error);
+        }
+    }
+
+    /**
+     * Post a message to a worker
+     */
+    private post(slot: WorkerSlot, message: WorkerRequest): void {
+        slot.worker.postMessage(message);
+    }
+
+    /**
+     * Dispose resources
+     */
+    public dispose(): void {
+        this.size = 0;
+        this.rejectQueued(new Error('Tokenization worker pool disposed'));
+
+        for (const slot of Array.from(this.slots)) {
+            const pending = slot.current;
+            slot.current = null;
+            this.terminate(slot);
+            if (pending) {
+                pending.cancelListener?.dispose();
+                clearTimeout(pending.cancelTimer);
+                pending.reject(new Error('Tokenization worker pool disposed'));
+            }
+        }
+
+        this.streamSlots.clear();
+    }
+}
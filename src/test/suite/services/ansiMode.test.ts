@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import {
+    ANSI_COLOR_NAMES,
+    AnsiColors,
+    getAnsiFontStyle,
+    isAnsiBlock,
+    parseAnsiSegments,
+    resolveAnsiColor
+} from '../../../services/ansiMode';
+
+suite('AnsiMode Unit Tests', () => {
+    const colors = ANSI_COLOR_NAMES.reduce(
+        (palette, name, index) => ({ ...palette, [name]: `#0000${index.toString(16).padStart(2, '0')}` }),
+        {} as AnsiColors
+    );
+
+    test('Should recognize ansi fences and plain blocks with escape sequences', () => {
+        assert.ok(isAnsiBlock('ansi', 'no escapes'));
+        assert.ok(isAnsiBlock('log', 'build \x1b[32mok\x1b[0m'));
+        assert.ok(!isAnsiBlock('log', 'build ok'));
+        assert.ok(!isAnsiBlock('python', '\x1b[32m'));
+    });
+
+    test('Should split text into escape sequences and styled runs', () => {
+        const text = 'a\x1b[1;31mb\x1b[22mc\x1b[0md';
+        const segments = parseAnsiSegments(text);
+
+        assert.deepStrictEqual(
+            segments.filter(segment => !segment.escape).map(segment => [text.substring(segment.start, segment.end), segment.style]),
+            [
+                ['a', {}],
+                ['b', { bold: true, foreground: 1 }],
+                ['c', { foreground: 1 }],
+                ['d', {}]
+            ]
+        );
+        assert.strictEqual(segments.filter(segment => segment.escape).length, 3);
+    });
+
+    test('Should read bright, 256-color and truecolor foregrounds', () => {
+        const text = '\x1b[92ma\x1b[38;5;196mb\x1b[38;2;1;2;3mc\x1b[38:2::4:5:6md\x1b[48;5;1;39me';
+        const foregrounds = parseAnsiSegments(text)
+            .filter(segment => !segment.escape)
+            .map(segment => segment.style.foreground);
+
+        assert.deepStrictEqual(foregrounds, [10, 196, '#010203', '#040506', undefined]);
+    });
+
+    test('Should drop other escape sequences without changing the style', () => {
+        const text = '\x1b[33mx\x1b[2Ky\x1b]8;;https://example.com\x07z';
+        const runs = parseAnsiSegments(text).filter(segment => !segment.escape);
+
+        assert.deepStrictEqual(runs.map(segment => text.substring(segment.start, segment.end)), ['x', 'y', 'z']);
+        assert.ok(runs.every(segment => segment.style.foreground === 3));
+    });
+
+    test('Should resolve palette colors against the theme', () => {
+        assert.strictEqual(resolveAnsiColor(1, colors), colors.red);
+        assert.strictEqual(resolveAnsiColor(9, colors), colors.brightRed);
+        assert.strictEqual(resolveAnsiColor(1), undefined);
+        assert.strictEqual(resolveAnsiColor(196, colors), '#ff0000');
+        assert.strictEqual(resolveAnsiColor(244, colors), '#808080');
+        assert.strictEqual(resolveAnsiColor('#123456', colors), '#123456');
+    });
+
+    test('Should describe emphasis as a TextMate font style', () => {
+        assert.strictEqual(getAnsiFontStyle({ bold: true, underline: true }), 'bold underline');
+        assert.strictEqual(getAnsiFontStyle({ foreground: 2 }), undefined);
+    });
+});
@@ -0,0 +1,28 @@
+import * as assert from 'assert';
+import { BUNDLED_THEMES, findBundledTheme } from '../../../services/bundledThemes';
+import { ScopeStyleResolver } from '../../../services/scopeSelectors';
+
+suite('BundledThemes Unit Tests', () => {
+    test('Should find bundled themes by name ignoring case', () => {
+        assert.strictEqual(findBundledTheme('github light')?.name, 'GitHub Light');
+        assert.strictEqual(findBundledTheme(' Dracula ')?.kind, 'dark');
+        assert.strictEqual(findBundledTheme('Monokai'), undefined);
+    });
+
+    test('Should give every bundled theme editor colors and token colors', () => {
+        for (const theme of BUNDLED_THEMES) {
+            assert.ok(/^#[0-9a-f]{6}$/.test(theme.colors['editor.background']), `${theme.name} background`);
+            assert.ok(/^#[0-9a-f]{6}$/.test(theme.colors['editor.foreground']), `${theme.name} foreground`);
+
+            const resolver = new ScopeStyleResolver(theme.tokenColors);
+            for (const scope of ['comment.line', 'string.quoted', 'keyword.control', 'entity.name.function']) {
+                assert.ok(resolver.resolve([scope]).foreground, `${theme.name} has no color for ${scope}`);
+            }
+        }
+    });
+
+    test('Should bundle light and dark themes', () => {
+        assert.strictEqual(findBundledTheme('Solarized Light')?.kind, 'light');
+        assert.strictEqual(findBundledTheme('One Dark')?.kind, 'dark');
+    });
+});
@@ -63,6 +63,18 @@ suite('CacheManager Unit Tests', () => {
         assert.ok(cacheManager.get('key5')); // Should exist
     });
 
+    test('Should drop the styles of evicted entries from the style table', () => {
+        for (let i = 0; i < 6; i++) {
+            cacheManager.set(`key${i}`, {
+                language: 'javascript',
+                tokens: [{ text: 'x', scopes: ['variable', `scope${i}`], startIndex: 0, endIndex: 1, color: '#fff' }]
+            });
+        }
+
+        assert.strictEqual(cacheManager.getStyleTable().size(), 5);
+        assert.strictEqual(cacheManager.get('key5')!.tokens[0].scopes[1], 'scope5');
+    });
+
     test('Should update access order on get', () => {
         // Fill cache
         for (let i = 0; i < 5; i++) {
@@ -220,4 +232,24 @@ suite('CacheManager Unit Tests', () => {
         assert.strictEqual(stats.maxSize, 5);
         assert.strictEqual(typeof stats.hitRate, 'number');
     });
+
+    test('Should store entries in the compact encoding', () => {
+        const tokenizedCode: TokenizedCode = {
+            language: 'javascript',
+            tokens: [
+                { text: 'let', scopes: ['keyword'], startIndex: 0, endIndex: 3, color: '#00f' },
+                { text: ' ', scopes: ['text'], startIndex: 3, endIndex: 4, color: '#fff' },
+                { text: 'y', scopes: ['variable'], startIndex: 4, endIndex: 5, color: '#0ff' }
+            ]
+        };
+
+        cacheManager.set('key1', tokenizedCode);
+        const encoded = cacheManager.getEncoded('key1');
+
+        assert.ok(encoded);
+        assert.ok(encoded.data instanceof Uint32Array);
+        assert.strictEqual(encoded.text, 'let y');
+        assert.strictEqual(cacheManager.getStyleTable().size(), 3);
+        assert.deepStrictEqual(cacheManager.get('key1'), tokenizedCode);
+    });
 });
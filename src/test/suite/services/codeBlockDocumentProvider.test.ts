@@ -0,0 +1,105 @@
+import * as assert from 'assert';
+import { CodeBlockDocumentProvider } from '../../../services/codeBlockDocumentProvider';
+
+suite('CodeBlockDocumentProvider Unit Tests', () => {
+    let provider: CodeBlockDocumentProvider;
+
+    setup(() => {
+        provider = new CodeBlockDocumentProvider();
+    });
+
+    teardown(() => {
+        provider.dispose();
+    });
+
+    test('Should use a stable pseudo-filename with the language extension', () => {
+        const uri = provider.getUri('block-1', '.ts');
+
+        assert.strictEqual(uri.scheme, CodeBlockDocumentProvider.SCHEME);
+        assert.ok(uri.path.endsWith('.ts'));
+        assert.strictEqual(uri.toString(), provider.getUri('block-1', '.ts').toString());
+        assert.notStrictEqual(uri.toString(), provider.getUri('block-2', '.ts').toString());
+    });
+
+    test('Should serve block content through the document scheme', async () => {
+        const document = await provider.openDocument('block-1', 'const x = 1;', 'typescript', '.ts');
+
+        assert.strictEqual(document.uri.scheme, CodeBlockDocumentProvider.SCHEME);
+        assert.strictEqual(document.languageId, 'typescript');
+        assert.strictEqual(document.getText(), 'const x = 1;');
+    });
+
+    test('Should reuse the document of a block when its content changes', async () => {
+        const first = await provider.openDocument('block-1', 'let a = 1;', 'typescript', '.ts');
+        await provider.openDocument('block-1', 'let a = 2;', 'typescript', '.ts');
+
+        assert.strictEqual(provider.getDocumentCount(), 1);
+        assert.strictEqual(provider.provideTextDocumentContent(first.uri), 'let a = 2;');
+    });
+
+    test('Should release block content without emptying the open document', async () => {
+        const document = await provider.openDocument('block-1', 'x = 1', 'python', '.py');
+        const changed: string[] = [];
+        provider.onDidChange(uri => changed.push(uri.toString()));
+
+        provider.release(document.uri);
+
+        assert.strictEqual(provider.getDocumentCount(), 0);
+        assert.deepStrictEqual(changed, []);
+    });
+
+    test('Should keep one document per block across requests', async () => {
+        const first = await provider.openDocument('block-1', 'let a = 1;', 'typescript', '.ts', { blockId: 'block-1', requestId: 1 });
+        provider.releaseRequest({ blockId: 'block-1', requestId: 1 });
+        const second = await provider.openDocument('block-1', 'let a = 2;', 'typescript', '.ts', { blockId: 'block-1', requestId: 2 });
+
+        assert.strictEqual(first.uri.toString(), second.uri.toString());
+        assert.strictEqual(provider.getDocumentCount(), 1);
+        assert.strictEqual(second.getText(), 'let a = 2;');
+    });
+
+    test('Should let the requests of a block take turns on its document', async () => {
+        const first = { blockId: 'block-1', requestId: 1 };
+        const second = { blockId: 'block-1', requestId: 2 };
+        await provider.openDocument('block-1', 'x = 1', 'python', '.py', first);
+
+        let secondOpened = false;
+        const opening = provider.openDocument('block-1', 'x = 2', 'python', '.py', second).then(document => {
+            secondOpened = true;
+            return document;
+        });
+
+        // The first request may keep reading its content until it is done
+        await provider.openDocument('block-1', 'x = 1', 'python', '.py', first);
+        assert.strictEqual(secondOpened, false);
+        assert.strictEqual(provider.provideTextDocumentContent(provider.getUri('block-1', '.py')), 'x = 1');
+
+        provider.releaseRequest(first);
+        const document = await opening;
+        assert.strictEqual(document.getText(), 'x = 2');
+    });
+
+    test('Should stop waiting for a turn when the request is released', async () => {
+        const first = { blockId: 'block-1', requestId: 1 };
+        const second = { blockId: 'block-1', requestId: 2 };
+        await provider.openDocument('block-1', 'x = 1', 'python', '.py', first);
+        const opening = provider.openDocument('block-1', 'x = 2', 'python', '.py', second);
+
+        provider.releaseRequest(second);
+
+        await assert.rejects(opening);
+        await provider.openDocument('block-1', 'x = 3', 'python', '.py', first);
+    });
+
+    test('Should release the documents of a block and the blocks derived from it', async () => {
+        await provider.openDocument('block-1', 'x = 1', 'python', '.py');
+        await provider.openDocument('block-1-code', 'y = 2', 'python', '.py');
+        await provider.openDocument('block-2', 'z = 3', 'python', '.py');
+
+        provider.releaseBlock('block-1');
+        assert.strictEqual(provider.getDocumentCount(), 1);
+
+        provider.releaseAll();
+        assert.strictEqual(provider.getDocumentCount(), 0);
+    });
+});
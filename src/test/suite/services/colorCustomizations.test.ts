@@ -0,0 +1,52 @@
+import * as assert from 'assert';
+import {
+    getSemanticTokenColorCustomizations,
+    getTokenColorCustomizationRules,
+    matchesThemeKey
+} from '../../../services/colorCustomizations';
+import { ScopeStyleResolver } from '../../../services/scopeSelectors';
+
+suite('ColorCustomizations Unit Tests', () => {
+    test('Should turn shorthand groups and textMateRules into rules', () => {
+        const rules = getTokenColorCustomizationRules({
+            comments: '#111111',
+            strings: { foreground: '#222222', fontStyle: 'bold' },
+            textMateRules: [{ scope: 'keyword.operator', settings: { foreground: '#333333' } }]
+        }, []);
+        const resolver = new ScopeStyleResolver(rules);
+
+        assert.strictEqual(resolver.resolve(['comment.line']).foreground, '#111111');
+        assert.deepStrictEqual(resolver.resolve(['string.quoted']), { foreground: '#222222', fontStyle: 'bold' });
+        assert.strictEqual(resolver.resolve(['keyword.operator']).foreground, '#333333');
+    });
+
+    test('Should apply blocks of the active theme after the general settings', () => {
+        const customizations = {
+            comments: '#111111',
+            '[Monokai]': { comments: '#222222' },
+            '[Solarized Light]': { comments: '#333333' }
+        };
+
+        const rules = getTokenColorCustomizationRules(customizations, ['Monokai']);
+
+        assert.strictEqual(new ScopeStyleResolver(rules).resolve(['comment']).foreground, '#222222');
+        assert.strictEqual(rules.length, 2);
+    });
+
+    test('Should match theme keys listing several themes or using wildcards', () => {
+        assert.ok(matchesThemeKey('[Monokai]', ['Monokai']));
+        assert.ok(matchesThemeKey('[Abyss][Monokai]', ['Monokai']));
+        assert.ok(matchesThemeKey('[Solarized*]', ['Solarized Dark']));
+        assert.ok(!matchesThemeKey('[Monokai]', ['Monokai Dimmed']));
+    });
+
+    test('Should read semantic token rules, theme blocks overriding general ones', () => {
+        const colors = getSemanticTokenColorCustomizations({
+            enabled: true,
+            rules: { 'variable.readonly': '#111111', parameter: { foreground: '#222222' } },
+            '[Dark+]': { rules: { 'variable.readonly': '#333333' } }
+        }, ['Dark+']);
+
+        assert.deepStrictEqual(colors, { 'variable.readonly': '#333333', parameter: '#222222' });
+    });
+});
@@ -0,0 +1,79 @@
+import * as assert from 'assert';
+import { COLOR_VISION_MODES, createColorVisionRemap, isColorVisionMode, simulateColorVision } from '../../../services/colorVision';
+import { getRelativeLuminance, parseHexColor } from '../../../services/colorMath';
+
+/**
+ * Euclidean distance of two colors in 8-bit RGB
+ */
+function distance(color: string, other: string): number {
+    const a = parseHexColor(color)!;
+    const b = parseHexColor(other)!;
+    return Math.hypot(a.r - b.r, a.g - b.g, a.b - b.b);
+}
+
+function luminance(color: string): number {
+    return getRelativeLuminance(parseHexColor(color)!);
+}
+
+suite('Color Vision Unit Tests', () => {
+    test('Should recognize color vision modes', () => {
+        assert.ok(isColorVisionMode('tritanopia'));
+        assert.ok(!isColorVisionMode('off'));
+        assert.ok(!isColorVisionMode(undefined));
+    });
+
+    test('Should keep grays when simulating', () => {
+        for (const mode of COLOR_VISION_MODES) {
+            assert.ok(distance(simulateColorVision('#ffffff', mode), '#ffffff') <= 2, mode);
+            assert.ok(distance(simulateColorVision('#808080', mode), '#808080') <= 2, mode);
+        }
+        assert.strictEqual(simulateColorVision('not-a-color', 'protanopia'), 'not-a-color');
+    });
+
+    test('Should bring red and green together with red-green deficiencies', () => {
+        const red = '#d73a49';
+        const green = '#22863a';
+        for (const mode of ['deuteranopia', 'protanopia'] as const) {
+            const simulated = distance(simulateColorVision(red, mode), simulateColorVision(green, mode));
+            assert.ok(simulated < distance(red, green) / 2, `${mode}: ${simulated}`);
+        }
+    });
+
+    test('Should keep red and green apart once remapped', () => {
+        const red = '#d73a49';
+        const green = '#22863a';
+        for (const mode of COLOR_VISION_MODES) {
+            const remap = createColorVisionRemap([red, green], mode);
+            const before = distance(simulateColorVision(red, mode), simulateColorVision(green, mode));
+            const after = distance(simulateColorVision(remap(red), mode), simulateColorVision(remap(green), mode));
+            assert.ok(after > before, `${mode}: ${after} <= ${before}`);
+        }
+    });
+
+    test('Should preserve the luminance of remapped colors', () => {
+        const palette = ['#d73a49', '#22863a', '#005cc5', '#6f42c1', '#e36209'];
+        for (const mode of COLOR_VISION_MODES) {
+            const remap = createColorVisionRemap(palette, mode);
+            for (const color of palette) {
+                assert.ok(Math.abs(luminance(remap(color)) - luminance(color)) < 0.01, `${mode}: ${color} -> ${remap(color)}`);
+            }
+        }
+    });
+
+    test('Should give colors of one hue family the same hue', () => {
+        const remap = createColorVisionRemap(['#ff0000', '#800000', '#00ff00'], 'deuteranopia');
+        const light = parseHexColor(remap('#ff0000'))!;
+        const dark = parseHexColor(remap('#800000'))!;
+
+        assert.ok(Math.abs(light.r / light.g - dark.r / dark.g) < 0.1, `${remap('#ff0000')} and ${remap('#800000')}`);
+        assert.notStrictEqual(remap('#ff0000'), remap('#00ff00'));
+    });
+
+    test('Should leave grays, invalid colors and alpha alone', () => {
+        const remap = createColorVisionRemap(['#ff0000', '#00ff00'], 'protanopia');
+
+        assert.strictEqual(remap('#6a737d'), '#6a737d');
+        assert.strictEqual(remap('inherit'), 'inherit');
+        assert.ok(remap('#ff000080').endsWith('80'));
+    });
+});
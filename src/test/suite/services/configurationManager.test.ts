@@ -45,6 +45,8 @@ suite('ConfigurationManager Unit Tests', () => {
         assert.ok('showCopyButton' in config);
         assert.ok('copyButtonPosition' in config);
         assert.ok('copyButtonVisibility' in config);
+        assert.ok('languageDetection' in config);
+        assert.ok('languageDetectionThreshold' in config);
     });
 
     test('Should check if highlighting is enabled', () => {
@@ -151,6 +153,11 @@ suite('ConfigurationManager Unit Tests', () => {
         assert.ok(['hover', 'always'].includes(visibility));
     });
 
+    test('Should get language aliases and default language', () => {
+        assert.deepStrictEqual(configManager.getLanguageAliases(), {});
+        assert.strictEqual(configManager.getDefaultLanguage(), '');
+    });
+
     test('Should get specific configuration value', () => {
         const enableCache = configManager.get<boolean>('enableCache');
         assert.strictEqual(typeof enableCache, 'boolean');
@@ -245,6 +252,8 @@ suite('ConfigurationManager Unit Tests', () => {
         assert.strictEqual(config.showCopyButton, true);
         assert.strictEqual(config.copyButtonPosition, 'top-right');
         assert.strictEqual(config.copyButtonVisibility, 'hover');
+        assert.strictEqual(config.languageDetection, true);
+        assert.strictEqual(config.languageDetectionThreshold, 0.6);
     });
 
     test('Should validate number ranges correctly', () => {
@@ -255,6 +264,7 @@ suite('ConfigurationManager Unit Tests', () => {
         const concurrent = configManager.getConcurrentRequests();
         const borderWidth = configManager.getBorderWidth();
         const borderRadius = configManager.getBorderRadius();
+        const detectionThreshold = configManager.getLanguageDetectionThreshold();
 
         // All should be within their valid ranges
         assert.ok(lazyLoad >= 1 && lazyLoad <= 10);
@@ -263,5 +273,6 @@ suite('ConfigurationManager Unit Tests', () => {
         assert.ok(concurrent >= 1 && concurrent <= 20);
         assert.ok(borderWidth >= 1 && borderWidth <= 4);
         assert.ok(borderRadius >= 0 && borderRadius <= 12);
+        assert.ok(detectionThreshold >= 0 && detectionThreshold <= 1);
     });
 });
@@ -0,0 +1,85 @@
+import * as assert from 'assert';
+import { Token } from '../../../services/tokenizationService';
+import {
+    getConsoleCommands,
+    getConsoleShell,
+    isConsoleLanguage,
+    mapConsoleCommandTokens,
+    parseConsoleLines
+} from '../../../services/consoleMode';
+
+suite('ConsoleMode Unit Tests', () => {
+    test('Should recognize console languages', () => {
+        assert.ok(isConsoleLanguage('console'));
+        assert.ok(isConsoleLanguage('Shell-Session'));
+        assert.ok(isConsoleLanguage('pwsh-session'));
+        assert.ok(!isConsoleLanguage('shellscript'));
+    });
+
+    test('Should not take Object.prototype members for console languages', () => {
+        const lines = parseConsoleLines('$ ls\nout');
+        for (const language of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+            assert.ok(!isConsoleLanguage(language), language);
+            assert.strictEqual(getConsoleShell(language, '$ ls\nout', lines), 'shellscript', language);
+        }
+    });
+
+    test('Should detect prompts and keep the rest as output', () => {
+        const code = [
+            '$ ls -la',
+            'total 0',
+            '# apt install git',
+            'user@host:~/src$ make',
+            '(venv) $ pip install x',
+            '> node',
+            'PS C:\\Users\\me> Get-ChildItem',
+            '$HOME is not a prompt'
+        ].join('\n');
+        const lines = parseConsoleLines(code);
+
+        assert.deepStrictEqual(
+            lines.map(line => [line.kind, code.substring(line.commandStart, line.end)]),
+            [
+                ['command', 'ls -la'],
+                ['output', ''],
+                ['command', 'apt install git'],
+                ['command', 'make'],
+                ['command', 'pip install x'],
+                ['command', 'node'],
+                ['command', 'Get-ChildItem'],
+                ['output', '']
+            ]
+        );
+    });
+
+    test('Should continue commands ending in a backslash', () => {
+        const code = '$ docker run \\\n  --rm image\noutput';
+        const lines = parseConsoleLines(code);
+
+        assert.deepStrictEqual(lines.map(line => line.kind), ['command', 'command', 'output']);
+        assert.strictEqual(getConsoleCommands(code, lines), 'docker run \\\n  --rm image');
+    });
+
+    test('Should take the shell from the language or the prompts', () => {
+        const posix = '$ ls';
+        const powershell = 'PS> dir';
+
+        assert.strictEqual(getConsoleShell('console', posix, parseConsoleLines(posix)), 'shellscript');
+        assert.strictEqual(getConsoleShell('console', powershell, parseConsoleLines(powershell)), 'powershell');
+        assert.strictEqual(getConsoleShell('pwsh-session', posix, parseConsoleLines(posix)), 'powershell');
+    });
+
+    test('Should map command tokens back to block offsets', () => {
+        const code = '$ echo a\na\n$ echo b';
+        const lines = parseConsoleLines(code);
+        const tokens: Token[] = [
+            { text: 'echo', scopes: ['support.function'], startIndex: 0, endIndex: 4 },
+            { text: 'echo', scopes: ['support.function'], startIndex: 7, endIndex: 11 }
+        ];
+
+        assert.deepStrictEqual(
+            mapConsoleCommandTokens(code, lines, tokens).map(token => [token.text, token.startIndex]),
+            [['echo', 2], ['echo', 13]]
+        );
+    });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { CONTRAST_LEVELS, enforceContrast, ensureContrast, getContrastRatio } from '../../../services/contrast';
+
+suite('Contrast Unit Tests', () => {
+    test('Should compute WCAG contrast ratios', () => {
+        assert.strictEqual(Math.round(getContrastRatio('#000000', '#ffffff')), 21);
+        assert.strictEqual(getContrastRatio('#777777', '#777777'), 1);
+        assert.strictEqual(getContrastRatio('#fff', '#000').toFixed(1), '21.0');
+    });
+
+    test('Should blend colors with alpha over the background', () => {
+        assert.strictEqual(getContrastRatio('#00000000', '#ffffff'), 1);
+    });
+
+    test('Should leave colors that reach the ratio unchanged', () => {
+        assert.strictEqual(ensureContrast('#008000', '#ffffff', CONTRAST_LEVELS.AA), '#008000');
+        assert.strictEqual(ensureContrast('not-a-color', '#ffffff', CONTRAST_LEVELS.AA), 'not-a-color');
+    });
+
+    test('Should darken colors on light backgrounds and lighten them on dark ones', () => {
+        const darkened = ensureContrast('#aaaaff', '#ffffff', CONTRAST_LEVELS.AA);
+        assert.ok(getContrastRatio(darkened, '#ffffff') >= CONTRAST_LEVELS.AA);
+        assert.ok(getContrastRatio(darkened, '#ffffff') < CONTRAST_LEVELS.AA + 0.2, 'Changed more than needed');
+
+        const lightened = ensureContrast('#333366', '#1e1e1e', CONTRAST_LEVELS.AAA);
+        assert.ok(getContrastRatio(lightened, '#1e1e1e') >= CONTRAST_LEVELS.AAA);
+    });
+
+    test('Should keep the hue of adjusted colors', () => {
+        const adjusted = ensureContrast('#ff8080', '#ffffff', CONTRAST_LEVELS.AA);
+        const [r, g, b] = [1, 3, 5].map(index => parseInt(adjusted.substring(index, index + 2), 16));
+        assert.ok(r > g && g === b, `${adjusted} is no longer red`);
+    });
+
+    test('Should report the keys whose colors were adjusted', () => {
+        const result = enforceContrast({ comment: '#dddddd', keyword: '#0000ff' }, '#ffffff', CONTRAST_LEVELS.AA);
+
+        assert.deepStrictEqual(result.adjusted, ['comment']);
+        assert.strictEqual(result.colors.keyword, '#0000ff');
+        assert.ok(getContrastRatio(result.colors.comment, '#ffffff') >= CONTRAST_LEVELS.AA);
+    });
+});
@@ -0,0 +1,53 @@
+import * as assert from 'assert';
+import { Token } from '../../../services/tokenizationService';
+import {
+    getDiffCode,
+    mapDiffCodeTokens,
+    parseDiffLanguage,
+    parseDiffLines
+} from '../../../services/diffMode';
+
+suite('DiffMode Unit Tests', () => {
+    test('Should recognize diff fences and their code language', () => {
+        assert.deepStrictEqual(parseDiffLanguage('diff'), {});
+        assert.deepStrictEqual(parseDiffLanguage('Patch'), {});
+        assert.deepStrictEqual(parseDiffLanguage('diff-typescript'), { codeLanguage: 'typescript' });
+        assert.strictEqual(parseDiffLanguage('typescript'), null);
+    });
+
+    test('Should classify header, hunk, added, removed and context lines', () => {
+        const code = [
+            'diff --git a/x.ts b/x.ts',
+            '--- a/x.ts',
+            '+++ b/x.ts',
+            '@@ -1,2 +1,2 @@',
+            ' keep',
+            '-old',
+            '+new',
+            '--- removed line that looks like a header'
+        ].join('\n');
+
+        assert.deepStrictEqual(
+            parseDiffLines(code).map(line => line.kind),
+            ['header', 'header', 'header', 'hunk', 'context', 'removed', 'added', 'removed']
+        );
+    });
+
+    test('Should strip markers from the code of a diff', () => {
+        const code = '@@ -1 +1 @@\n let a;\n-a = 1;\n+a = 2;\nplain';
+        assert.strictEqual(getDiffCode(code, parseDiffLines(code)), 'let a;\na = 1;\na = 2;\nplain');
+    });
+
+    test('Should map code tokens back to block offsets, splitting at line ends', () => {
+        const code = '-/* a\n+b */';
+        const lines = parseDiffLines(code);
+        const comment: Token = { text: '/* a\nb */', scopes: ['comment'], startIndex: 0, endIndex: 9 };
+
+        const mapped = mapDiffCodeTokens(code, lines, [comment]);
+
+        assert.deepStrictEqual(
+            mapped.map(token => [token.text, token.startIndex, token.endIndex]),
+            [['/* a', 1, 5], ['b */', 7, 11]]
+        );
+    });
+});
@@ -0,0 +1,93 @@
+import * as assert from 'assert';
+import { Token } from '../../../services/tokenizationService';
+import {
+    findEmbeddedRegions,
+    maskEmbeddedRegions,
+    mergeEmbeddedTokens
+} from '../../../services/embeddedLanguages';
+
+suite('EmbeddedLanguages Unit Tests', () => {
+    test('Should find script and style elements in HTML', () => {
+        const code = '<p>x</p>\n<script>let a = 1;</script>\n<style lang="scss">$c: red;</style>';
+        const layout = findEmbeddedRegions(code, 'html');
+
+        assert.ok(layout);
+        assert.strictEqual(layout.hostLanguage, 'html');
+        assert.deepStrictEqual(
+            layout.regions.map(region => [region.language, code.substring(region.start, region.end)]),
+            [['javascript', 'let a = 1;'], ['scss', '$c: red;']]
+        );
+    });
+
+    test('Should read the script language of single-file components', () => {
+        const code = '<template><div/></template>\n<script lang="ts">\nconst n: number = 1;\n</script>';
+        const layout = findEmbeddedRegions(code, 'vue');
+
+        assert.ok(layout);
+        assert.strictEqual(layout.regions.length, 1);
+        assert.strictEqual(layout.regions[0].language, 'typescript');
+    });
+
+    test('Should skip script elements that do not hold code', () => {
+        const code = '<script type="text/x-template"><div></div></script>';
+        assert.strictEqual(findEmbeddedRegions(code, 'svelte'), null);
+    });
+
+    test('Should find fenced code blocks nested in Markdown', () => {
+        const code = '# Title\n```python\nprint(1)\n```\ntext\n~~~\nplain\n~~~';
+        const layout = findEmbeddedRegions(code, 'markdown');
+
+        assert.ok(layout);
+        assert.strictEqual(layout.regions.length, 1);
+        assert.strictEqual(layout.regions[0].language, 'python');
+        assert.strictEqual(code.substring(layout.regions[0].start, layout.regions[0].end), 'print(1)');
+    });
+
+    test('Should split template tags into delimiters and bodies', () => {
+        const code = '<p><%= user.name %></p><%# note %>';
+        const layout = findEmbeddedRegions(code, 'erb');
+
+        assert.ok(layout);
+        assert.deepStrictEqual(
+            layout.regions.map(region => [region.language || region.scope, code.substring(region.start, region.end)]),
+            [
+                ['punctuation.section.embedded', '<%='],
+                ['ruby', ' user.name '],
+                ['punctuation.section.embedded', '%>'],
+                ['comment.block', '<%# note %>']
+            ]
+        );
+    });
+
+    test('Should treat Handlebars and Jinja comments as comments', () => {
+        const handlebars = findEmbeddedRegions('{{!-- hidden --}}{{#if ok}}', 'handlebars');
+        const jinja = findEmbeddedRegions('{# hidden #}{% if ok %}', 'jinja2');
+
+        assert.ok(handlebars && jinja);
+        assert.strictEqual(handlebars.regions[0].scope, 'comment.block');
+        assert.strictEqual(handlebars.regions[2].language, 'handlebars');
+        assert.strictEqual(jinja.regions[0].scope, 'comment.block');
+        assert.strictEqual(jinja.regions[2].language, 'jinja');
+    });
+
+    test('Should not treat Object.prototype names as template languages', () => {
+        for (const language of ['constructor', '__proto__', 'toString']) {
+            assert.strictEqual(findEmbeddedRegions('{{ x }}', language), null, language);
+        }
+    });
+
+    test('Should mask regions and merge tokens back into block offsets', () => {
+        const code = 'a<x>b\nc';
+        const region = { start: 1, end: 4, language: 'demo' };
+        const host: Token = { text: '', scopes: ['text'], startIndex: 0, endIndex: code.length };
+        const inner: Token = { text: '<x>', scopes: ['keyword'], startIndex: 0, endIndex: 3 };
+
+        assert.strictEqual(maskEmbeddedRegions(code, [region]), 'a   b\nc');
+
+        const merged = mergeEmbeddedTokens(code, [host], [{ region, tokens: [inner] }]);
+        assert.deepStrictEqual(
+            merged.map(token => [token.text, token.startIndex, token.scopes[0]]),
+            [['a', 0, 'text'], ['<x>', 1, 'keyword'], ['b\nc', 4, 'text']]
+        );
+    });
+});
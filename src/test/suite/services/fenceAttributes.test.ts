@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import { ExtensionConfig } from '../../../services/configurationManager';
+import {
+    FENCE_ATTRIBUTES_ATTRIBUTE,
+    applyFenceAttributes,
+    fenceAttributesPlugin,
+    getFenceAttributeText,
+    parseFenceAttributes
+} from '../../../services/fenceAttributes';
+
+suite('FenceAttributes Unit Tests', () => {
+    test('Should take the attributes after the language of an info string', () => {
+        assert.strictEqual(getFenceAttributeText('bash theme=Dracula copy=false'), 'theme=Dracula copy=false');
+        assert.strictEqual(getFenceAttributeText('typescript'), '');
+        assert.strictEqual(getFenceAttributeText(''), '');
+    });
+
+    test('Should parse theme, border and copy attributes', () => {
+        assert.deepStrictEqual(
+            parseFenceAttributes('theme="GitHub Light" border=false copy=true'),
+            { theme: 'GitHub Light', border: false, copy: true }
+        );
+        assert.deepStrictEqual(parseFenceAttributes('{theme=Dracula}'), { theme: 'Dracula' });
+        assert.deepStrictEqual(parseFenceAttributes("theme='One Dark'"), { theme: 'One Dark' });
+    });
+
+    test('Should ignore unknown keys and invalid switch values', () => {
+        assert.deepStrictEqual(parseFenceAttributes('title=main.ts border=no copy theme='), {});
+    });
+
+    test('Should apply attributes on top of the extension configuration', () => {
+        const config = { showBorder: true, showCopyButton: true, previewTheme: '', fontSize: 14 } as ExtensionConfig;
+        const blockConfig = applyFenceAttributes(config, { theme: 'Dracula', border: false });
+
+        assert.strictEqual(blockConfig.previewTheme, 'Dracula');
+        assert.strictEqual(blockConfig.showBorder, false);
+        assert.strictEqual(blockConfig.showCopyButton, true);
+        assert.strictEqual(blockConfig.fontSize, 14);
+        assert.strictEqual(config.showBorder, true);
+    });
+
+    test('Should keep fence attributes on fence tokens', () => {
+        const tokens = [
+            { type: 'fence', info: 'bash copy=false', attrs: {} as { [name: string]: string } },
+            { type: 'fence', info: 'ts', attrs: {} as { [name: string]: string } },
+            { type: 'paragraph_open', info: 'copy=false', attrs: {} as { [name: string]: string } }
+        ].map(token => ({ ...token, attrSet(name: string, value: string) { token.attrs[name] = value; } }));
+
+        let rule: ((state: { tokens: typeof tokens }) => void) | undefined;
+        fenceAttributesPlugin({ core: { ruler: { push: (_name, pushed) => { rule = pushed; } } } });
+        rule!({ tokens });
+
+        assert.deepStrictEqual(tokens[0].attrs, { [FENCE_ATTRIBUTES_ATTRIBUTE]: 'copy=false' });
+        assert.deepStrictEqual(tokens[1].attrs, {});
+        assert.deepStrictEqual(tokens[2].attrs, {});
+    });
+});
@@ -0,0 +1,42 @@
+import * as assert from 'assert';
+import { GrammarRegistry } from '../../../services/grammarRegistry';
+
+suite('GrammarRegistry Unit Tests', () => {
+    let grammarRegistry: GrammarRegistry;
+
+    setup(() => {
+        grammarRegistry = new GrammarRegistry();
+    });
+
+    teardown(() => {
+        grammarRegistry.dispose();
+    });
+
+    test('Should resolve language ids directly', () => {
+        assert.strictEqual(grammarRegistry.resolveLanguage('javascript'), 'javascript');
+        assert.strictEqual(grammarRegistry.resolveLanguage('Python'), 'python');
+    });
+
+    test('Should resolve file extensions to language ids', () => {
+        assert.strictEqual(grammarRegistry.resolveLanguage('ts'), 'typescript');
+        assert.strictEqual(grammarRegistry.resolveLanguage('.py'), 'python');
+    });
+
+    test('Should resolve filenames to language ids', () => {
+        assert.strictEqual(grammarRegistry.resolveLanguage('Dockerfile'), 'dockerfile');
+    });
+
+    test('Should return undefined for unknown fence ids', () => {
+        assert.strictEqual(grammarRegistry.resolveLanguage('not-a-language'), undefined);
+        assert.strictEqual(grammarRegistry.resolveLanguage(''), undefined);
+    });
+
+    test('Should locate grammars of built-in languages', () => {
+        const grammar = grammarRegistry.getGrammarForLanguage('typescript');
+
+        assert.ok(grammar);
+        assert.strictEqual(grammar.scopeName, 'source.ts');
+        assert.strictEqual(grammarRegistry.getScopeName('typescript'), 'source.ts');
+        assert.strictEqual(grammarRegistry.getGrammarForScope('source.ts')?.language, 'typescript');
+    });
+});
@@ -0,0 +1,55 @@
+import * as assert from 'assert';
+import {
+    getLanguageDefinition,
+    hasLanguageDefinition,
+    buildWordPattern,
+    buildStringPattern,
+    GENERIC_DEFINITION
+} from '../../../services/languageDefinitions';
+
+suite('LanguageDefinitions Unit Tests', () => {
+    test('Should provide definitions for common fence languages', () => {
+        const languages = [
+            'javascript', 'typescript', 'python', 'java', 'c', 'cpp', 'csharp', 'go', 'rust',
+            'ruby', 'php', 'swift', 'kotlin', 'shellscript', 'powershell', 'sql', 'yaml',
+            'json', 'css', 'html'
+        ];
+
+        for (const language of languages) {
+            assert.ok(hasLanguageDefinition(language), `Missing definition for ${language}`);
+        }
+    });
+
+    test('Should fall back to the generic definition for unknown languages', () => {
+        assert.strictEqual(getLanguageDefinition('unknown-language'), GENERIC_DEFINITION);
+        assert.strictEqual(hasLanguageDefinition('unknown-language'), false);
+    });
+
+    test('Should not treat Object.prototype names as languages', () => {
+        for (const language of ['constructor', '__proto__', 'toString', 'hasOwnProperty']) {
+            assert.strictEqual(hasLanguageDefinition(language), false, language);
+            assert.strictEqual(getLanguageDefinition(language), GENERIC_DEFINITION, language);
+        }
+    });
+
+    test('Should use language-specific comment syntax', () => {
+        assert.deepStrictEqual(getLanguageDefinition('python').lineComments, ['#']);
+        assert.deepStrictEqual(getLanguageDefinition('javascript').lineComments, ['//']);
+        assert.deepStrictEqual(getLanguageDefinition('sql').lineComments, ['--']);
+    });
+
+    test('Should build whole-word keyword patterns', () => {
+        const pattern = new RegExp(buildWordPattern(['if', 'in']), 'g');
+
+        assert.deepStrictEqual('if x in items'.match(pattern), ['if', 'in']);
+        assert.strictEqual('index'.match(pattern), null);
+    });
+
+    test('Should build string patterns for each escape style', () => {
+        const backslash = new RegExp(buildStringPattern('"', 'backslash'));
+        const doubled = new RegExp(buildStringPattern("'", 'doubled'));
+
+        assert.strictEqual('"a \\" b" rest'.match(backslash)?.[0], '"a \\" b"');
+        assert.strictEqual("'it''s' rest".match(doubled)?.[0], "'it''s'");
+    });
+});
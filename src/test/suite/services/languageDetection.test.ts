@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { detectLanguage, scoreLanguages } from '../../../services/languageDetection';
+
+suite('LanguageDetection Unit Tests', () => {
+    test('Should take the interpreter of a shebang as certain', () => {
+        assert.deepStrictEqual(detectLanguage('#!/usr/bin/env python3\nprint(1)'), { language: 'python', confidence: 1 });
+        assert.deepStrictEqual(detectLanguage('#!/bin/bash\nls'), { language: 'bash', confidence: 1 });
+        assert.deepStrictEqual(detectLanguage('#!/usr/bin/env node\nx'), { language: 'javascript', confidence: 1 });
+    });
+
+    test('Should take JSON that parses as certain', () => {
+        assert.deepStrictEqual(detectLanguage('{"a": [1, 2]}'), { language: 'json', confidence: 1 });
+        assert.deepStrictEqual(detectLanguage('  [1, 2, 3]\n'), { language: 'json', confidence: 1 });
+        assert.strictEqual(detectLanguage('{ not json }'), null);
+    });
+
+    test('Should score the weights of the features found', () => {
+        const scores = scoreLanguages('def f(x):\n    return x');
+        assert.strictEqual(scores.python, 3);
+        assert.ok(Object.keys(scores).every(language => language === 'python' || scores[language] === 0));
+    });
+
+    test('Should add the parent score to children with evidence of their own', () => {
+        const typescript = scoreLanguages('interface Foo {\n  name: string;\n}\nconst x = 1;');
+        assert.strictEqual(typescript.javascript, 1);
+        assert.strictEqual(typescript.typescript, 7);
+
+        const javascript = scoreLanguages('const x = 1;');
+        assert.strictEqual(javascript.javascript, 1);
+        assert.strictEqual(javascript.typescript, 0);
+    });
+
+    test('Should lower the confidence when a rival scores close to the winner', () => {
+        const clear = detectLanguage('def f(x):\n    return x');
+        assert.deepStrictEqual(clear, { language: 'python', confidence: 0.75 });
+
+        // Java 3 against C# 2
+        const close = detectLanguage('public class A extends B {}');
+        assert.deepStrictEqual(close, { language: 'java', confidence: 0.45 });
+    });
+
+    test('Should not count the parent as a rival of its child', () => {
+        const guess = detectLanguage('interface Foo {\n  name: string;\n}\nconst x = 1;');
+        assert.strictEqual(guess?.language, 'typescript');
+        assert.ok(guess!.confidence > 0.85);
+    });
+
+    test('Should return null below the threshold', () => {
+        assert.deepStrictEqual(detectLanguage('x => x'), { language: 'javascript', confidence: 0.25 });
+        assert.strictEqual(detectLanguage('x => x', 0.6), null);
+        assert.deepStrictEqual(detectLanguage('x => x', 0.25), { language: 'javascript', confidence: 0.25 });
+        assert.strictEqual(detectLanguage('public class A extends B {}', 0.6), null);
+    });
+
+    test('Should return null without any evidence', () => {
+        assert.strictEqual(detectLanguage('hello world'), null);
+    });
+});
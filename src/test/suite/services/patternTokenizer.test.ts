@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { PatternTokenizer } from '../../../services/patternTokenizer';
+import { Token } from '../../../services/tokenizationService';
+
+suite('PatternTokenizer Unit Tests', () => {
+    let tokenizer: PatternTokenizer;
+
+    setup(() => {
+        tokenizer = new PatternTokenizer();
+    });
+
+    function typeOf(tokens: Token[], text: string): string | undefined {
+        return tokens.find(t => t.text.includes(text))?.scopes[0];
+    }
+
+    test('Should cover the input with contiguous tokens', () => {
+        const code = 'const a = `x\ny`;\n/* b\nc */ let d = 1;';
+        const { tokens } = tokenizer.tokenize(code, 'javascript');
+
+        assert.strictEqual(tokens.map(t => t.text).join(''), code);
+        for (const token of tokens) {
+            assert.strictEqual(code.substring(token.startIndex, token.endIndex), token.text);
+        }
+    });
+
+    test('Should track block comments across lines', () => {
+        const { tokens } = tokenizer.tokenize('/* start\nmiddle return\nend */ return', 'javascript');
+
+        assert.strictEqual(typeOf(tokens, 'middle'), 'comment');
+        assert.strictEqual(typeOf(tokens, 'end */'), 'comment');
+        assert.strictEqual(tokens[tokens.length - 1].scopes[0], 'keyword');
+    });
+
+    test('Should track template literals and triple-quoted strings', () => {
+        const js = tokenizer.tokenize('const s = `line one\nif line two`;', 'javascript').tokens;
+        assert.strictEqual(typeOf(js, 'if line two'), 'string');
+
+        const python = tokenizer.tokenize('doc = """first\ndef not_code\n"""\ndef real(): pass', 'python').tokens;
+        assert.strictEqual(typeOf(python, 'def not_code'), 'string');
+        assert.strictEqual(python.find(t => t.text === 'def' && t.startIndex > 30)?.scopes[0], 'keyword');
+    });
+
+    test('Should track shell heredocs until their terminator', () => {
+        const code = 'cat <<EOF\nif then fi\nEOF\nif true; then echo; fi';
+        const { tokens } = tokenizer.tokenize(code, 'shellscript');
+
+        assert.strictEqual(typeOf(tokens, 'if then fi'), 'string');
+        assert.strictEqual(tokens.find(t => t.text === 'EOF')?.scopes[0], 'string');
+        assert.strictEqual(tokens.find(t => t.text === 'if' && t.startIndex > 20)?.scopes[0], 'keyword');
+    });
+
+    test('Should match the hash count of Rust raw strings', () => {
+        const { tokens } = tokenizer.tokenize('let s = r#"a "quoted"\nfn x"#; fn y() {}', 'rust');
+
+        assert.strictEqual(typeOf(tokens, 'fn x'), 'string');
+        assert.strictEqual(tokens.find(t => t.text === 'fn' && t.startIndex > 25)?.scopes[0], 'keyword');
+    });
+
+    test('Should continue from the state of a previous call', () => {
+        const first = tokenizer.tokenize('/* open', 'c');
+        assert.ok(first.state.open);
+
+        const second = tokenizer.tokenize('still comment */ int x;', 'c', first.state);
+        assert.strictEqual(typeOf(second.tokens, 'still'), 'comment');
+        assert.strictEqual(second.state.open, null);
+        assert.strictEqual(typeOf(second.tokens, 'int'), 'type');
+    });
+});
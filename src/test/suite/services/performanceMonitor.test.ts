@@ -257,4 +257,15 @@ suite('PerformanceMonitor Unit Tests', () => {
         // All IDs should be unique
         assert.strictEqual(ids.size, 100);
     });
+
+    test('Should record cancelled work as its own metric', () => {
+        const timerId = monitor.startTimer('tokenization');
+
+        const elapsed = monitor.cancelTimer(timerId);
+
+        assert.ok(elapsed >= 0);
+        assert.strictEqual(monitor.getMetricStats('cancelled')?.count, 1);
+        assert.strictEqual(monitor.getMetricStats('tokenization'), null);
+        assert.strictEqual(monitor.endTimer(timerId), 0);
+    });
 });
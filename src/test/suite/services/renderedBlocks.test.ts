@@ -0,0 +1,103 @@
+import * as assert from 'assert';
+import {
+    PREVIEW_THEME_ATTRIBUTE,
+    RenderedBlock,
+    TOKENS_ATTRIBUTE,
+    blockDataPlugin,
+    createPreviewTheme
+} from '../../../services/renderedBlocks';
+import { ThemeData } from '../../../services/themeManager';
+
+suite('RenderedBlocks Unit Tests', () => {
+    function createTokens() {
+        return [
+            { type: 'fence', info: 'bash theme=Dracula', content: 'ls\n', attrs: {} as { [name: string]: string } },
+            { type: 'paragraph_open', info: '', content: '', attrs: {} as { [name: string]: string } },
+            { type: 'code_block', info: '', content: 'x = 1\n', attrs: {} as { [name: string]: string } },
+            { type: 'fence', info: '', content: 'hello\n', attrs: {} as { [name: string]: string } }
+        ].map(token => ({ ...token, attrSet(name: string, value: string) { token.attrs[name] = value; } }));
+    }
+
+    function render(
+        provider: (block: RenderedBlock) => { [name: string]: string },
+        env?: { currentDocument?: { toString(): string } }
+    ) {
+        const tokens = createTokens();
+        let rule: ((state: { tokens: typeof tokens; env?: typeof env }) => void) | undefined;
+        blockDataPlugin({ core: { ruler: { push: (_name, pushed) => { rule = pushed; } } } }, provider);
+        rule!({ tokens, env });
+        return tokens;
+    }
+
+    test('Should pass fences and indented blocks to the provider', () => {
+        const blocks: RenderedBlock[] = [];
+        render(block => { blocks.push(block); return {}; }, { currentDocument: { toString: () => 'file:///a.md' } });
+
+        assert.deepStrictEqual(blocks, [
+            { id: 'file:///a.md#0', code: 'ls\n', language: 'bash', attributes: 'theme=Dracula' },
+            { id: 'file:///a.md#1', code: 'x = 1\n', language: '', attributes: '' },
+            { id: 'file:///a.md#2', code: 'hello\n', language: '', attributes: '' }
+        ]);
+    });
+
+    test('Should leave the id empty without a document', () => {
+        const ids: string[] = [];
+        render(block => { ids.push(block.id); return {}; });
+
+        assert.deepStrictEqual(ids, ['', '', '']);
+    });
+
+    test('Should set the data of the provider on the block', () => {
+        const tokens = render(block => {
+            const data: { [name: string]: string } = {};
+            if (block.language === 'bash') {
+                data[TOKENS_ATTRIBUTE] = '{"data":[0,2,1]}';
+            }
+            return data;
+        });
+
+        assert.deepStrictEqual(tokens[0].attrs, { [TOKENS_ATTRIBUTE]: '{"data":[0,2,1]}' });
+        assert.deepStrictEqual(tokens[2].attrs, {});
+        assert.deepStrictEqual(tokens[3].attrs, {});
+    });
+
+    test('Should render the colors of the preview theme the preview script reads', () => {
+        const themeData: ThemeData = {
+            kind: 'dark',
+            colors: { keyword: '#ff79c6', comment: '#6272a4' },
+            fontStyles: { comment: 'italic' },
+            semanticTokenColors: { 'variable.readonly': '#bd93f9' },
+            background: '#282a36',
+            foreground: '#f8f8f2',
+            borderColor: '#44475a',
+            borderColorSubtle: '#343746',
+            buttonBackground: '#44475a',
+            buttonForeground: '#f8f8f2',
+            buttonHoverBackground: '#6272a4',
+            accentColor: '#bd93f9',
+            diffColors: { insertedLineBackground: '#50fa7b26', removedLineBackground: '#ff555526', hunkLineBackground: '#8be9fd1a' },
+            ansiColors: { red: '#ff5555', brightRed: '#ff6e6e' } as ThemeData['ansiColors'],
+            tokenColors: [{ scope: ['comment'], settings: { foreground: '#6272a4' } }],
+            adjustedTokenTypes: ['comment']
+        };
+
+        const tokens = render(() => ({ [PREVIEW_THEME_ATTRIBUTE]: JSON.stringify(createPreviewTheme(themeData)) }));
+        const rendered = JSON.parse(tokens[0].attrs[PREVIEW_THEME_ATTRIBUTE]);
+
+        assert.deepStrictEqual(rendered, {
+            kind: 'dark',
+            colors: { keyword: '#ff79c6', comment: '#6272a4' },
+            background: '#282a36',
+            foreground: '#f8f8f2',
+            borderColor: '#44475a',
+            borderColorSubtle: '#343746',
+            buttonBackground: '#44475a',
+            buttonForeground: '#f8f8f2',
+            buttonHoverBackground: '#6272a4',
+            accentColor: '#bd93f9',
+            diffColors: { insertedLineBackground: '#50fa7b26', removedLineBackground: '#ff555526', hunkLineBackground: '#8be9fd1a' },
+            ansiColors: { red: '#ff5555', brightRed: '#ff6e6e' }
+        });
+        assert.strictEqual(tokens[2].attrs[PREVIEW_THEME_ATTRIBUTE], tokens[0].attrs[PREVIEW_THEME_ATTRIBUTE]);
+    });
+});
@@ -0,0 +1,68 @@
+import * as assert from 'assert';
+import { ScopeStyleResolver, TokenColorRule, normalizeThemeColor } from '../../../services/scopeSelectors';
+
+suite('ScopeSelectors Unit Tests', () => {
+    test('Should pick the rule for the longest prefix of a scope, later rules winning ties', () => {
+        const resolver = new ScopeStyleResolver([
+            { scope: 'keyword', settings: { foreground: '#111111' } },
+            { scope: 'keyword.control', settings: { foreground: '#222222' } },
+            { scope: 'keyword', settings: { foreground: '#333333' } },
+            { scope: 'keyword.controlled', settings: { foreground: '#444444' } }
+        ]);
+
+        assert.strictEqual(resolver.resolve(['keyword.control.if']).foreground, '#222222');
+        assert.strictEqual(resolver.resolve(['keyword.operator']).foreground, '#333333');
+        assert.strictEqual(resolver.resolve(['string']).foreground, undefined);
+    });
+
+    test('Should prefer selectors with matching parent scopes', () => {
+        const rules: TokenColorRule[] = [
+            { scope: 'entity.name.function', settings: { foreground: '#111111' } },
+            { scope: 'meta.function-call entity.name.function', settings: { foreground: '#222222' } },
+            { scope: 'source.ts meta.function-call entity.name.function', settings: { foreground: '#333333' } }
+        ];
+        const resolver = new ScopeStyleResolver(rules);
+
+        assert.strictEqual(resolver.resolve(['source.js', 'entity.name.function.js']).foreground, '#111111');
+        assert.strictEqual(resolver.resolve(['source.js', 'meta.function-call.js', 'entity.name.function.js']).foreground, '#222222');
+        assert.strictEqual(
+            resolver.resolve(['source.ts', 'meta.block.ts', 'meta.function-call.ts', 'entity.name.function.ts']).foreground,
+            '#333333'
+        );
+    });
+
+    test('Should only match direct parents after a child combinator', () => {
+        const resolver = new ScopeStyleResolver([
+            { scope: 'meta.tag > string', settings: { foreground: '#222222' } }
+        ]);
+
+        assert.strictEqual(resolver.resolve(['meta.tag', 'string.quoted']).foreground, '#222222');
+        assert.strictEqual(resolver.resolve(['meta.tag', 'meta.attribute', 'string.quoted']).foreground, undefined);
+    });
+
+    test('Should resolve foreground and font style separately along the scope stack', () => {
+        const resolver = new ScopeStyleResolver([
+            { scope: 'comment', settings: { foreground: '#6a9955', fontStyle: 'italic' } },
+            { scope: 'comment.block.documentation', settings: { fontStyle: 'bold underline' } },
+            { scope: 'markup.bold, markup.italic', settings: { fontStyle: 'bold' } },
+            { scope: 'storage.type.class.jsdoc', settings: { fontStyle: '' } }
+        ]);
+
+        assert.deepStrictEqual(resolver.resolve(['comment.block.documentation']), {
+            foreground: '#6a9955',
+            fontStyle: 'bold underline'
+        });
+        assert.deepStrictEqual(resolver.resolve(['comment.block.documentation', 'storage.type.class.jsdoc']), {
+            foreground: '#6a9955',
+            fontStyle: ''
+        });
+        assert.deepStrictEqual(resolver.resolve(['markup.italic.markdown']), { fontStyle: 'bold' });
+    });
+
+    test('Should normalize theme colors', () => {
+        assert.strictEqual(normalizeThemeColor('#ABC'), '#aabbcc');
+        assert.strictEqual(normalizeThemeColor('#11223344'), '#11223344');
+        assert.strictEqual(normalizeThemeColor('red'), undefined);
+        assert.strictEqual(normalizeThemeColor(undefined), undefined);
+    });
+});
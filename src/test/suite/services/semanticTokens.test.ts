@@ -0,0 +1,168 @@
+import * as assert from 'assert';
+import { Token } from '../../../services/tokenizationService';
+import {
+    computeLineOffsets,
+    decodeSemanticTokens,
+    decodeTokenModifiers,
+    getSemanticTokenScopes,
+    overlaySemanticTokens,
+    parseSemanticTokens,
+    resolveSemanticTokenColor,
+    scoreSemanticSelector,
+    SemanticTokensLegendData
+} from '../../../services/semanticTokens';
+
+suite('SemanticTokens Unit Tests', () => {
+    const legend: SemanticTokensLegendData = {
+        tokenTypes: ['class', 'variable', 'function'],
+        tokenModifiers: ['declaration', 'readonly', 'deprecated', 'defaultLibrary']
+    };
+
+    test('Should decode modifier bit sets with the legend', () => {
+        assert.deepStrictEqual(decodeTokenModifiers(0, legend), []);
+        assert.deepStrictEqual(decodeTokenModifiers(0b0011, legend), ['declaration', 'readonly']);
+        assert.deepStrictEqual(decodeTokenModifiers(0b1100, legend), ['deprecated', 'defaultLibrary']);
+    });
+
+    test('Should ignore modifier bits outside the legend', () => {
+        assert.deepStrictEqual(decodeTokenModifiers(0b10010, legend), ['readonly']);
+    });
+
+    test('Should build scopes from type and modifiers', () => {
+        assert.deepStrictEqual(
+            getSemanticTokenScopes('variable', ['readonly', 'declaration']),
+            ['variable', 'variable.readonly', 'variable.declaration']
+        );
+    });
+
+    test('Should only match selectors whose type and modifiers apply', () => {
+        assert.ok(scoreSemanticSelector('variable', 'variable', []) >= 0);
+        assert.ok(scoreSemanticSelector('*.readonly', 'property', ['readonly']) >= 0);
+        assert.strictEqual(scoreSemanticSelector('variable.readonly', 'variable', []), -1);
+        assert.strictEqual(scoreSemanticSelector('function', 'variable', []), -1);
+        assert.strictEqual(scoreSemanticSelector('variable:python', 'variable', [], 'typescript'), -1);
+    });
+
+    test('Should prefer the most specific selector', () => {
+        const colors = {
+            '*.readonly': '#111111',
+            'variable': '#222222',
+            'variable.readonly': '#333333',
+            'variable.readonly:typescript': '#444444'
+        };
+
+        assert.strictEqual(resolveSemanticTokenColor(colors, 'variable', []), '#222222');
+        assert.strictEqual(resolveSemanticTokenColor(colors, 'property', ['readonly']), '#111111');
+        assert.strictEqual(resolveSemanticTokenColor(colors, 'variable', ['readonly'], 'javascript'), '#333333');
+        assert.strictEqual(resolveSemanticTokenColor(colors, 'variable', ['readonly'], 'typescript'), '#444444');
+        assert.strictEqual(resolveSemanticTokenColor(colors, 'function', []), undefined);
+    });
+
+    test('Should compute line offsets', () => {
+        assert.deepStrictEqual(computeLineOffsets('ab\n\ncd'), [0, 3, 4]);
+        assert.deepStrictEqual(computeLineOffsets(''), [0]);
+    });
+
+    test('Should decode relative token data to absolute positions', () => {
+        const text = 'class A {}\nlet x = A;';
+        const data = [
+            0, 6, 1, 0, 0b0001, // A (class, declaration)
+            1, 4, 1, 1, 0b0011, // x (variable, declaration readonly)
+            0, 4, 1, 0, 0       // A (class)
+        ];
+
+        const tokens = decodeSemanticTokens(text, data, legend);
+
+        assert.deepStrictEqual(tokens.map(t => text.substr(t.startIndex, t.length)), ['A', 'x', 'A']);
+        assert.deepStrictEqual(tokens.map(t => t.type), ['class', 'variable', 'class']);
+        assert.deepStrictEqual(tokens[1].modifiers, ['declaration', 'readonly']);
+    });
+
+    test('Should stop at tokens beyond the end of the text', () => {
+        const tokens = decodeSemanticTokens('a', [0, 0, 1, 1, 0, 3, 0, 1, 1, 0], legend);
+        assert.strictEqual(tokens.length, 1);
+    });
+
+    test('Should style parsed tokens and strike through deprecated ones', () => {
+        const text = 'old(); current();';
+        const tokens = parseSemanticTokens(text, [0, 0, 3, 2, 0b0100, 0, 7, 7, 2, 0], legend, type => ({
+            color: type === 'function' ? '#dcdcaa' : '#d4d4d4',
+            fontStyle: 'italic'
+        }));
+
+        assert.deepStrictEqual(tokens.map(t => t.text), ['old', 'current']);
+        assert.deepStrictEqual(tokens.map(t => t.scopes), [['function', 'function.deprecated'], ['function']]);
+        assert.strictEqual(tokens[0].color, '#dcdcaa');
+        assert.strictEqual(tokens[0].fontStyle, 'italic strikethrough');
+        assert.strictEqual(tokens[1].fontStyle, 'italic');
+    });
+
+    test('Should leave the font style out of tokens without one', () => {
+        const tokens = parseSemanticTokens('x', [0, 0, 1, 1, 0], legend, () => ({ color: '#9cdcfe', fontStyle: '' }));
+        assert.strictEqual(tokens[0].fontStyle, undefined);
+    });
+
+    test('Should layer semantic tokens over grammar tokens', () => {
+        // `const value = other;` tokenized by a grammar, with semantic tokens for both variables
+        const base: Token[] = [
+            { text: 'const', scopes: ['source.ts', 'storage.type'], startIndex: 0, endIndex: 5, color: '#569cd6' },
+            { text: ' value = other;', scopes: ['source.ts'], startIndex: 5, endIndex: 20, color: '#d4d4d4', fontStyle: 'italic' }
+        ];
+        const semantic: Token[] = [
+            { text: 'value', scopes: ['variable', 'variable.readonly'], startIndex: 6, endIndex: 11, color: '#4fc1ff' },
+            { text: 'other', scopes: ['variable'], startIndex: 14, endIndex: 19, color: '#9cdcfe', fontStyle: 'bold' }
+        ];
+
+        const tokens = overlaySemanticTokens(base, semantic);
+
+        assert.deepStrictEqual(tokens.map(t => t.text), ['const', ' ', 'value', ' = ', 'other', ';']);
+        assert.deepStrictEqual(tokens.map(t => t.startIndex), [0, 5, 6, 11, 14, 19]);
+        assert.deepStrictEqual(tokens[2].scopes, ['source.ts', 'variable', 'variable.readonly']);
+        assert.strictEqual(tokens[2].color, '#4fc1ff');
+        assert.strictEqual(tokens[2].fontStyle, 'italic');
+        assert.strictEqual(tokens[3].color, '#d4d4d4');
+        assert.strictEqual(tokens[4].fontStyle, 'bold');
+        assert.strictEqual(base[1].text, ' value = other;');
+    });
+
+    test('Should layer a semantic token spanning several grammar tokens', () => {
+        const base: Token[] = [
+            { text: 'a', scopes: ['x'], startIndex: 0, endIndex: 1, color: '#111111' },
+            { text: '.', scopes: ['y'], startIndex: 1, endIndex: 2, color: '#222222' },
+            { text: 'b', scopes: ['z'], startIndex: 2, endIndex: 3, color: '#333333' }
+        ];
+        const semantic: Token[] = [{ text: 'a.b', scopes: ['namespace'], startIndex: 0, endIndex: 3, color: '#4ec9b0' }];
+
+        const tokens = overlaySemanticTokens(base, semantic);
+
+        assert.deepStrictEqual(tokens.map(t => t.text), ['a', '.', 'b']);
+        assert.ok(tokens.every(t => t.color === '#4ec9b0'));
+        assert.deepStrictEqual(overlaySemanticTokens(base, []), base);
+    });
+
+    test('Should parse semantic tokens of a 5,000-line block in linear time', function() {
+        this.timeout(10000);
+
+        const lineCount = 5000;
+        const line = 'const value = compute(value, 42);\n';
+        const text = line.repeat(lineCount);
+
+        // Three tokens per line, each on the same line as the previous one except the first
+        const data = new Uint32Array(lineCount * 3 * 5);
+        for (let index = 0; index < lineCount; index++) {
+            const base = index * 15;
+            data.set([index === 0 ? 0 : 1, 6, 5, 1, 1], base);
+            data.set([0, 8, 7, 2, 0], base + 5);
+            data.set([0, 8, 5, 1, 0], base + 10);
+        }
+
+        const start = Date.now();
+        const tokens = parseSemanticTokens(text, data, legend, () => ({ color: '#d4d4d4' }));
+        const elapsed = Date.now() - start;
+
+        assert.strictEqual(tokens.length, lineCount * 3);
+        assert.strictEqual(tokens.filter(t => t.text === 'compute').length, lineCount);
+        assert.strictEqual(tokens[tokens.length - 1].startIndex, text.length - line.length + 22);
+        assert.ok(elapsed < 1000, `Parsing took ${elapsed}ms`);
+    });
+});
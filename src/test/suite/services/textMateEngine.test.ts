@@ -0,0 +1,71 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { GrammarContribution, GrammarLocator, TextMateEngine } from '../../../services/textMateEngine';
+
+suite('TextMateEngine Unit Tests', () => {
+    let engine: TextMateEngine;
+    let grammarPath: string;
+
+    setup(() => {
+        grammarPath = path.join(os.tmpdir(), `mcbh-demo-${Date.now()}.tmLanguage.json`);
+        fs.writeFileSync(grammarPath, JSON.stringify({
+            scopeName: 'source.demo',
+            patterns: [
+                { name: 'comment.block.demo', begin: '/\\*', end: '\\*/' },
+                { name: 'keyword.control.demo', match: '\\b(if|else)\\b' }
+            ]
+        }));
+
+        const contribution: GrammarContribution = {
+            scopeName: 'source.demo',
+            path: grammarPath,
+            language: 'demo'
+        };
+
+        const locator: GrammarLocator = {
+            getGrammarForLanguage: (languageId) => languageId === 'demo' ? contribution : undefined,
+            getGrammarForScope: (scopeName) => scopeName === 'source.demo' ? contribution : undefined,
+            getInjections: () => []
+        };
+
+        engine = new TextMateEngine(locator);
+    });
+
+    teardown(() => {
+        engine.dispose();
+        fs.unlinkSync(grammarPath);
+    });
+
+    test('Should report grammar availability', () => {
+        assert.strictEqual(engine.hasGrammar('demo'), true);
+        assert.strictEqual(engine.hasGrammar('python'), false);
+    });
+
+    test('Should return null for languages without a grammar', async () => {
+        const result = await engine.tokenize('x = 1', 'python');
+        assert.strictEqual(result, null);
+    });
+
+    test('Should produce tokens with full scope stacks', async () => {
+        const result = await engine.tokenize('if x', 'demo');
+
+        assert.ok(result);
+        const keyword = result.find(t => t.text === 'if');
+        assert.ok(keyword);
+        assert.deepStrictEqual(keyword.scopes, ['source.demo', 'keyword.control.demo']);
+    });
+
+    test('Should carry grammar state across lines', async () => {
+        const code = '/* open\nstill comment */ else';
+        const result = await engine.tokenize(code, 'demo');
+
+        assert.ok(result);
+        assert.strictEqual(result.map(t => t.text).join(''), code);
+
+        const secondLine = result.find(t => t.text.startsWith('still'));
+        assert.ok(secondLine);
+        assert.ok(secondLine.scopes.includes('comment.block.demo'));
+    });
+});
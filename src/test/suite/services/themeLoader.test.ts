@@ -0,0 +1,82 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { loadThemeFile } from '../../../services/themeLoader';
+import { ScopeStyleResolver } from '../../../services/scopeSelectors';
+
+suite('ThemeLoader Unit Tests', () => {
+    let themeDirectory: string;
+
+    setup(() => {
+        themeDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'mcbh-theme-'));
+    });
+
+    teardown(() => {
+        fs.rmSync(themeDirectory, { recursive: true, force: true });
+    });
+
+    function writeThemeFile(name: string, content: string): string {
+        const filePath = path.join(themeDirectory, name);
+        fs.writeFileSync(filePath, content);
+        return filePath;
+    }
+
+    test('Should follow include chains, with later rules and colors winning', async () => {
+        writeThemeFile('base.json', JSON.stringify({
+            colors: { 'editor.background': '#111111', 'editor.foreground': '#eeeeee' },
+            tokenColors: [{ scope: 'comment', settings: { foreground: '#00ff00' } }]
+        }));
+        const themePath = writeThemeFile('child.json', `{
+            // Comments and trailing commas are allowed in theme files
+            "name": "Child",
+            "include": "./base.json",
+            "colors": { "editor.background": "#222222", },
+            "tokenColors": [{ "scope": ["comment.line", "string"], "settings": { "foreground": "#ff0000" } }],
+            "semanticTokenColors": { "variable.readonly": { "foreground": "#0000ff" } }
+        }`);
+
+        const theme = await loadThemeFile(themePath);
+
+        assert.strictEqual(theme.name, 'Child');
+        assert.deepStrictEqual(theme.colors, { 'editor.background': '#222222', 'editor.foreground': '#eeeeee' });
+        assert.strictEqual(theme.tokenColors.length, 2);
+        assert.strictEqual(theme.tokenColors[0].scope, 'comment');
+        assert.deepStrictEqual(theme.semanticTokenColors, { 'variable.readonly': '#0000ff' });
+    });
+
+    test('Should read tmTheme files, including ones referenced by tokenColors', async () => {
+        writeThemeFile('colors.tmTheme', `<?xml version="1.0" encoding="UTF-8"?>
+<plist version="1.0"><dict>
+    <key>settings</key>
+    <array>
+        <dict><key>settings</key><dict><key>background</key><string>#272822</string></dict></dict>
+        <dict>
+            <key>scope</key><string>comment, string.quoted</string>
+            <key>settings</key><dict><key>foreground</key><string>#75715E</string><key>fontStyle</key><string>italic</string></dict>
+        </dict>
+    </array>
+</dict></plist>`);
+        const themePath = writeThemeFile('theme.json', JSON.stringify({ tokenColors: './colors.tmTheme' }));
+
+        const tmTheme = await loadThemeFile(path.join(themeDirectory, 'colors.tmTheme'));
+        const theme = await loadThemeFile(themePath);
+
+        assert.strictEqual(tmTheme.colors['editor.background'], '#272822');
+        assert.deepStrictEqual(theme.tokenColors, tmTheme.tokenColors);
+        assert.strictEqual(theme.tokenColors[0].settings.fontStyle, 'italic');
+        assert.deepStrictEqual(
+            new ScopeStyleResolver(theme.tokenColors).resolve(['string.quoted.double']),
+            { foreground: '#75715e', fontStyle: 'italic' }
+        );
+    });
+
+    test('Should stop at include cycles', async () => {
+        writeThemeFile('a.json', JSON.stringify({ include: './b.json', tokenColors: [{ scope: 'a', settings: { foreground: '#aaaaaa' } }] }));
+        writeThemeFile('b.json', JSON.stringify({ include: './a.json', tokenColors: [{ scope: 'b', settings: { foreground: '#bbbbbb' } }] }));
+
+        const theme = await loadThemeFile(path.join(themeDirectory, 'a.json'));
+
+        assert.deepStrictEqual(theme.tokenColors.map(rule => rule.scope), ['b', 'a']);
+    });
+});
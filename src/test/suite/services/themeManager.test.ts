@@ -275,4 +275,19 @@ suite('ThemeManager Unit Tests', () => {
             assert.ok(themeData.colors[token], `Missing extended token: ${token}`);
         }
     });
+
+    test('Should provide semantic token colors for type and modifier combinations', () => {
+        const themeData = themeManager.getThemeData();
+
+        assert.ok(themeData.semanticTokenColors);
+        assert.strictEqual(themeData.semanticTokenColors['variable.readonly'], themeData.colors.constant);
+    });
+
+    test('Should provide font styles for emphasized markup', () => {
+        const themeData = themeManager.getThemeData();
+
+        assert.strictEqual(themeData.fontStyles?.['markup.bold'], 'bold');
+        assert.strictEqual(themeData.fontStyles?.['markup.italic'], 'italic');
+        assert.strictEqual(themeData.fontStyles?.['comment'], undefined);
+    });
 });
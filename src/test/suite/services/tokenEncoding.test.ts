@@ -0,0 +1,120 @@
+import * as assert from 'assert';
+import { Token } from '../../../services/tokenizationService';
+import {
+    TokenStyleTable,
+    createPreviewTokens,
+    decodeTokenArray,
+    decodeTokens,
+    encodeTokenArray,
+    encodeTokens
+} from '../../../services/tokenEncoding';
+
+suite('TokenEncoding Unit Tests', () => {
+    let table: TokenStyleTable;
+
+    setup(() => {
+        table = new TokenStyleTable();
+    });
+
+    test('Should round-trip tokens through the compact encoding', () => {
+        const tokens: Token[] = [
+            { text: 'const', scopes: ['keyword'], startIndex: 0, endIndex: 5, color: '#569cd6' },
+            { text: ' ', scopes: ['text'], startIndex: 5, endIndex: 6, color: '#d4d4d4' },
+            { text: 'x', scopes: ['variable'], startIndex: 6, endIndex: 7, color: '#9cdcfe' }
+        ];
+
+        const encoded = encodeTokens({ language: 'javascript', tokens }, table);
+        const decoded = decodeTokens(encoded, table);
+
+        assert.strictEqual(encoded.text, 'const x');
+        assert.strictEqual(encoded.data.length, 9);
+        assert.strictEqual(decoded.language, 'javascript');
+        assert.deepStrictEqual(decoded.tokens, tokens);
+    });
+
+    test('Should share style ids between tokens and encodings', () => {
+        const first = encodeTokenArray([{ text: 'a', scopes: ['variable'], startIndex: 0, endIndex: 1, color: '#fff' }], table);
+        const second = encodeTokenArray([{ text: 'b', scopes: ['variable'], startIndex: 4, endIndex: 5, color: '#fff' }], table);
+
+        assert.strictEqual(table.size(), 1);
+        assert.strictEqual(first[2], second[2]);
+        assert.deepStrictEqual(table.getColors(second), { [second[2]]: '#fff' });
+    });
+
+    test('Should keep font styles apart from colors', () => {
+        const tokens: Token[] = [
+            { text: 'a', scopes: ['text.ansi'], startIndex: 0, endIndex: 1, color: '#fff', fontStyle: 'bold' },
+            { text: 'b', scopes: ['text.ansi'], startIndex: 1, endIndex: 2, color: '#fff' }
+        ];
+
+        const data = encodeTokenArray(tokens, table);
+
+        assert.strictEqual(table.size(), 2);
+        assert.deepStrictEqual(table.getFontStyles(data), { [data[2]]: 'bold' });
+        assert.deepStrictEqual(decodeTokenArray(data, 'ab', table), tokens);
+    });
+
+    test('Should prune styles no retained data uses and reuse their ids', () => {
+        const kept = encodeTokenArray([{ text: 'a', scopes: ['keyword'], startIndex: 0, endIndex: 1, color: '#569cd6' }], table);
+        const dropped = encodeTokenArray([{ text: 'b', scopes: ['string'], startIndex: 0, endIndex: 1, color: '#ce9178' }], table);
+        table.retain(kept);
+
+        table.prune();
+        assert.strictEqual(table.size(), 1);
+        assert.strictEqual(table.get(dropped[2]), undefined);
+        assert.deepStrictEqual(decodeTokenArray(kept, 'a', table)[0].scopes, ['keyword']);
+
+        const reused = encodeTokenArray([{ text: 'c', scopes: ['comment'], startIndex: 0, endIndex: 1 }], table);
+        assert.strictEqual(reused[2], dropped[2]);
+
+        table.release(kept);
+        table.prune();
+        assert.strictEqual(table.size(), 0);
+    });
+
+    test('Should merge adjacent tokens with the same style', () => {
+        const text = 'a+b';
+        const tokens: Token[] = Array.from(text, (char, index) => ({
+            text: char,
+            scopes: ['text'],
+            startIndex: index,
+            endIndex: index + 1,
+            color: '#d4d4d4'
+        }));
+
+        const data = encodeTokenArray(tokens, table);
+        const decoded = decodeTokenArray(data, text, table);
+
+        assert.strictEqual(decoded.length, 1);
+        assert.strictEqual(decoded[0].text, 'a+b');
+        assert.strictEqual(decoded[0].endIndex, 3);
+    });
+
+    test('Should keep offsets when tokens leave gaps', () => {
+        const tokens: Token[] = [
+            { text: 'if', scopes: ['keyword'], startIndex: 0, endIndex: 2 },
+            { text: 'x', scopes: ['variable'], startIndex: 4, endIndex: 5 }
+        ];
+
+        const decoded = decodeTokens(encodeTokens({ language: 'c', tokens }, table), table);
+
+        assert.strictEqual(decoded.tokens[1].text, 'x');
+        assert.strictEqual(decoded.tokens[1].startIndex, 4);
+        assert.strictEqual(decoded.tokens[0].color, undefined);
+    });
+
+    test('Should keep the tokens sent to the preview intact through JSON', () => {
+        const data = encodeTokenArray([
+            { text: 'const', scopes: ['keyword'], startIndex: 0, endIndex: 5, color: '#569cd6', fontStyle: 'bold' },
+            { text: 'x', scopes: ['variable'], startIndex: 6, endIndex: 7, color: '#9cdcfe' }
+        ], table);
+
+        const received = JSON.parse(JSON.stringify(createPreviewTokens(data, table)));
+
+        assert.ok(Array.isArray(received.data));
+        assert.deepStrictEqual(received.data, Array.from(data));
+        assert.strictEqual(received.styles[data[2]], '#569cd6');
+        assert.strictEqual(received.styles[data[5]], '#9cdcfe');
+        assert.deepStrictEqual(received.fontStyles, { [data[2]]: 'bold' });
+    });
+});
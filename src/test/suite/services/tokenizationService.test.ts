@@ -1,7 +1,8 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
-import { TokenizationService } from '../../../services/tokenizationService';
+import { TokenizationService, TokenizedChunk } from '../../../services/tokenizationService';
 import { ThemeData } from '../../../services/themeManager';
+import { ANSI_COLOR_NAMES, AnsiColors } from '../../../services/ansiMode';
 
 suite('TokenizationService Unit Tests', () => {
     let tokenizationService: TokenizationService;
@@ -121,6 +122,133 @@ suite('TokenizationService Unit Tests', () => {
         assert.ok(result.tokens.length > 0);
     });
 
+    test('Should keep block comments intact across streaming chunk boundaries', async function() {
+        this.timeout(20000);
+
+        const lines = Array.from({ length: 1000 }, () => 'const x = 1;');
+        lines[498] = '/* comment opened before the chunk boundary';
+        lines[501] = 'still inside the comment */';
+        const result = await tokenizationService.tokenize(lines.join('\n'), 'javascript', mockThemeData, 1000);
+
+        const token = result.tokens.find(t => t.text.includes('still'));
+        assert.ok(token);
+        assert.ok(token.scopes.some(scope => scope.startsWith('comment')));
+    });
+
+    test('Should yield streaming chunks with contiguous offsets', async function() {
+        this.timeout(20000);
+
+        const largeCode = 'const x = 1;\n'.repeat(1200);
+        const chunks: TokenizedChunk[] = [];
+        for await (const chunk of tokenizationService.tokenizeWithStreaming(largeCode, 'javascript', mockThemeData)) {
+            chunks.push(chunk);
+        }
+
+        assert.strictEqual(chunks.length, 3);
+        assert.strictEqual(chunks[0].startIndex, 0);
+        assert.strictEqual(chunks[2].endIndex, largeCode.length);
+        assert.deepStrictEqual(chunks.map(chunk => chunk.done), [false, false, true]);
+        for (const chunk of chunks) {
+            const text = chunk.tokens.map(token => token.text).join('');
+            assert.strictEqual(text, largeCode.substring(chunk.startIndex, chunk.endIndex));
+        }
+        assert.strictEqual(chunks[1].startIndex, chunks[0].endIndex);
+    });
+
+    test('Should tokenize embedded scripts with their own language', async function() {
+        this.timeout(10000);
+
+        const code = '<div class="a">\n<script>\nconst x = 1;\n</script>\n</div>';
+        const result = await tokenizationService.tokenize(code, 'html', mockThemeData);
+
+        assert.strictEqual(result.tokens.map(token => token.text).join(''), code);
+        const keyword = result.tokens.find(token => token.text === 'const');
+        assert.ok(keyword);
+        assert.strictEqual(keyword.color, mockThemeData.colors.keyword);
+    });
+
+    test('Should keep line kinds and highlight code in diff fences', async function() {
+        this.timeout(10000);
+
+        const code = '@@ -1 +1 @@\n-const a = 1;\n+const a = 2;';
+        const result = await tokenizationService.tokenize(code, 'diff-typescript', mockThemeData);
+
+        assert.deepStrictEqual(result.diffLines, ['hunk', 'removed', 'added']);
+        assert.strictEqual(result.tokens.map(token => token.text).join(''), code);
+        const keywords = result.tokens.filter(token => token.text === 'const');
+        assert.strictEqual(keywords.length, 2);
+        assert.ok(keywords.every(token => token.color === mockThemeData.colors.keyword));
+        assert.ok(result.tokens.some(token => token.text === '+' && token.scopes[0] === 'markup.inserted.diff'));
+    });
+
+    test('Should split console transcripts into prompts, commands and output', async function() {
+        this.timeout(10000);
+
+        const code = '$ echo "hi"\nhi';
+        const result = await tokenizationService.tokenize(code, 'console', mockThemeData);
+
+        assert.strictEqual(result.tokens.map(token => token.text).join(''), code);
+        assert.strictEqual(result.tokens[0].text, '$ ');
+        assert.strictEqual(result.tokens[0].scopes[0], 'punctuation.definition.prompt.shell-session');
+        const output = result.tokens[result.tokens.length - 1];
+        assert.strictEqual(output.text, 'hi');
+        assert.strictEqual(output.scopes[0], 'meta.output.shell-session');
+        assert.ok(result.tokens.every(token => token === output || !token.scopes.includes('meta.output.shell-session')));
+    });
+
+    test('Should color and emphasize text from ANSI escape sequences', async function() {
+        const code = '\x1b[1;31merror\x1b[0m: \x1b[38;5;208mwarn\x1b[m';
+        const ansiColors = ANSI_COLOR_NAMES.reduce((colors, name) => ({ ...colors, [name]: '#808080' }), {} as AnsiColors);
+        const themeData: ThemeData = { ...mockThemeData, ansiColors: { ...ansiColors, red: '#ff0000' } };
+        const result = await tokenizationService.tokenize(code, 'ansi', themeData);
+
+        assert.strictEqual(result.tokens.map(token => token.text).join(''), code);
+        const error = result.tokens.find(token => token.text === 'error');
+        assert.ok(error);
+        assert.strictEqual(error.color, '#ff0000');
+        assert.strictEqual(error.fontStyle, 'bold');
+        assert.strictEqual(result.tokens.find(token => token.text === ': ')?.color, mockThemeData.foreground);
+        assert.strictEqual(result.tokens.find(token => token.text === 'warn')?.color, '#ff8700');
+        assert.ok(result.tokens.filter(token => token.text.startsWith('\x1b')).every(token => token.scopes[0] === 'meta.escape.ansi'));
+    });
+
+    test('Should color scopes with the rules of a loaded theme', async function() {
+        const themeData: ThemeData = {
+            ...mockThemeData,
+            tokenColors: [{ scope: 'markup.inserted.diff', settings: { foreground: '#123456' } }]
+        };
+        const result = await tokenizationService.tokenize('+added\n-removed', 'diff', themeData);
+
+        assert.strictEqual(result.tokens.find(token => token.text === '+added')?.color, '#123456');
+        assert.notStrictEqual(result.tokens.find(token => token.text === '-removed')?.color, '#123456');
+    });
+
+    test('Should carry the font styles of a loaded theme onto tokens', async function() {
+        const themeData: ThemeData = {
+            ...mockThemeData,
+            tokenColors: [
+                { scope: 'markup.inserted', settings: { fontStyle: 'bold italic' } },
+                { scope: 'markup.deleted', settings: { fontStyle: 'strikethrough' } }
+            ]
+        };
+        const result = await tokenizationService.tokenize('+added\n-removed', 'diff', themeData);
+
+        assert.strictEqual(result.tokens.find(token => token.text === '+added')?.fontStyle, 'italic bold');
+        assert.strictEqual(result.tokens.find(token => token.text === '-removed')?.fontStyle, 'strikethrough');
+    });
+
+    test('Should tokenize a 5,000-line block within the tokenization timeout', async function() {
+        this.timeout(20000);
+
+        const code = 'const value = compute(value, 42); // trailing comment\n'.repeat(5000);
+        const start = Date.now();
+        const result = await tokenizationService.tokenize(code, 'typescript', mockThemeData, code.length + 1);
+        const elapsed = Date.now() - start;
+
+        assert.strictEqual(result.tokens.map(t => t.text).join(''), code);
+        assert.ok(elapsed < 5000, `Tokenization took ${elapsed}ms`);
+    });
+
     test('Should handle language aliases', async function() {
         this.timeout(10000);
 
@@ -139,6 +267,45 @@ suite('TokenizationService Unit Tests', () => {
         assert.strictEqual(result3.language, 'typescript');
     });
 
+    test('Should honour user aliases and the default language', async function() {
+        this.timeout(10000);
+
+        assert.strictEqual(tokenizationService.setLanguageSettings({ myjs: 'js' }, 'python'), true);
+        assert.strictEqual(tokenizationService.setLanguageSettings({ myjs: 'js' }, 'python'), false);
+
+        const aliased = await tokenizationService.tokenize('const x = 1;', 'MyJS', mockThemeData);
+        assert.strictEqual(aliased.language, 'javascript');
+
+        const unlabeled = await tokenizationService.tokenize('print("hi")', '', mockThemeData);
+        assert.strictEqual(unlabeled.language, 'python');
+    });
+
+    test('Should not take Object.prototype members for aliases', async function() {
+        this.timeout(10000);
+
+        tokenizationService.setLanguageSettings({ myjs: 'js' }, '');
+
+        for (const language of ['constructor', '__proto__']) {
+            assert.doesNotThrow(() => tokenizationService.supportsStreaming('x = 1', language), language);
+
+            const tokens = [];
+            for await (const chunk of tokenizationService.tokenizeWithStreaming('x = 1', language, mockThemeData)) {
+                tokens.push(...chunk.tokens);
+            }
+            assert.strictEqual(tokens.map(t => t.text).join(''), 'x = 1', language);
+        }
+    });
+
+    test('Should tokenize fences named like Object.prototype members as plain code', async function() {
+        this.timeout(10000);
+
+        const transcript = await tokenizationService.tokenize('$ ls\nout', 'constructor', mockThemeData);
+        assert.strictEqual(transcript.tokens.map(t => t.text).join(''), '$ ls\nout');
+
+        const code = await tokenizationService.tokenize('x = 1', '__proto__', mockThemeData);
+        assert.strictEqual(code.tokens.map(t => t.text).join(''), 'x = 1');
+    });
+
     test('Should create minimal highlighting with correct structure', () => {
         const code = 'function test() { return 42; }';
         const result = tokenizationService.createMinimalHighlighting(code, 'javascript', mockThemeData);
@@ -258,6 +425,31 @@ suite('TokenizationService Unit Tests', () => {
         assert.ok(result.tokens);
     });
 
+    test('Should reject with a cancellation error when cancelled', async function() {
+        this.timeout(5000);
+
+        const source = new vscode.CancellationTokenSource();
+        source.cancel();
+
+        await assert.rejects(
+            tokenizationService.tokenize('const x = 1;', 'javascript', mockThemeData, 10000, 5000, 'block-1', source.token),
+            (error: Error) => error instanceof vscode.CancellationError
+        );
+        source.dispose();
+    });
+
+    test('Should cancel the streaming of a large block', async function() {
+        this.timeout(20000);
+
+        const source = new vscode.CancellationTokenSource();
+        const largeCode = 'const x = 1;\n'.repeat(2000);
+        const pending = tokenizationService.tokenize(largeCode, 'javascript', mockThemeData, 1000, 5000, 'block-2', source.token);
+        source.cancel();
+
+        await assert.rejects(pending, (error: Error) => error instanceof vscode.CancellationError);
+        source.dispose();
+    });
+
     test('Should handle code with only whitespace', async function() {
         this.timeout(10000);
 
@@ -293,6 +485,26 @@ suite('TokenizationService Unit Tests', () => {
         }
     });
 
+    test('Should use language-specific comment syntax in minimal highlighting', () => {
+        const python = tokenizationService.createMinimalHighlighting('x = 1 # note', 'python', mockThemeData);
+        const pythonComments = python.tokens.filter(t => t.scopes.includes('comment'));
+        assert.deepStrictEqual(pythonComments.map(t => t.text), ['# note']);
+
+        const javascript = tokenizationService.createMinimalHighlighting('a = b // note', 'javascript', mockThemeData);
+        assert.ok(javascript.tokens.some(t => t.scopes.includes('comment') && t.text === '// note'));
+
+        // '//' is floor division in Python, not a comment
+        const division = tokenizationService.createMinimalHighlighting('x = a // b', 'python', mockThemeData);
+        assert.strictEqual(division.tokens.filter(t => t.scopes.includes('comment')).length, 0);
+    });
+
+    test('Should recognise case-insensitive SQL keywords in minimal highlighting', () => {
+        const result = tokenizationService.createMinimalHighlighting('select id FROM users', 'sql', mockThemeData);
+        const keywords = result.tokens.filter(t => t.scopes.includes('keyword')).map(t => t.text);
+
+        assert.deepStrictEqual(keywords, ['select', 'FROM']);
+    });
+
     test('Should maintain token position consistency', () => {
         const code = 'const x = 1;';
         const result = tokenizationService.createMinimalHighlighting(code, 'javascript', mockThemeData);
@@ -0,0 +1,145 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { TokenizationWorkerPool } from '../../../services/tokenizationWorkerPool';
+import { GrammarSnapshot } from '../../../services/textMateEngine';
+
+suite('TokenizationWorkerPool Unit Tests', () => {
+    const snapshot: GrammarSnapshot = { grammars: [], languages: {}, injections: {} };
+    let outputChannel: vscode.OutputChannel;
+    let scriptPath: string;
+    let pool: TokenizationWorkerPool;
+
+    setup(() => {
+        outputChannel = vscode.window.createOutputChannel('Tokenization Worker Pool Test');
+
+        // Wrap the real worker so tests can make it crash or hang on demand
+        const workerPath = path.join(__dirname, '..', '..', '..', 'services', 'tokenizationWorker.js');
+        scriptPath = path.join(os.tmpdir(), `mcbh-worker-${Date.now()}.js`);
+        fs.writeFileSync(scriptPath, [
+            `const { parentPort } = require('worker_threads');`,
+            `parentPort.on('message', message => {`,
+            `    if (message.type === 'job' && message.job.language === 'crash') { process.exit(1); }`,
+            `    if (message.type === 'job' && message.job.language === 'hang') { for (;;) {} }`,
+            `    if (message.type === 'job' && message.job.language === 'slow') { const end = Date.now() + 200; while (Date.now() < end) {} }`,
+            `});`,
+            `require(${JSON.stringify(workerPath)});`
+        ].join('\n'));
+
+        pool = new TokenizationWorkerPool(snapshot, outputChannel, scriptPath);
+        pool.setSize(2);
+    });
+
+    teardown(() => {
+        pool.dispose();
+        outputChannel.dispose();
+        fs.unlinkSync(scriptPath);
+    });
+
+    test('Should run pattern jobs on a worker', async () => {
+        const result = await pool.run({ tier: 'pattern', code: 'const x = 1;', language: 'javascript' });
+
+        assert.ok(result.tokens);
+        assert.ok(result.tokens!.some(token => token.text === 'const' && token.scopes[0] === 'keyword'));
+        assert.strictEqual(pool.getWorkerCount(), 1);
+    });
+
+    test('Should carry stream state across jobs', async () => {
+        await pool.run({ tier: 'pattern', code: 'a = 1; /* open', language: 'javascript', streamId: 's' });
+        const result = await pool.run({ tier: 'pattern', code: 'still comment */', language: 'javascript', streamId: 's' });
+
+        assert.strictEqual(result.tokens![0].scopes[0], 'comment');
+        assert.strictEqual(result.tokens![0].text, 'still comment */');
+    });
+
+    test('Should restart a worker that crashed', async () => {
+        await assert.rejects(pool.run({ tier: 'minimal', code: 'x', language: 'crash' }));
+
+        const result = await pool.run({ tier: 'minimal', code: 'return 1', language: 'javascript' });
+        assert.ok(result.tokens!.some(token => token.text === 'return'));
+    });
+
+    test('Should cancel a running job', async () => {
+        const source = new vscode.CancellationTokenSource();
+        const job = pool.run({ tier: 'pattern', code: 'x', language: 'hang' }, source.token);
+
+        setTimeout(() => source.cancel(), 50);
+        await assert.rejects(job, (error: Error) => error instanceof vscode.CancellationError);
+
+        const result = await pool.run({ tier: 'pattern', code: 'let y', language: 'javascript' });
+        assert.ok(result.tokens!.some(token => token.text === 'let'));
+        source.dispose();
+    });
+
+    test('Should keep the worker of a cancelled job and drop its result', async () => {
+        pool.setSize(1);
+        await pool.run({ tier: 'pattern', code: 'a = 1; /* open', language: 'javascript', streamId: 's' });
+
+        const source = new vscode.CancellationTokenSource();
+        const job = pool.run({ tier: 'pattern', code: 'x', language: 'slow' }, source.token);
+        setTimeout(() => source.cancel(), 50);
+        await assert.rejects(job, (error: Error) => error instanceof vscode.CancellationError);
+
+        // The stream's state only survives on the same worker
+        const result = await pool.run({ tier: 'pattern', code: 'still comment */', language: 'javascript', streamId: 's' });
+        assert.strictEqual(result.tokens![0].scopes[0], 'comment');
+        source.dispose();
+    });
+
+    test('Should stop a cancelled job on its worker', async function() {
+        this.timeout(20000);
+        pool.setSize(1);
+
+        const source = new vscode.CancellationTokenSource();
+        const code = 'const x = "value"; // comment\n'.repeat(100000);
+        const job = pool.run({ tier: 'pattern', code, language: 'javascript' }, source.token);
+        setTimeout(() => source.cancel(), 100);
+        await assert.rejects(job, (error: Error) => error instanceof vscode.CancellationError);
+
+        // The next job only gets the single worker once the cancelled one has stopped
+        const cancelledAt = Date.now();
+        const result = await pool.run({ tier: 'pattern', code: 'let y', language: 'javascript' });
+        assert.ok(result.tokens!.some(token => token.text === 'let'));
+        assert.ok(Date.now() - cancelledAt < 500);
+        assert.strictEqual(pool.getWorkerCount(), 1);
+        source.dispose();
+    });
+
+    test('Should finish a running job when the grammars change', async function() {
+        this.timeout(20000);
+
+        const grammarPath = path.join(os.tmpdir(), `mcbh-worker-demo-${Date.now()}.tmLanguage.json`);
+        fs.writeFileSync(grammarPath, JSON.stringify({
+            scopeName: 'source.demo',
+            patterns: [{ name: 'keyword.control.demo', match: '\\b(if|else)\\b' }]
+        }));
+        const demoSnapshot: GrammarSnapshot = {
+            grammars: [{ scopeName: 'source.demo', path: grammarPath, language: 'demo' }],
+            languages: { demo: 'source.demo' },
+            injections: {}
+        };
+        const demoPool = new TokenizationWorkerPool(demoSnapshot, outputChannel, scriptPath);
+        demoPool.setSize(1);
+
+        try {
+            const job = demoPool.run({ tier: 'grammar', code: 'if x else y\n'.repeat(50000), language: 'demo' });
+            demoPool.updateGrammars(demoSnapshot);
+            const result = await job;
+
+            assert.ok(result.tokens);
+            assert.strictEqual(result.tokens!.filter(token => token.text === 'else').length, 50000);
+        } finally {
+            demoPool.dispose();
+            fs.unlinkSync(grammarPath);
+        }
+    });
+
+    test('Should not be available without workers', async () => {
+        pool.setSize(0);
+
+        assert.strictEqual(pool.isAvailable(), false);
+        await assert.rejects(pool.run({ tier: 'pattern', code: 'x', language: 'javascript' }));
+    });
+});